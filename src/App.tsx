@@ -1,140 +1,272 @@
-/* eslint-disable @typescript-eslint/no-explicit-any */
-import React, { useState, useRef, useEffect, type ChangeEvent } from 'react';
-import { Plus, Upload, Trophy, RotateCcw, X, Sparkles, Loader2, AlertCircle, Move, Trash2, Settings, Key, Github, Star } from 'lucide-react';
-
-// --- 类型定义 ---
-interface Item {
-  id: string;
-  name: string;
-  image: string;
-}
-
-type GameState = 'idle' | 'guessing' | 'success' | 'fail';
-type CatEmotion = 'neutral' | 'thinking' | 'happy' | 'sad';
+import React, { useState, useRef, useEffect, useCallback, useId } from 'react';
+import { Plus, Trophy, RotateCcw, Sparkles, Loader2, AlertCircle, Move, Trash2, Settings, Github, Star, Languages, ArrowLeftRight, EyeOff, Users, Flame, Pencil, Check, Volume2, VolumeX } from 'lucide-react';
+import { useTouchReorder } from './a11y/useTouchReorder';
+import { describeImage, getProvider, loadAiSettings, saveAiSettings, type AiSettings } from './ai';
+import type { SpeakOptions } from './audio/audioManager';
+import { useAudio, useVoices } from './audio/useAudio';
+import { useCatSkins } from './cat/useCatSkins';
+import { useSleepy } from './cat/useSleepy';
+import AddItemModal from './components/AddItemModal';
+import CatCharacter from './components/CatCharacter';
+import CatPaw from './components/CatPaw';
+import DeckMenu from './components/DeckMenu';
+import EditItemModal from './components/EditItemModal';
+import MatchSummaryModal from './components/MatchSummaryModal';
+import OfflineIndicator from './components/OfflineIndicator';
+import PlayersModal from './components/PlayersModal';
+import RoundTimer from './components/RoundTimer';
+import SettingsModal from './components/SettingsModal';
+import ShareDeckModal from './components/ShareDeckModal';
+import SharedDeckModal from './components/SharedDeckModal';
+import StatsModal from './components/StatsModal';
+import UndoToast from './components/UndoToast';
+import UpdatePrompt from './components/UpdatePrompt';
+import WarehouseToolbar from './components/WarehouseToolbar';
+import { useCatDialogue } from './dialogue/useCatDialogue';
+import { addTag, collectTags, matchesItem, removeTag } from './decks/itemFilter';
+import { useDecks } from './decks/useDecks';
+import { itemName, LOCALES, speechLangOf, tagLabel, type Locale } from './i18n';
+import { useI18n, type I18nValue } from './i18n/context';
+import { canRetry, catEmotionOf, createGame } from './game/engine';
+import type { ReverseHint } from './game/reverse';
+import { currentPlayer } from './game/match';
+import { loadPickStats, savePickStats } from './game/pickStats';
+import { randomSeed } from './game/random';
+import { loadRules, saveRules } from './game/rules';
+import { loadScore, saveScore } from './game/score';
+import { loadStrategySettings, saveStrategySettings, type GuessReason } from './game/strategies';
+import { useGame } from './game/useGame';
+import { applyUpdate, useUpdateAvailable } from './pwa/serviceWorker';
+import { useOnline } from './pwa/useOnline';
+import { decodeSharedDeck, readShareHash, type SharedDeck } from './share/shareLink';
+import { addHistoryEntry } from './storage/historyStore';
+import type { Item } from './types';
+import { usePendingRecognition } from './upload/usePendingRecognition';
 
 // --- 常量配置 ---
-const STORAGE_KEY = 'cat_guess_items_ts_v1';
-const API_KEY_STORAGE = 'cat_guess_gemini_key';
 const GITHUB_URL = "https://github.com/mowtwo/cat-guess-game"; // 请替换为你的实际仓库地址
 
-const DEFAULT_ITEMS: Item[] = [
-  {
-    id: 'default_1',
-    name: '纸巾',
-    image: 'data:image/svg+xml;utf8,<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 100 100"><rect x="20" y="40" width="60" height="40" fill="%23eee" stroke="%23ccc" stroke-width="2"/><path d="M30 40 Q50 10 70 40" fill="%23fff" stroke="%23ddd"/></svg>'
-  },
-  {
-    id: 'default_2',
-    name: '萝卜',
-    image: 'data:image/svg+xml;utf8,<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 100 100"><path d="M50 90 Q20 40 50 40 Q80 40 50 90" fill="orange"/><path d="M50 40 L40 10 M50 40 L50 5 M50 40 L60 10" stroke="green" stroke-width="3"/></svg>'
+// 把猫咪的猜测理由转成一句话
+const describeReason = (reason: GuessReason | null, items: Item[], locale: Locale, t: I18nValue['t']): string => {
+  if (!reason) return '';
+  const nameOf = (id: string) => {
+    const item = items.find(i => i.id === id);
+    return item ? itemName(item, locale) : t('cat.reason.unknownItem');
+  };
+  switch (reason.kind) {
+    case 'streak': return t('cat.reason.streak', { count: reason.count, name: nameOf(reason.itemId) });
+    case 'favorite': return t('cat.reason.favorite', { count: reason.count, name: nameOf(reason.itemId) });
+    case 'avoid': return t('cat.reason.avoid', { names: reason.itemIds.map(nameOf).join(t('list.separator')) });
+    case 'hunch': return t('cat.reason.hunch');
   }
-];
-
-const MAX_UPLOAD_SIZE = 1024 * 1024; // 1MB
-
-// --- 工具函数：图像压缩 ---
-const compressImage = (base64Str: string, maxWidth = 400, maxHeight = 400): Promise<string> => {
-  return new Promise((resolve) => {
-    const img = new Image();
-    img.src = base64Str;
-    img.onload = () => {
-      const canvas = document.createElement('canvas');
-      let { width, height } = img;
-      if (width > height) {
-        if (width > maxWidth) { height *= maxWidth / width; width = maxWidth; }
-      } else if (height > maxHeight) {
-        width *= maxHeight / height; height = maxHeight;
-      }
-      canvas.width = width;
-      canvas.height = height;
-      const ctx = canvas.getContext('2d');
-      if (ctx) {
-        ctx.drawImage(img, 0, 0, width, height);
-        resolve(canvas.toDataURL('image/jpeg', 0.7));
-      }
-    };
-  });
 };
 
-// --- Gemini AI 分析 ---
-const analyzeImage = async (base64Image: string, apiKey: string): Promise<string> => {
-  if (!apiKey) throw new Error("MISSING_KEY");
-
-  const base64Data = base64Image.split(',')[1];
-  const response = await fetch(`https://generativelanguage.googleapis.com/v1beta/models/gemini-2.5-flash-preview-09-2025:generateContent?key=${apiKey}`, {
-    method: 'POST',
-    headers: { 'Content-Type': 'application/json' },
-    body: JSON.stringify({
-      contents: [{
-        parts: [
-          { text: "请识别这张图片中的物品名称，只返回名称，不要超过4个字。" },
-          { inlineData: { mimeType: "image/jpeg", data: base64Data } }
-        ]
-      }]
-    })
-  });
-
-  if (!response.ok) throw new Error("API_ERROR");
-
-  const data = await response.json();
-  const text = data.candidates?.[0]?.content?.parts?.[0]?.text?.trim();
-  if (!text) throw new Error("EMPTY_RESPONSE");
-  return text;
+// 反向模式里猫咪给出的提示；aiHint 是 AI 对藏起来物品的描述
+const describeHint = (hint: ReverseHint, aiHint: string, locale: Locale, t: I18nValue['t']): string => {
+  const parts = [t(`cat.hint.${hint.level}` as const)];
+  if (hint.trend) parts.push(t(`cat.hint.${hint.trend}` as const));
+  if (aiHint) parts.push(t('cat.hint.ai', { text: aiHint }));
+  else if (hint.tag) parts.push(t('cat.hint.tag', { tag: tagLabel(hint.tag, locale) }));
+  return parts.join(' ');
 };
 
 export default function App() {
-  const [items, setItems] = useState<Item[]>(() => {
-    try {
-      const saved = localStorage.getItem(STORAGE_KEY);
-      return saved ? JSON.parse(saved) : DEFAULT_ITEMS;
-    } catch (e) {
-      console.error("Failed to load items from storage:", e);
-      return DEFAULT_ITEMS;
-    }
-  });
-
-  const [geminiKey, setGeminiKey] = useState<string>(() => {
-    return localStorage.getItem(API_KEY_STORAGE) || "";
-  });
+  const { locale, setLocale, t } = useI18n();
+  const { state: game, dispatch } = useGame(() => createGame({
+    items: [],
+    seed: randomSeed(),
+    strategy: loadStrategySettings(),
+    rules: loadRules(),
+    stats: loadPickStats(),
+    score: loadScore(),
+  }));
+  const { items, score, phase: gameState, target: targetItem, catChoice, strategy, stats, lastRound, mode, secret, hint, playerGuesses, match, rules, deadline } = game;
+  const [aiSettings, setAiSettings] = useState<AiSettings>(loadAiSettings);
+  // AI 对当前藏起来物品的描述，按物品 id 记录，换了物品自然失效
+  const [aiHint, setAiHint] = useState<{ itemId: string; text: string } | null>(null);
+  const currentAiHint = aiHint && aiHint.itemId === secret?.id ? aiHint.text : '';
+
+  const catSkins = useCatSkins();
+  const audio = useAudio();
+  const voices = useVoices(speechLangOf(locale));
+  const speak = (text: string, options?: SpeakOptions) => audio.speak(text, speechLangOf(locale), options);
+  const online = useOnline();
+  const dialogueLine = useCatDialogue({ game, aiSettings, online, speak });
+  const isSleepy = useSleepy(gameState === 'idle');
+  const catEmotion = isSleepy ? 'sleepy' : catEmotionOf(game);
+  const hintMessage = hint ? describeHint(hint, currentAiHint, locale, t) : '';
+  const catMessage = gameState === 'success' || gameState === 'fail'
+    ? [dialogueLine, describeReason(game.reason, items, locale, t)].filter(Boolean).join(t('sentence.separator'))
+    : gameState === 'reverseGuessing' && hint
+      ? hintMessage
+      : dialogueLine;
+  const isAiTalking = gameState !== 'idle';
+  const isRevealed = gameState === 'reverseWon' || gameState === 'reverseLost';
+  const activePlayer = match && !match.finished ? currentPlayer(match) : null;
 
-  const [score, setScore] = useState<number>(0);
-  const [gameState, setGameState] = useState<GameState>('idle');
-  const [catEmotion, setCatEmotion] = useState<CatEmotion>('neutral');
-  const [targetItem, setTargetItem] = useState<Item | null>(null);
-  const [catChoice, setCatChoice] = useState<Item | null>(null);
-  const [catMessage, setCatMessage] = useState<string>("人类，快选一个东西让我猜！");
-  const [isAiAnalyzing, setIsAiAnalyzing] = useState<boolean>(false);
-  const [isAiTalking, setIsAiTalking] = useState<boolean>(false);
   const [errorMsg, setErrorMsg] = useState<string>('');
 
   const [isAddModalOpen, setIsAddModalOpen] = useState<boolean>(false);
   const [isSettingsOpen, setIsSettingsOpen] = useState<boolean>(false);
-  const [newItemName, setNewItemName] = useState<string>('');
-  const [newItemImage, setNewItemImage] = useState<string | null>(null);
+  const [isStatsOpen, setIsStatsOpen] = useState<boolean>(false);
+  const [isPlayersOpen, setIsPlayersOpen] = useState<boolean>(false);
   const [draggedItemIndex, setDraggedItemIndex] = useState<number | null>(null);
+  const [isShareOpen, setIsShareOpen] = useState<boolean>(false);
+  // 通过分享链接打开、等待确认导入的物品组
+  const [sharedDeck, setSharedDeck] = useState<SharedDeck | null>(null);
+  const [editingItemId, setEditingItemId] = useState<string | null>(null);
+  const [query, setQuery] = useState<string>('');
+  const [activeTag, setActiveTag] = useState<string | null>(null);
+  const [selecting, setSelecting] = useState<boolean>(false);
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(() => new Set());
+  // 最近一次删除的物品和原来的位置，撤销时放回去
+  const [undo, setUndo] = useState<{ deckId: string; removed: { item: Item; index: number }[] } | null>(null);
+  const undoTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
 
-  const intervalRef = useRef<number | null>(null);
   const itemRefs = useRef<Record<string, HTMLDivElement | null>>({});
+  const listRef = useRef<HTMLDivElement>(null);
+  const keyboardHintId = useId();
+  // 已经播报过的轮次，避免同一轮重复报名字
+  const announcedTurnRef = useRef<number | null>(null);
+
+  const replaceItems = useCallback((next: Item[]) => dispatch({ type: 'setItems', items: next }), [dispatch]);
+  const decks = useDecks({ items, replaceItems, onError: setErrorMsg });
+  const { storageState } = decks;
+
+  const updateAvailable = useUpdateAvailable();
+  const [updateDismissed, setUpdateDismissed] = useState<boolean>(false);
+  // 离线时添加的物品，联网后补上识别
+  const pendingRecognition = usePendingRecognition({
+    deckId: decks.activeDeckId,
+    items,
+    aiSettings,
+    defaultPrompt: t('provider.prompt'),
+    online,
+    onRecognized: (itemId, name) =>
+      dispatch({ type: 'setItems', items: items.map(item => (item.id === itemId ? { ...item, name, names: { [locale]: name } } : item)) }),
+  });
+
+  const knownTags = collectTags(items);
+  // 猫咪猜测时要能看到所有物品，筛选只在空闲和反向模式下生效
+  const isFiltering = (query.trim() !== '' || activeTag !== null) && (gameState === 'idle' || mode === 'reverse');
+  const visibleItems = isFiltering ? items.filter(item => matchesItem(item, query, activeTag, locale)) : items;
+  // 筛选或多选时卡片下标和完整列表对不上，不允许调整顺序
+  const canReorder = gameState === 'idle' && !isFiltering && !selecting;
+  const selectedCount = items.filter(item => selectedIds.has(item.id)).length;
+  const editingItem = items.find(item => item.id === editingItemId) ?? null;
+  const activeDeckName = decks.decks.find(deck => deck.id === decks.activeDeckId)?.name ?? t('deck.defaultName');
+  // 合并分享的物品时跳过名字相同的
+  const isDuplicateOfCurrent = (shared: Item) => items.some(item => itemName(item, locale) === itemName(shared, locale));
+
+  // 打开分享链接时先预览再决定导入还是合并；读完就清掉 hash，刷新页面不会再弹出来
+  useEffect(() => {
+    const openSharedLink = () => {
+      const encoded = readShareHash(window.location.hash);
+      if (!encoded) return;
+      window.history.replaceState(null, '', window.location.pathname + window.location.search);
+      decodeSharedDeck(encoded, t('deck.importedName'))
+        .then(setSharedDeck)
+        .catch(e => {
+          console.error("Failed to open shared deck:", e);
+          setErrorMsg(t('error.invalidShareLink'));
+          setTimeout(() => setErrorMsg(''), 5000);
+        });
+    };
+    openSharedLink();
+    window.addEventListener('hashchange', openSharedLink);
+    return () => window.removeEventListener('hashchange', openSharedLink);
+  }, [t]);
+
+  useEffect(() => {
+    saveAiSettings(aiSettings);
+  }, [aiSettings]);
+
+  useEffect(() => {
+    saveStrategySettings(strategy);
+  }, [strategy]);
+
+  useEffect(() => {
+    saveRules(rules);
+  }, [rules]);
+
+  useEffect(() => {
+    savePickStats(stats);
+  }, [stats]);
+
+  useEffect(() => {
+    saveScore(score);
+  }, [score]);
+
+  useEffect(() => {
+    if (!lastRound || storageState !== 'ready') return;
+    addHistoryEntry({ ...lastRound, deckId: decks.activeDeckId })
+      .catch(e => console.error("Failed to save history entry:", e));
+    // 每轮只记录一次，切换物品组不应该重复写入
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [lastRound]);
+
+  useEffect(() => {
+    if (gameState === 'success' || gameState === 'reverseWon') audio.play('success');
+    if (gameState === 'fail' || gameState === 'reverseLost') audio.play('fail');
+    // 只在进入结束状态时播放一次，台词由 useCatDialogue 播报
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [gameState]);
+
+  useEffect(() => {
+    if (hintMessage) speak(hintMessage);
+    // 每次猜错只播报一次新提示
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [hint]);
+
+  useEffect(() => {
+    if (gameState !== 'reverseGuessing' || !secret || !aiSettings.aiHints || getProvider(aiSettings.providerId).manual || !navigator.onLine) return;
+    const controller = new AbortController();
+    describeImage(secret.image, aiSettings, t('provider.hintPrompt'), { signal: controller.signal })
+      .then(text => { if (!controller.signal.aborted && text) setAiHint({ itemId: secret.id, text }); })
+      // AI 提示是锦上添花，失败时退回标签提示
+      .catch(e => { if (!controller.signal.aborted) console.error("Failed to describe hidden item:", e); });
+    return () => controller.abort();
+    // 每次藏好新物品只请求一次
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [secret]);
+
+  useEffect(() => {
+    // 新的一轮开始时报出当前玩家；反向模式可以直接从结束状态开始下一轮
+    if (!match) {
+      announcedTurnRef.current = null;
+      return;
+    }
+    if (!activePlayer || (gameState !== 'idle' && gameState !== 'reverseGuessing')) return;
+    if (announcedTurnRef.current === match.turn) return;
+    announcedTurnRef.current = match.turn;
+    speak(t('match.turn', { name: activePlayer.name }));
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [match, gameState]);
 
   useEffect(() => {
-    localStorage.setItem(STORAGE_KEY, JSON.stringify(items));
-  }, [items]);
+    if (gameState === 'guessing' && game.ticks > 0) audio.play('tick');
+    // 猫咪每跳到一个物品响一下
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [game.ticks]);
 
   useEffect(() => {
-    localStorage.setItem(API_KEY_STORAGE, geminiKey);
-  }, [geminiKey]);
-
-  const speak = (text: string) => {
-    if ('speechSynthesis' in window) {
-      window.speechSynthesis.cancel();
-      const utterance = new SpeechSynthesisUtterance(text);
-      utterance.lang = 'zh-CN';
-      window.speechSynthesis.speak(utterance);
+    if (gameState === 'guessing' && catChoice) {
+      itemRefs.current[catChoice.id]?.scrollIntoView({ behavior: 'smooth', block: 'nearest', inline: 'center' });
     }
+  }, [gameState, catChoice]);
+
+  const moveItem = (from: number, to: number) => {
+    if (to < 0 || to >= items.length || from === to) return;
+    const newItems = [...items];
+    const [moved] = newItems.splice(from, 1);
+    newItems.splice(to, 0, moved);
+    dispatch({ type: 'setItems', items: newItems });
   };
 
+  const { draggingIndex: touchDraggingIndex } = useTouchReorder(listRef, { enabled: canReorder, onMove: moveItem });
+
   const handleDragStart = (e: React.DragEvent, index: number) => {
-    if (gameState !== 'idle') return;
+    if (!canReorder) return;
     setDraggedItemIndex(index);
     e.dataTransfer.effectAllowed = 'move';
     const target = e.target as HTMLElement;
@@ -144,115 +276,129 @@ export default function App() {
   const handleDragOver = (e: React.DragEvent, index: number) => {
     e.preventDefault();
     if (draggedItemIndex === null || draggedItemIndex === index) return;
-    const newItems = [...items];
-    const draggedItem = newItems.splice(draggedItemIndex, 1)[0];
-    newItems.splice(index, 0, draggedItem);
-    setItems(newItems);
+    moveItem(draggedItemIndex, index);
     setDraggedItemIndex(index);
   };
 
+  const toggleSelected = (itemId: string) => {
+    setSelectedIds(prev => {
+      const next = new Set(prev);
+      if (next.has(itemId)) next.delete(itemId);
+      else next.add(itemId);
+      return next;
+    });
+  };
+
   const handleItemClick = (item: Item) => {
+    if (selecting) {
+      toggleSelected(item.id);
+      return;
+    }
+    if (mode === 'reverse') {
+      if (gameState !== 'reverseGuessing' || playerGuesses.includes(item.id)) return;
+      speak(itemName(item, locale), { interrupt: true });
+      dispatch({ type: 'guessItem', itemId: item.id });
+      return;
+    }
     if (gameState !== 'idle') return;
-    setTargetItem(item);
-    speak(item.name);
-    startCatGuessing(item);
+    speak(itemName(item, locale), { interrupt: true });
+    dispatch({ type: 'pick', itemId: item.id });
   };
 
-  const handleDeleteItem = (e: React.MouseEvent, itemId: string) => {
-    e.stopPropagation();
-    if (gameState !== 'idle') return;
-    if (items.length <= 1) {
-      setErrorMsg('仓库里至少要留一个东西喵！');
+  // 重猜时说什么交给猫咪台词
+  const handleRetry = () => dispatch({ type: 'retry' });
+
+  // 键盘操作：方向键切换焦点，Alt/Ctrl + 方向键调整顺序，Delete 删除
+  const handleCardKeyDown = (e: React.KeyboardEvent, item: Item, index: number) => {
+    const focusAt = (i: number) => {
+      const next = visibleItems[Math.max(0, Math.min(visibleItems.length - 1, i))];
+      if (next) itemRefs.current[next.id]?.focus();
+    };
+    switch (e.key) {
+      case 'Enter':
+      case ' ':
+        e.preventDefault();
+        handleItemClick(item);
+        break;
+      case 'ArrowLeft':
+      case 'ArrowRight': {
+        e.preventDefault();
+        const to = index + (e.key === 'ArrowLeft' ? -1 : 1);
+        if ((e.altKey || e.ctrlKey) && canReorder) {
+          moveItem(index, to);
+          // 重新排列 DOM 后焦点可能丢失，等渲染完再放回被移动的卡片
+          requestAnimationFrame(() => itemRefs.current[item.id]?.focus());
+        } else {
+          focusAt(to);
+        }
+        break;
+      }
+      case 'Home':
+        e.preventDefault();
+        focusAt(0);
+        break;
+      case 'End':
+        e.preventDefault();
+        focusAt(visibleItems.length - 1);
+        break;
+      case 'e':
+      case 'E':
+        if (gameState !== 'idle' || selecting) break;
+        e.preventDefault();
+        setEditingItemId(item.id);
+        break;
+      case 'Delete':
+      case 'Backspace':
+        if (gameState !== 'idle') break;
+        e.preventDefault();
+        handleDeleteItem(e, item.id);
+        {
+          const neighbour = visibleItems[index + 1] ?? visibleItems[index - 1];
+          if (neighbour) requestAnimationFrame(() => itemRefs.current[neighbour.id]?.focus());
+        }
+        break;
+    }
+  };
+
+  // 删除后显示撤销提示，几秒后自动消失
+  const removeItems = (itemIds: string[]) => {
+    if (items.length - itemIds.length < 1) {
+      setErrorMsg(t('error.lastItem'));
       setTimeout(() => setErrorMsg(''), 3000);
       return;
     }
-    setItems(prev => prev.filter(item => item.id !== itemId));
+    const removed = items.map((item, index) => ({ item, index })).filter(({ item }) => itemIds.includes(item.id));
+    if (itemIds.length === 1) dispatch({ type: 'deleteItem', itemId: itemIds[0] });
+    else dispatch({ type: 'setItems', items: items.filter(item => !itemIds.includes(item.id)) });
+    if (undoTimerRef.current) clearTimeout(undoTimerRef.current);
+    setUndo({ deckId: decks.activeDeckId, removed });
+    undoTimerRef.current = setTimeout(() => setUndo(null), 6000);
   };
 
-  const startCatGuessing = (userTarget: Item) => {
-    setGameState('guessing');
-    setCatEmotion('thinking');
-    setCatChoice(null);
-    setCatMessage("喵呜...让我想想...");
-    setIsAiTalking(true);
-    speak(userTarget.name);
-
-    let ticks = 0;
-    intervalRef.current = setInterval(() => {
-      const chosen = items[Math.floor(Math.random() * items.length)];
-      setCatChoice(chosen);
-      itemRefs.current[chosen.id]?.scrollIntoView({ behavior: 'smooth', block: 'nearest', inline: 'center' });
-
-      if (++ticks >= 12) {
-        if (intervalRef.current) clearInterval(intervalRef.current);
-        finalizeGuess(userTarget);
-      }
-    }, 200);
+  const handleUndo = () => {
+    if (!undo) return;
+    const next = [...items];
+    undo.removed.forEach(({ item, index }) => next.splice(Math.min(index, next.length), 0, item));
+    dispatch({ type: 'setItems', items: next });
+    setUndo(null);
   };
 
-  const finalizeGuess = (userTarget: Item) => {
-    const currentItems = [...items];
-    const finalPick = currentItems[Math.floor(Math.random() * currentItems.length)];
-    setCatChoice(finalPick);
-
-    if (finalPick.id === userTarget.id) {
-      setGameState('success');
-      setCatEmotion('happy');
-      setScore(s => s + 1);
-      setCatMessage("猜对了喵！");
-      speak("真棒");
-      setTimeout(() => {
-        setGameState('idle');
-        setCatEmotion('neutral');
-        setCatMessage("人类，快选一个东西让我猜！");
-        setIsAiTalking(false);
-      }, 3000);
-    } else {
-      setGameState('fail');
-      setCatEmotion('sad');
-      setCatMessage("没猜中喵...");
-    }
+  const handleDeleteItem = (e: React.SyntheticEvent, itemId: string) => {
+    e.stopPropagation();
+    removeItems([itemId]);
   };
 
-  const handleFileChange = async (e: ChangeEvent<HTMLInputElement>) => {
-    const file = e.target.files?.[0];
-    if (!file) return;
-    if (file.size > MAX_UPLOAD_SIZE) {
-      setErrorMsg('图片太大啦！请选择 1MB 以内的图片喵~');
-      return;
-    }
-    setErrorMsg('');
-    const reader = new FileReader();
-    reader.onloadend = async () => {
-      const result = reader.result as string;
-      setIsAiAnalyzing(true);
-      try {
-        const compressed = await compressImage(result);
-        setNewItemImage(compressed);
-        const name = await analyzeImage(compressed, geminiKey);
-        setNewItemName(name);
-      } catch (err: any) {
-        if (err.message === "MISSING_KEY" || err.message === "API_ERROR") {
-          setErrorMsg("AI 识别失败。请点击右上角设置图标检查 Gemini API Key 喵！");
-          setIsSettingsOpen(true);
-        } else {
-          setErrorMsg("发生了未知错误喵...");
-        }
-        setNewItemName("未知物品");
-      } finally {
-        setIsAiAnalyzing(false);
-      }
-    };
-    reader.readAsDataURL(file);
+  const handleBulkDelete = () => {
+    removeItems(items.filter(item => selectedIds.has(item.id)).map(item => item.id));
+    setSelectedIds(new Set());
   };
 
-  const saveNewItem = () => {
-    if (newItemName && newItemImage) {
-      setItems(prev => [...prev, { id: Date.now().toString(), name: newItemName, image: newItemImage }]);
-      setIsAddModalOpen(false);
-      setNewItemName('');
-      setNewItemImage(null);
-    }
+  const updateSelectedTags = (update: (item: Item) => Item) =>
+    dispatch({ type: 'setItems', items: items.map(item => (selectedIds.has(item.id) ? update(item) : item)) });
+
+  const handleEditSave = (edited: Item) => {
+    dispatch({ type: 'setItems', items: items.map(item => (item.id === edited.id ? edited : item)) });
+    setEditingItemId(null);
   };
 
   return (
@@ -262,9 +408,31 @@ export default function App() {
       <header className="top-0 z-50 sticky flex justify-between items-center bg-white/80 shadow-sm backdrop-blur-md p-4 border-orange-100 border-b">
         <div className="flex items-center gap-3">
           <div className="bg-orange-500 shadow-lg shadow-orange-200 p-2 rounded-xl"><Sparkles className="text-white" size={20} /></div>
-          <h1 className="hidden sm:block font-black text-orange-900 text-xl tracking-tight">小猫猜猜乐</h1>
+          <h1 className="hidden sm:block font-black text-orange-900 text-xl tracking-tight">{t('app.title')}</h1>
         </div>
         <div className="flex items-center gap-2">
+          <DeckMenu
+            decks={decks.decks}
+            activeDeckId={decks.activeDeckId}
+            disabled={gameState !== 'idle' || storageState !== 'ready'}
+            onSwitch={decks.switchDeck}
+            onCreate={decks.createDeck}
+            onRename={decks.renameDeck}
+            onDuplicate={decks.duplicateDeck}
+            onDelete={decks.deleteDeck}
+            onExport={decks.exportDeck}
+            onShare={() => setIsShareOpen(true)}
+            onImport={decks.importDeck}
+          />
+          <OfflineIndicator online={online} pendingCount={pendingRecognition.count} />
+          <button
+            onClick={() => dispatch({ type: 'setMode', mode: mode === 'classic' ? 'reverse' : 'classic' })}
+            disabled={gameState !== 'idle'}
+            title={t('mode.toggle')}
+            className="flex items-center gap-1 bg-white hover:bg-orange-50 disabled:opacity-50 shadow-sm px-3 py-1.5 border border-orange-100 rounded-full font-bold text-orange-800 text-xs transition-colors"
+          >
+            <ArrowLeftRight size={14} /> <span className="hidden sm:inline">{t(`mode.${mode}` as const)}</span>
+          </button>
           {/* GitHub Star 按钮 */}
           <a
             href={GITHUB_URL}
@@ -273,15 +441,64 @@ export default function App() {
             className="group flex items-center gap-1.5 bg-gray-900 hover:bg-black shadow-md px-3 py-1.5 rounded-full font-bold text-white text-xs transition-all"
           >
             <Github size={14} />
-            <span className="hidden xs:inline">Give a Star</span>
+            <span className="hidden xs:inline">{t('app.star')}</span>
             <Star size={14} className="text-yellow-400 group-hover:scale-125 transition-transform" />
           </a>
 
-          <div className="flex items-center gap-2 bg-orange-100 shadow-inner px-3 py-1.5 rounded-full font-bold text-orange-800">
+          <button
+            onClick={audio.toggleMute}
+            aria-pressed={audio.settings.muted}
+            title={audio.settings.muted ? t('audio.unmute') : t('audio.mute')}
+            aria-label={audio.settings.muted ? t('audio.unmute') : t('audio.mute')}
+            className="hover:bg-orange-50 p-2 rounded-full text-orange-400 hover:text-orange-600 transition-colors"
+          >
+            {audio.settings.muted ? <VolumeX size={18} /> : <Volume2 size={18} />}
+          </button>
+          <button
+            onClick={() => setLocale(LOCALES[(LOCALES.findIndex(l => l.id === locale) + 1) % LOCALES.length].id)}
+            title={t('app.language')}
+            aria-label={t('app.language')}
+            className="flex items-center gap-1 hover:bg-orange-50 p-2 rounded-full font-bold text-orange-400 hover:text-orange-600 text-xs transition-colors"
+          >
+            <Languages size={18} /> <span className="hidden sm:inline">{LOCALES.find(l => l.id === locale)?.label}</span>
+          </button>
+          {activePlayer && match ? (
+            <button
+              onClick={() => setIsPlayersOpen(true)}
+              className="flex items-center gap-2 bg-white shadow-sm px-3 py-1.5 border-2 rounded-full font-bold text-orange-900 text-xs"
+              style={{ borderColor: activePlayer.color }}
+              title={t('match.progress', { turn: match.turn + 1, total: match.players.length * match.turnsPerPlayer })}
+            >
+              <span className="rounded-full w-3 h-3" style={{ backgroundColor: activePlayer.color }} />
+              <span className="max-w-[5rem] truncate">{activePlayer.name}</span>
+              <span className="text-orange-500">{match.scores[activePlayer.id].score}</span>
+              {match.scores[activePlayer.id].streak > 1 && (
+                <span className="flex items-center text-red-400" title={t('match.streak', { count: match.scores[activePlayer.id].streak })}>
+                  <Flame size={12} />{match.scores[activePlayer.id].streak}
+                </span>
+              )}
+            </button>
+          ) : (
+            <button
+              onClick={() => setIsPlayersOpen(true)}
+              disabled={gameState !== 'idle'}
+              title={t('players.open')}
+              aria-label={t('players.open')}
+              className="hover:bg-orange-50 disabled:opacity-50 p-2 rounded-full text-orange-400 hover:text-orange-600 transition-colors"
+            >
+              <Users size={20} />
+            </button>
+          )}
+          <button
+            onClick={() => setIsStatsOpen(true)}
+            aria-label={t('stats.title')}
+            className="flex items-center gap-2 bg-orange-100 hover:bg-orange-200 shadow-inner px-3 py-1.5 rounded-full font-bold text-orange-800 transition-colors"
+          >
             <Trophy size={16} /> <span className="text-sm">{score}</span>
-          </div>
+          </button>
           <button
             onClick={() => setIsSettingsOpen(true)}
+            aria-label={t('settings.title')}
             className="hover:bg-orange-50 p-2 rounded-full text-orange-400 hover:text-orange-600 transition-colors"
           >
             <Settings size={20} />
@@ -290,34 +507,21 @@ export default function App() {
       </header>
 
       <main className="flex flex-col flex-1 justify-center items-center gap-8 mx-auto p-4 w-full max-w-5xl">
-        {errorMsg && !isAddModalOpen && !isSettingsOpen && (
-          <div className="top-20 left-1/2 z-[100] fixed flex items-center gap-2 bg-red-500 shadow-lg px-6 py-2 rounded-full font-bold text-white text-sm -translate-x-1/2 animate-bounce">
+        {errorMsg && !isAddModalOpen && !isSettingsOpen && !isStatsOpen && (
+          <div role="alert" className="top-20 left-1/2 z-[100] fixed flex items-center gap-2 bg-red-500 shadow-lg px-6 py-2 rounded-full font-bold text-white text-sm -translate-x-1/2 animate-bounce">
             <AlertCircle size={16} /> {errorMsg}
           </div>
         )}
 
+        {/* 读屏软件通过这里听到猫咪说的话和每轮结果 */}
+        <div aria-live="polite" role="status" className="sr-only">
+          {[activePlayer && gameState === 'idle' ? t('match.turn', { name: activePlayer.name }) : '', isAiTalking ? catMessage : ''].filter(Boolean).join(' ')}
+        </div>
+
         <div className="relative flex flex-col justify-center items-center w-full min-h-[300px]">
           <div className="relative flex justify-center items-center w-56 h-56 transition-all duration-300">
-            <svg viewBox="0 0 240 240" className={`w-full h-full drop-shadow-2xl ${gameState === 'guessing' ? 'animate-bounce' : ''}`}>
-              <path d="M60 70 L40 20 L100 50 Z" fill="#FDBA74" stroke="#442c1d" strokeWidth="3" />
-              <path d="M180 70 L200 20 L140 50 Z" fill="#333" stroke="#442c1d" strokeWidth="3" />
-              <ellipse cx="120" cy="140" rx="85" ry="75" fill="white" stroke="#442c1d" strokeWidth="3" />
-              <path d="M50 100 Q40 120 50 160 Q80 140 70 100 Z" fill="#FDBA74" opacity="0.8" />
-              <path d="M190 100 Q200 120 190 160 Q160 140 170 100 Z" fill="#333" opacity="0.8" />
-              <path d="M70 75 Q120 45 170 75 L175 90 Q120 75 65 90 Z" fill="#3b82f6" stroke="#1e3a8a" strokeWidth="2" />
-              <path d="M120 45 L125 55 L135 55 L127 62 L130 72 L120 65 L110 72 L113 62 L105 55 L115 55 Z" fill="#facc15" />
-              {catEmotion === 'thinking' ? (
-                <><circle cx="95" cy="115" r="7" fill="#333" /><circle cx="145" cy="115" r="7" fill="#333" /><path d="M90 100 Q95 95 100 100" fill="none" stroke="#333" strokeWidth="2" /><path d="M140 100 Q145 95 150 100" fill="none" stroke="#333" strokeWidth="2" /></>
-              ) : catEmotion === 'happy' ? (
-                <><path d="M85 115 Q95 105 105 115" fill="none" stroke="#333" strokeWidth="3" /><path d="M135 115 Q145 105 155 115" fill="none" stroke="#333" strokeWidth="3" /></>
-              ) : catEmotion === 'sad' ? (
-                <><line x1="85" y1="110" x2="105" y2="120" stroke="#333" strokeWidth="3" /><line x1="85" y1="120" x2="105" y2="110" stroke="#333" strokeWidth="3" /><line x1="135" y1="110" x2="155" y2="120" stroke="#333" strokeWidth="3" /><line x1="135" y1="120" x2="155" y2="110" stroke="#333" strokeWidth="3" /></>
-              ) : (
-                <><circle cx="95" cy="120" r="10" fill="#333" /><circle cx="145" cy="120" r="10" fill="#333" /><circle cx="98" cy="116" r="4" fill="white" /><circle cx="148" cy="116" r="4" fill="white" /></>
-              )}
-              <path d="M115 135 L125 135 L120 142 Z" fill="#fda4af" /><path d="M120 142 Q110 150 100 145 M120 142 Q130 150 140 145" fill="none" stroke="#333" strokeWidth="2" />
-            </svg>
-            <div className={`absolute -top-12 left-1/2 -translate-x-1/2 w-48 bg-white border-2 border-orange-200 rounded-2xl p-2 shadow-lg text-xs font-bold text-center transition-opacity duration-500 ${isAiTalking ? 'opacity-100' : 'opacity-0'}`}>
+            <CatCharacter skin={catSkins.skin} emotion={catEmotion} animated className={`w-full h-full drop-shadow-2xl ${gameState === 'guessing' ? 'animate-bounce' : ''}`} />
+            <div aria-hidden="true" className={`absolute -top-12 left-1/2 -translate-x-1/2 w-48 bg-white border-2 border-orange-200 rounded-2xl p-2 shadow-lg text-xs font-bold text-center transition-opacity duration-500 ${isAiTalking ? 'opacity-100' : 'opacity-0'}`}>
               {catMessage}
               <div className="-bottom-2 left-1/2 absolute bg-white border-orange-200 border-r-2 border-b-2 w-4 h-4 rotate-45 -translate-x-1/2"></div>
             </div>
@@ -325,11 +529,37 @@ export default function App() {
 
           {gameState === 'fail' && (
             <div className="slide-in-from-bottom-4 z-50 flex gap-4 mt-8 animate-in duration-500 fade-in">
-              <button onClick={() => targetItem && startCatGuessing(targetItem)} className="flex items-center gap-2 bg-orange-500 hover:bg-orange-600 shadow-xl px-8 py-3 rounded-2xl font-bold text-white active:scale-95 transition-all transform">
-                <RotateCcw size={20} /> 再猜一次喵
+              {canRetry(game) ? (
+                <button onClick={handleRetry} className="flex items-center gap-2 bg-orange-500 hover:bg-orange-600 shadow-xl px-8 py-3 rounded-2xl font-bold text-white active:scale-95 transition-all transform">
+                  <RotateCcw size={20} /> {t('game.retry')}
+                </button>
+              ) : (
+                <p className="self-center font-bold text-orange-400 text-sm">{t('game.noRetries')}</p>
+              )}
+              <button onClick={() => dispatch({ type: 'reset' })} className="bg-white hover:bg-gray-50 shadow-lg px-8 py-3 border border-gray-100 rounded-2xl font-bold text-gray-600 transition-all">
+                {t('game.changeItem')}
               </button>
-              <button onClick={() => { setGameState('idle'); setCatEmotion('neutral'); setIsAiTalking(false); }} className="bg-white hover:bg-gray-50 shadow-lg px-8 py-3 border border-gray-100 rounded-2xl font-bold text-gray-600 transition-all">
-                换个物品
+            </div>
+          )}
+
+          {mode === 'reverse' && gameState === 'idle' && (
+            <button onClick={() => dispatch({ type: 'hide' })} disabled={items.length === 0} className="flex items-center gap-2 bg-orange-500 hover:bg-orange-600 disabled:bg-gray-200 shadow-xl mt-8 px-8 py-3 rounded-2xl font-bold text-white active:scale-95 transition-all transform">
+              <EyeOff size={20} /> {t('game.hide')}
+            </button>
+          )}
+          {gameState === 'reverseGuessing' && (
+            <p className="bg-white shadow-sm mt-8 px-5 py-2 rounded-full font-bold text-orange-500 text-sm">
+              {t('game.guessesLeft', { count: rules.maxPlayerGuesses - playerGuesses.length })}
+            </p>
+          )}
+          {deadline !== null && (gameState === 'fail' || gameState === 'reverseGuessing') && <RoundTimer deadline={deadline} />}
+          {isRevealed && (
+            <div className="slide-in-from-bottom-4 z-50 flex gap-4 mt-8 animate-in duration-500 fade-in">
+              <button onClick={() => dispatch({ type: 'hide' })} className="flex items-center gap-2 bg-orange-500 hover:bg-orange-600 shadow-xl px-8 py-3 rounded-2xl font-bold text-white active:scale-95 transition-all transform">
+                <RotateCcw size={20} /> {t('game.playAgain')}
+              </button>
+              <button onClick={() => dispatch({ type: 'reset' })} className="bg-white hover:bg-gray-50 shadow-lg px-8 py-3 border border-gray-100 rounded-2xl font-bold text-gray-600 transition-all">
+                {t('game.back')}
               </button>
             </div>
           )}
@@ -337,48 +567,102 @@ export default function App() {
 
         <div className="relative w-full">
           <div className="flex justify-between items-end mb-4 px-4">
-            <div><h2 className="font-black text-orange-900 text-lg">物品仓库</h2><p className="font-medium text-orange-400 text-xs">长按拖动排序，点击物品开始猜测</p></div>
-            <button onClick={() => setIsAddModalOpen(true)} className="bg-white hover:bg-orange-50 shadow-lg p-3 border border-orange-50 rounded-2xl text-orange-500 hover:scale-110 active:scale-90 transition-all"><Plus size={24} /></button>
+            <div><h2 className="font-black text-orange-900 text-lg">{t('warehouse.title')}</h2><p className="font-medium text-orange-400 text-xs">{t('warehouse.hint')}</p><p id={keyboardHintId} className="sr-only">{t('warehouse.keyboardHint')}</p></div>
+            <button onClick={() => setIsAddModalOpen(true)} aria-label={t('add.title')} className="bg-white hover:bg-orange-50 shadow-lg p-3 border border-orange-50 rounded-2xl text-orange-500 hover:scale-110 active:scale-90 transition-all"><Plus size={24} /></button>
           </div>
 
-          <div className="relative">
-            <div className={`absolute pointer-events-none transition-all duration-300 ease-out z-[60] ${gameState === 'guessing' ? 'opacity-100 scale-100' : 'opacity-0 scale-50'}`}
-              style={{ left: catChoice && itemRefs.current[catChoice.id] ? itemRefs.current[catChoice.id]!.offsetLeft + 64 : '50%', top: '-10px', transform: 'translateX(-50%)' }}
-            >
-              <svg width="80" height="80" viewBox="0 0 100 100">
-                <path d="M50 90 C30 90 20 70 20 50 C20 30 35 20 50 20 C65 20 80 30 80 50 C80 70 70 90 50 90" fill="white" stroke="#442c1d" strokeWidth="3" />
-                <path d="M50 90 C30 90 20 70 20 50 L35 50 Q50 65 65 50 L80 50 C80 70 70 90 50 90" fill="#FDBA74" /><circle cx="35" cy="40" r="10" fill="#fda4af" /><circle cx="50" cy="30" r="10" fill="#fda4af" /><circle cx="65" cy="40" r="10" fill="#fda4af" /><ellipse cx="50" cy="65" rx="18" ry="15" fill="#fda4af" />
-              </svg>
-            </div>
+          <WarehouseToolbar
+            query={query}
+            onQueryChange={setQuery}
+            tags={knownTags}
+            activeTag={activeTag !== null && knownTags.includes(activeTag) ? activeTag : null}
+            onTagChange={setActiveTag}
+            selecting={selecting}
+            canSelect={gameState === 'idle'}
+            onToggleSelecting={() => { setSelecting(!selecting); setSelectedIds(new Set()); }}
+            selectedCount={selectedCount}
+            onSelectAll={() => setSelectedIds(new Set(visibleItems.map(item => item.id)))}
+            onBulkDelete={handleBulkDelete}
+            onBulkAddTag={(tag) => updateSelectedTags(item => addTag(item, tag))}
+            onBulkRemoveTag={(tag) => updateSelectedTags(item => removeTag(item, tag))}
+          />
 
-            <div className="relative flex gap-6 px-6 py-12 min-h-[220px] overflow-x-auto snap-x scrollbar-hide">
-              {items.map((item, index) => {
+          <div className="relative">
+            <CatPaw
+              skin={catSkins.skin}
+              visible={gameState === 'guessing'}
+              left={catChoice && itemRefs.current[catChoice.id] ? itemRefs.current[catChoice.id]!.offsetLeft + itemRefs.current[catChoice.id]!.offsetWidth / 2 : '50%'}
+            />
+
+            <div ref={listRef} role="list" aria-label={t('warehouse.title')} className="relative flex gap-6 px-6 py-12 min-h-[220px] overflow-x-auto snap-x scrollbar-hide">
+              {storageState === 'loading' && (
+                <div className="flex justify-center items-center w-full"><Loader2 className="text-orange-300 animate-spin" size={40} /></div>
+              )}
+              {storageState !== 'loading' && items.length === 0 && (
+                <div className="flex justify-center items-center w-full font-bold text-orange-300 text-sm">{t('warehouse.empty')}</div>
+              )}
+              {items.length > 0 && visibleItems.length === 0 && (
+                <div className="flex justify-center items-center w-full font-bold text-orange-300 text-sm">{t('warehouse.noMatches')}</div>
+              )}
+              {visibleItems.map((item, index) => {
                 const isCatThinking = catChoice?.id === item.id;
-                const isSelected = targetItem?.id === item.id;
+                const isSelected = targetItem?.id === item.id || (isRevealed && secret?.id === item.id);
+                const isWrongGuess = mode === 'reverse' && playerGuesses.includes(item.id);
+                const isTouchDragging = touchDraggingIndex === index;
+                const isChecked = selecting && selectedIds.has(item.id);
                 return (
                   <div
                     key={item.id}
                     ref={el => {
                       itemRefs.current[item.id] = el
                     }}
-                    draggable={gameState === 'idle'}
+                    role="button"
+                    tabIndex={0}
+                    aria-label={itemName(item, locale)}
+                    aria-describedby={keyboardHintId}
+                    aria-pressed={selecting ? isChecked : isSelected}
+                    aria-disabled={selecting ? false : mode === 'reverse' ? gameState !== 'reverseGuessing' || isWrongGuess : gameState !== 'idle'}
+                    data-reorder-index={index}
+                    onKeyDown={(e) => handleCardKeyDown(e, item, index)}
+                    onContextMenu={(e) => { if (canReorder) e.preventDefault(); }}
+                    draggable={canReorder}
                     onDragStart={(e) => handleDragStart(e, index)}
                     onDragEnd={(e) => { (e.target as HTMLElement).style.opacity = '1'; setDraggedItemIndex(null); }}
                     onDragOver={(e) => handleDragOver(e, index)}
-                    className={`group relative flex-shrink-0 w-32 h-44 flex flex-col items-center justify-between p-4 rounded-3xl border-2 transition-all duration-300 snap-center drag-item
-                      ${isCatThinking && gameState === 'guessing' ? 'border-orange-400 bg-white scale-110 z-20 shadow-2xl shadow-orange-200'
+                    className={`group relative flex-shrink-0 w-32 h-44 flex flex-col items-center justify-between p-4 rounded-3xl border-2 transition-all duration-300 snap-center drag-item select-none [-webkit-touch-callout:none] outline-none focus-visible:ring-4 focus-visible:ring-orange-300
+                      ${isTouchDragging ? 'border-orange-400 bg-white scale-105 z-20 shadow-2xl'
+                        : isChecked ? 'border-orange-500 bg-orange-100 ring-4 ring-orange-200/60'
+                        : isCatThinking && gameState === 'guessing' ? 'border-orange-400 bg-white scale-110 z-20 shadow-2xl shadow-orange-200'
                         : isSelected ? 'border-orange-500 bg-orange-50 ring-4 ring-orange-100/50 z-10'
-                          : 'border-transparent bg-white/60 hover:bg-white hover:border-orange-200 shadow-md'}`}
+                          : isWrongGuess ? 'border-transparent bg-gray-100 opacity-50'
+                            : 'border-transparent bg-white/60 hover:bg-white hover:border-orange-200 shadow-md'}`}
                     onClick={() => handleItemClick(item)}
                   >
-                    {gameState === 'idle' && (
+                    {selecting && (
+                      <div aria-hidden="true" className={`top-2 left-2 absolute flex justify-center items-center w-5 h-5 rounded-md border-2 ${isChecked ? 'bg-orange-500 border-orange-500 text-white' : 'bg-white border-orange-200'}`}>
+                        {isChecked && <Check size={12} />}
+                      </div>
+                    )}
+                    {gameState === 'idle' && !selecting && (
                       <>
-                        <div className="top-2 right-2 absolute group-hover:opacity-0 text-orange-200 transition-opacity">
-                          <Move size={14} />
-                        </div>
+                        {canReorder && (
+                          <div aria-hidden="true" className="top-2 right-2 absolute group-hover:opacity-0 group-focus-within:opacity-0 [@media(hover:none)]:opacity-0 text-orange-200 transition-opacity">
+                            <Move size={14} />
+                          </div>
+                        )}
+                        <button
+                          onClick={(e) => { e.stopPropagation(); setEditingItemId(item.id); }}
+                          tabIndex={-1}
+                          aria-label={t('warehouse.edit', { name: itemName(item, locale) })}
+                          className="top-2 left-2 absolute hover:bg-orange-50 opacity-0 group-hover:opacity-100 group-focus-within:opacity-100 [@media(hover:none)]:opacity-100 p-1.5 rounded-lg text-orange-300 hover:text-orange-500 transition-all"
+                        >
+                          <Pencil size={16} />
+                        </button>
                         <button
                           onClick={(e) => handleDeleteItem(e, item.id)}
-                          className="top-2 right-2 absolute hover:bg-red-50 opacity-0 group-hover:opacity-100 p-1.5 rounded-lg text-red-300 hover:text-red-500 transition-all"
+                          tabIndex={-1}
+                          aria-label={t('warehouse.delete', { name: itemName(item, locale) })}
+                          className="top-2 right-2 absolute hover:bg-red-50 opacity-0 group-hover:opacity-100 group-focus-within:opacity-100 [@media(hover:none)]:opacity-100 p-1.5 rounded-lg text-red-300 hover:text-red-500 transition-all"
                         >
                           <Trash2 size={16} />
                         </button>
@@ -386,9 +670,9 @@ export default function App() {
                     )}
 
                     <div className="flex justify-center items-center bg-orange-50/50 p-2 rounded-2xl w-24 h-24 overflow-hidden pointer-events-none">
-                      <img src={item.image} alt={item.name} className="w-full h-full object-contain" />
+                      <img src={item.image} alt="" className="w-full h-full object-contain" />
                     </div>
-                    <span className="mt-2 w-full font-black text-orange-900 text-sm text-center truncate pointer-events-none">{item.name}</span>
+                    <span className="mt-2 w-full font-black text-orange-900 text-sm text-center truncate pointer-events-none">{itemName(item, locale)}</span>
                   </div>
                 );
               })}
@@ -397,81 +681,106 @@ export default function App() {
         </div>
       </main>
 
+      {/* 分享物品组 */}
+      {isShareOpen && <ShareDeckModal deckName={activeDeckName} items={items} onClose={() => setIsShareOpen(false)} />}
+
+      {/* 预览通过链接分享来的物品组 */}
+      {sharedDeck && (
+        <SharedDeckModal
+          deck={sharedDeck}
+          duplicateCount={sharedDeck.items.filter(isDuplicateOfCurrent).length}
+          canCreateDeck={storageState === 'ready' && gameState === 'idle'}
+          onImport={() => { decks.importSharedDeck(sharedDeck.name, sharedDeck.items); setSharedDeck(null); }}
+          onMerge={() => {
+            dispatch({ type: 'setItems', items: [...items, ...sharedDeck.items.filter(item => !isDuplicateOfCurrent(item))] });
+            setSharedDeck(null);
+          }}
+          onClose={() => setSharedDeck(null)}
+        />
+      )}
+
+      {/* 撤销删除 */}
+      {undo && undo.deckId === decks.activeDeckId && (
+        <UndoToast
+          message={undo.removed.length === 1
+            ? t('undo.deleted', { name: itemName(undo.removed[0].item, locale) })
+            : t('undo.deletedMany', { count: undo.removed.length })}
+          onUndo={handleUndo}
+          onDismiss={() => setUndo(null)}
+        />
+      )}
+
+      {/* 新版本提示 */}
+      {updateAvailable && !updateDismissed && (
+        <UpdatePrompt onUpdate={applyUpdate} onDismiss={() => setUpdateDismissed(true)} />
+      )}
+
+      {/* 编辑物品弹窗 */}
+      {editingItem && (
+        <EditItemModal item={editingItem} knownTags={knownTags} onSave={handleEditSave} onClose={() => setEditingItemId(null)} />
+      )}
+
+      {/* 多人模式弹窗 */}
+      {isPlayersOpen && (
+        <PlayersModal
+          matchActive={!!match}
+          onStart={(players, turnsPerPlayer) => { dispatch({ type: 'startMatch', players, turnsPerPlayer }); setIsPlayersOpen(false); }}
+          onEnd={() => { dispatch({ type: 'endMatch' }); setIsPlayersOpen(false); }}
+          onClose={() => setIsPlayersOpen(false)}
+        />
+      )}
+
+      {/* 比赛总结 */}
+      {match?.finished && (
+        <MatchSummaryModal
+          match={match}
+          onRematch={() => dispatch({ type: 'startMatch', players: match.players, turnsPerPlayer: match.turnsPerPlayer })}
+          onClose={() => dispatch({ type: 'endMatch' })}
+        />
+      )}
+
+      {/* 统计弹窗 */}
+      {isStatsOpen && (
+        <StatsModal score={score} decks={decks.decks} onClose={() => setIsStatsOpen(false)} />
+      )}
+
       {/* 设置弹窗 */}
       {isSettingsOpen && (
-        <div className="z-[120] fixed inset-0 flex justify-center items-center bg-orange-900/40 backdrop-blur-md p-6">
-          <div className="relative bg-white shadow-2xl p-8 rounded-[2rem] w-full max-w-sm">
-            <div className="flex justify-between items-center mb-6">
-              <h3 className="flex items-center gap-2 font-black text-orange-950 text-xl"><Settings className="text-orange-500" size={20} /> 开发者设置</h3>
-              <button onClick={() => setIsSettingsOpen(false)} className="bg-orange-50 p-2 rounded-full text-orange-500"><X size={20} /></button>
-            </div>
-            <div className="space-y-4">
-              <div className="flex gap-3 bg-blue-50 p-4 rounded-2xl text-blue-700 text-xs leading-relaxed">
-                <AlertCircle className="shrink-0" size={16} />
-                <p>AI 物品识别需要 <b>Gemini API Key</b>。你可以从 Google AI Studio 免费获取。</p>
-              </div>
-              <div className="space-y-2">
-                <label className="flex items-center gap-1 ml-1 font-bold text-orange-400 text-xs"><Key size={12} /> Gemini API Key</label>
-                <input
-                  type="password"
-                  value={geminiKey}
-                  onChange={(e) => setGeminiKey(e.target.value)}
-                  placeholder="在此输入你的 API Key"
-                  className="bg-orange-50 px-5 py-4 rounded-2xl outline-none ring-orange-200 focus:ring-2 w-full font-mono text-sm transition-all"
-                />
-              </div>
-              <button
-                onClick={() => setIsSettingsOpen(false)}
-                className="bg-orange-950 hover:bg-black py-4 rounded-2xl w-full font-bold text-white transition-colors"
-              >
-                保存设置
-              </button>
-            </div>
-          </div>
-        </div>
+        <SettingsModal
+          aiSettings={aiSettings}
+          onAiSettingsChange={setAiSettings}
+          strategy={strategy}
+          onStrategyChange={(next) => dispatch({ type: 'setStrategy', strategy: next })}
+          rules={rules}
+          onRulesChange={(next) => dispatch({ type: 'setRules', rules: next })}
+          audio={audio.settings}
+          onAudioChange={audio.setSettings}
+          voices={voices}
+          speechSupported={audio.speechSupported}
+          onPreviewVoice={() => speak(t('audio.previewText'), { interrupt: true })}
+          skins={catSkins.skins}
+          skinId={catSkins.skin.id}
+          onSkinChange={catSkins.selectSkin}
+          onImportSkin={catSkins.importSkin}
+          onDeleteSkin={catSkins.deleteSkin}
+          onClose={() => setIsSettingsOpen(false)}
+        />
       )}
 
       {/* 添加物品弹窗 */}
       {isAddModalOpen && (
-        <div className="z-[100] fixed inset-0 flex justify-center items-center bg-orange-900/40 backdrop-blur-md p-6">
-          <div className="relative bg-white shadow-2xl p-8 rounded-[2rem] w-full max-w-md overflow-hidden">
-            <div className="flex justify-between items-center mb-6">
-              <h3 className="font-black text-orange-950 text-2xl">扩充仓库</h3>
-              <button onClick={() => { setIsAddModalOpen(false); setErrorMsg(''); }} className="bg-orange-50 p-2 rounded-full text-orange-500"><X size={24} /></button>
-            </div>
-            {errorMsg && (
-              <div
-                className={`mb-4 p-4 rounded-xl flex items-center gap-2 text-sm font-bold border animate-shake ${errorMsg.includes('API Key') ? 'bg-blue-50 text-blue-600 border-blue-100' : 'bg-red-50 text-red-600 border-red-100'}`}
-              >
-                <AlertCircle size={18} /> {errorMsg}
-              </div>
-            )}
-            <div className="space-y-6">
-              <div className="space-y-1">
-                <label className="ml-2 font-bold text-orange-400 text-xs">物品名称</label>
-                <input type="text" value={newItemName} onChange={(e) => setNewItemName(e.target.value)} placeholder={isAiAnalyzing ? "猫咪正在观察..." : "给它起个名字喵？"} className="bg-orange-50 px-6 py-4 rounded-2xl outline-none ring-orange-200 focus:ring-2 w-full font-bold transition-all" />
-              </div>
-              <div className="space-y-1">
-                <label className="ml-2 font-bold text-orange-400 text-xs">上传图片 (限1MB)</label>
-                <div className={`border-3 border-dashed rounded-[1.5rem] p-8 text-center cursor-pointer transition-all ${newItemImage ? 'border-orange-200' : 'border-orange-100 hover:border-orange-300 bg-orange-50/30'}`}
-                  onClick={() => !isAiAnalyzing && document.getElementById('fileInput')?.click()}>
-                  {isAiAnalyzing ? (
-                    <div className="flex flex-col items-center gap-3 py-6"><Loader2 className="text-orange-400 animate-spin" size={40} /><p className="font-bold text-orange-400 text-sm">正在通过 AI 识别...</p></div>
-                  ) : newItemImage ? (
-                    <img src={newItemImage} className="mx-auto rounded-xl w-40 h-40 object-contain" />
-                  ) : (
-                    <div className="py-6"><Upload className="mx-auto mb-2 text-orange-200" size={40} /><p className="font-bold text-orange-300 text-xs">点我拍照或选图</p></div>
-                  )}
-                  <input id="fileInput" type="file" className="sr-only" accept="image/*" onChange={handleFileChange} />
-                </div>
-              </div>
-              <button onClick={saveNewItem} disabled={!newItemName || !newItemImage || isAiAnalyzing}
-                className={`w-full font-black py-5 rounded-2xl shadow-lg transition-all ${(!newItemName || !newItemImage || isAiAnalyzing) ? 'bg-gray-100 text-gray-400 cursor-not-allowed' : 'bg-orange-500 text-white hover:bg-orange-600 active:scale-95'}`}>
-                存入仓库喵
-              </button>
-            </div>
-          </div>
-        </div>
+        <AddItemModal
+          aiSettings={aiSettings}
+          online={online}
+          onAdd={(added, deferred) => {
+            dispatch({ type: 'setItems', items: [...items, ...added] });
+            audio.play('itemAdded');
+            if (deferred.length > 0) pendingRecognition.enqueue(decks.activeDeckId, deferred);
+            setIsAddModalOpen(false);
+          }}
+          onOpenSettings={() => setIsSettingsOpen(true)}
+          onClose={() => setIsAddModalOpen(false)}
+        />
       )}
     </div>
   );
@@ -0,0 +1,53 @@
+import { useEffect, useRef, type RefObject } from 'react';
+
+// --- 弹窗焦点管理 ---
+// 打开时把焦点移进弹窗，Tab 只在弹窗内循环，Esc 关闭，关闭后焦点回到打开前的位置。
+
+const FOCUSABLE = 'a[href], button:not([disabled]), input:not([disabled]), select:not([disabled]), textarea:not([disabled]), [tabindex]:not([tabindex="-1"])';
+
+// active 为 false 时不做任何事，方便在始终渲染的组件里控制条件出现的弹窗
+export const useFocusTrap = (ref: RefObject<HTMLElement | null>, onClose?: () => void, active = true) => {
+  // 关闭回调每次渲染都可能变化，通过 ref 取最新的，避免反复重新聚焦
+  const onCloseRef = useRef(onClose);
+
+  useEffect(() => {
+    onCloseRef.current = onClose;
+  }, [onClose]);
+
+  useEffect(() => {
+    const container = ref.current;
+    if (!active || !container) return;
+    const previous = document.activeElement as HTMLElement | null;
+    const focusables = () => Array.from(container.querySelectorAll<HTMLElement>(FOCUSABLE));
+    (container.querySelector<HTMLElement>('[autofocus]') ?? focusables()[0] ?? container).focus();
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape' && onCloseRef.current) {
+        e.stopPropagation();
+        onCloseRef.current();
+        return;
+      }
+      if (e.key !== 'Tab') return;
+      const list = focusables();
+      if (list.length === 0) {
+        e.preventDefault();
+        return;
+      }
+      const first = list[0];
+      const last = list[list.length - 1];
+      if (e.shiftKey && document.activeElement === first) {
+        e.preventDefault();
+        last.focus();
+      } else if (!e.shiftKey && document.activeElement === last) {
+        e.preventDefault();
+        first.focus();
+      }
+    };
+
+    container.addEventListener('keydown', handleKeyDown);
+    return () => {
+      container.removeEventListener('keydown', handleKeyDown);
+      previous?.focus?.();
+    };
+  }, [ref, active]);
+};
@@ -0,0 +1,101 @@
+import { useEffect, useRef, useState, type RefObject } from 'react';
+
+// --- 触屏长按拖动排序 ---
+// 手机浏览器大多不触发 HTML5 拖放事件，这里用触摸事件实现：
+// 长按卡片后进入拖动，手指移到哪张卡片上就把它换到那里；长按前移动手指则照常滚动。
+// 卡片需要带上 data-reorder-index 属性。
+
+const LONG_PRESS_MS = 400;
+const MOVE_TOLERANCE = 10;
+
+interface TouchReorderOptions {
+  enabled: boolean;
+  onMove: (from: number, to: number) => void;
+}
+
+const indexAt = (x: number, y: number): number | null => {
+  const el = document.elementFromPoint(x, y)?.closest<HTMLElement>('[data-reorder-index]');
+  return el ? Number(el.dataset.reorderIndex) : null;
+};
+
+export const useTouchReorder = (containerRef: RefObject<HTMLElement | null>, { enabled, onMove }: TouchReorderOptions) => {
+  // 正在拖动的卡片下标，用于界面高亮
+  const [draggingIndex, setDraggingIndex] = useState<number | null>(null);
+  const optionsRef = useRef({ enabled, onMove });
+
+  useEffect(() => {
+    optionsRef.current = { enabled, onMove };
+  }, [enabled, onMove]);
+
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container) return;
+    let timer: ReturnType<typeof setTimeout> | null = null;
+    let start: { x: number; y: number; index: number } | null = null;
+    let dragging: number | null = null;
+
+    const cancelPress = () => {
+      if (timer) clearTimeout(timer);
+      timer = null;
+    };
+
+    const finish = () => {
+      cancelPress();
+      start = null;
+      dragging = null;
+      setDraggingIndex(null);
+    };
+
+    const handleStart = (e: TouchEvent) => {
+      if (!optionsRef.current.enabled || e.touches.length !== 1) return;
+      const touch = e.touches[0];
+      const index = indexAt(touch.clientX, touch.clientY);
+      if (index === null) return;
+      start = { x: touch.clientX, y: touch.clientY, index };
+      timer = setTimeout(() => {
+        timer = null;
+        dragging = index;
+        setDraggingIndex(index);
+        navigator.vibrate?.(20);
+      }, LONG_PRESS_MS);
+    };
+
+    const handleMove = (e: TouchEvent) => {
+      if (!start) return;
+      const touch = e.touches[0];
+      if (dragging === null) {
+        // 长按之前移动了手指，当作普通滚动
+        if (Math.hypot(touch.clientX - start.x, touch.clientY - start.y) > MOVE_TOLERANCE) finish();
+        return;
+      }
+      e.preventDefault();
+      const over = indexAt(touch.clientX, touch.clientY);
+      if (over !== null && over !== dragging) {
+        optionsRef.current.onMove(dragging, over);
+        dragging = over;
+        setDraggingIndex(over);
+      }
+    };
+
+    const handleEnd = (e: TouchEvent) => {
+      // 拖动结束后不要再触发点击（否则会顺带开始一轮游戏）
+      if (dragging !== null && e.cancelable) e.preventDefault();
+      finish();
+    };
+
+    container.addEventListener('touchstart', handleStart, { passive: true });
+    // 拖动时需要阻止页面滚动，所以不能是 passive
+    container.addEventListener('touchmove', handleMove, { passive: false });
+    container.addEventListener('touchend', handleEnd);
+    container.addEventListener('touchcancel', finish);
+    return () => {
+      cancelPress();
+      container.removeEventListener('touchstart', handleStart);
+      container.removeEventListener('touchmove', handleMove);
+      container.removeEventListener('touchend', handleEnd);
+      container.removeEventListener('touchcancel', finish);
+    };
+  }, [containerRef]);
+
+  return { draggingIndex };
+};
@@ -0,0 +1,57 @@
+// --- 识别结果缓存 ---
+// 按图片内容和识别配置的哈希缓存结果，同一张照片再添加一次不会重复调用接口。
+
+const AI_CACHE_STORAGE = 'cat_guess_ai_cache';
+const MAX_CACHE_ENTRIES = 200;
+
+const toHex = (buffer: ArrayBuffer) => Array.from(new Uint8Array(buffer), b => b.toString(16).padStart(2, '0')).join('');
+
+// 非安全上下文（例如局域网 http 地址）没有 crypto.subtle，这时不缓存
+export const hashRequest = async (...parts: string[]): Promise<string | null> => {
+  if (!globalThis.crypto?.subtle) return null;
+  return toHex(await crypto.subtle.digest('SHA-256', new TextEncoder().encode(parts.join('\n'))));
+};
+
+// 按最近使用的顺序保存，超出上限时丢掉最旧的
+const loadEntries = (): [string, string][] => {
+  try {
+    const saved = localStorage.getItem(AI_CACHE_STORAGE);
+    const parsed: unknown = saved ? JSON.parse(saved) : [];
+    return Array.isArray(parsed)
+      ? parsed.filter((e): e is [string, string] => Array.isArray(e) && typeof e[0] === 'string' && typeof e[1] === 'string')
+      : [];
+  } catch (e) {
+    console.error('Failed to load AI cache from storage:', e);
+    return [];
+  }
+};
+
+const saveEntries = (entries: [string, string][]) => {
+  try {
+    localStorage.setItem(AI_CACHE_STORAGE, JSON.stringify(entries.slice(-MAX_CACHE_ENTRIES)));
+  } catch (e) {
+    console.error('Failed to save AI cache to storage:', e);
+  }
+};
+
+export const getCachedResult = (key: string): string | null => {
+  const entries = loadEntries();
+  const index = entries.findIndex(([k]) => k === key);
+  if (index < 0) return null;
+  const [entry] = entries.splice(index, 1);
+  saveEntries([...entries, entry]);
+  return entry[1];
+};
+
+export const setCachedResult = (key: string, value: string) => {
+  saveEntries([...loadEntries().filter(([k]) => k !== key), [key, value]]);
+};
+
+// 先查缓存，没有时才真正请求
+export const withCache = async (key: string | null, request: () => Promise<string>): Promise<string> => {
+  const cached = key ? getCachedResult(key) : null;
+  if (cached !== null) return cached;
+  const result = await request();
+  if (key) setCachedResult(key, result);
+  return result;
+};
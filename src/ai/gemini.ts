@@ -0,0 +1,43 @@
+import { postJson } from './request';
+import type { RecognitionProvider } from './types';
+
+interface GeminiResponse {
+  candidates?: { content?: { parts?: { text?: string }[] } }[];
+}
+
+// --- Gemini 识别 ---
+export const geminiProvider: RecognitionProvider = {
+  id: 'gemini',
+  requiresKey: true,
+  manual: false,
+  defaults: {
+    apiKey: '',
+    model: 'gemini-2.5-flash',
+    baseUrl: 'https://generativelanguage.googleapis.com/v1beta',
+    prompt: '',
+  },
+  recognize: async (imageDataUrl, config, options) => {
+    if (!config.apiKey) throw new Error('MISSING_KEY');
+
+    const [header, base64Data] = imageDataUrl.split(',');
+    const mimeType = header.match(/data:(.*?);/)?.[1] ?? 'image/jpeg';
+    // Key 放在请求头里，避免出现在 URL 和日志中
+    const data = await postJson(
+      `${config.baseUrl.replace(/\/+$/, '')}/models/${config.model}:generateContent`,
+      { 'x-goog-api-key': config.apiKey },
+      {
+        contents: [{
+          parts: [
+            { text: config.prompt },
+            { inlineData: { mimeType, data: base64Data } }
+          ]
+        }]
+      },
+      options,
+    ) as GeminiResponse;
+
+    const text = data?.candidates?.[0]?.content?.parts?.[0]?.text?.trim();
+    if (!text) throw new Error('EMPTY_RESPONSE');
+    return text;
+  },
+};
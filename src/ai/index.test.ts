@@ -0,0 +1,134 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { aiErrorCode, recognizeImage, type AiSettings } from '.';
+import { geminiProvider } from './gemini';
+import { manualProvider } from './manual';
+import { mockProvider } from './mock';
+import { openAiProvider } from './openai';
+
+const settings: AiSettings = {
+  providerId: 'openai',
+  configs: {
+    gemini: geminiProvider.defaults,
+    openai: { ...openAiProvider.defaults, baseUrl: 'http://fake.test/v1' },
+    manual: manualProvider.defaults,
+    mock: mockProvider.defaults,
+  },
+  aiHints: false,
+  aiDialogue: false,
+  timeoutMs: 1000,
+};
+
+// 识别结果缓存在 localStorage 里，每个测试换一个空的
+const memoryStorage = (): Storage => {
+  const data = new Map<string, string>();
+  return {
+    get length() { return data.size; },
+    clear: () => data.clear(),
+    getItem: key => data.get(key) ?? null,
+    key: index => [...data.keys()][index] ?? null,
+    removeItem: key => { data.delete(key); },
+    setItem: (key, value) => { data.set(key, String(value)); },
+  };
+};
+
+beforeEach(() => {
+  vi.stubGlobal('localStorage', memoryStorage());
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+  vi.unstubAllGlobals();
+});
+
+// 假接口：按顺序返回给定的响应，并记下收到的请求地址。
+// 计算缓存的哈希不走定时器，用假定时器时要先等 firstRequest 再拨时间
+const fakeEndpoint = (responses: ((init: RequestInit) => Response | Promise<Response>)[]) => {
+  const urls: string[] = [];
+  let onFirstRequest = () => {};
+  const firstRequest = new Promise<void>(resolve => { onFirstRequest = resolve; });
+  const fetchImpl = (async (url: string, init: RequestInit) => {
+    urls.push(url);
+    onFirstRequest();
+    const next = responses.shift();
+    if (!next) throw new TypeError('no more responses');
+    return next(init);
+  }) as typeof fetch;
+  return { urls, fetchImpl, firstRequest };
+};
+
+const completion = (content: string) => () => Response.json({ choices: [{ message: { content } }] });
+
+// 一直不返回，直到请求被取消
+const hang = (init: RequestInit) => new Promise<Response>((_, reject) => {
+  init.signal?.addEventListener('abort', () => reject(new DOMException('The operation was aborted.', 'AbortError')));
+});
+
+describe('recognizeImage', () => {
+  it('sends the request through the injected fetch and sanitizes the answer', async () => {
+    const { urls, fetchImpl } = fakeEndpoint([completion('名称：“苹果”。')]);
+    await expect(recognizeImage('data:image/png;base64,AA', settings, '识别', { fetchImpl })).resolves.toBe('苹果');
+    expect(urls).toEqual(['http://fake.test/v1/chat/completions']);
+  });
+
+  it('answers the same image from the cache', async () => {
+    const { urls, fetchImpl } = fakeEndpoint([completion('香蕉'), completion('苹果')]);
+    await expect(recognizeImage('data:image/png;base64,BB', settings, '识别', { fetchImpl })).resolves.toBe('香蕉');
+    await expect(recognizeImage('data:image/png;base64,BB', settings, '识别', { fetchImpl })).resolves.toBe('香蕉');
+    expect(urls).toHaveLength(1);
+
+    // 换了提示词就不算同一个请求
+    await expect(recognizeImage('data:image/png;base64,BB', settings, '识别物品', { fetchImpl })).resolves.toBe('苹果');
+    expect(urls).toHaveLength(2);
+  });
+
+  it('waits for Retry-After before retrying a rate-limited request', async () => {
+    vi.useFakeTimers();
+    const { urls, fetchImpl, firstRequest } = fakeEndpoint([
+      () => new Response('', { status: 429, headers: { 'Retry-After': '2' } }),
+      completion('皮球'),
+    ]);
+    const result = recognizeImage('data:image/png;base64,CC', settings, '识别', { fetchImpl });
+    await firstRequest;
+    await vi.advanceTimersByTimeAsync(1999);
+    expect(urls).toHaveLength(1);
+    await vi.advanceTimersByTimeAsync(1);
+    await expect(result).resolves.toBe('皮球');
+    expect(urls).toHaveLength(2);
+  });
+
+  it('retries server errors with backoff', async () => {
+    vi.useFakeTimers();
+    const { urls, fetchImpl, firstRequest } = fakeEndpoint([
+      () => new Response('', { status: 503 }),
+      () => new Response('', { status: 500 }),
+      completion('杯子'),
+    ]);
+    const result = recognizeImage('data:image/png;base64,DD', settings, '识别', { fetchImpl });
+    await firstRequest;
+    await vi.runAllTimersAsync();
+    await expect(result).resolves.toBe('杯子');
+    expect(urls).toHaveLength(3);
+  });
+
+  it('aborts requests that take longer than the timeout', async () => {
+    vi.useFakeTimers();
+    const { urls, fetchImpl, firstRequest } = fakeEndpoint([hang, hang, hang]);
+    const result = recognizeImage('data:image/png;base64,EE', settings, '识别', { fetchImpl });
+    await firstRequest;
+    const settled = expect(result).rejects.toSatisfy(e => aiErrorCode(e) === 'TIMEOUT');
+    await vi.runAllTimersAsync();
+    await settled;
+    // 第一次请求加上默认的两次重试
+    expect(urls).toHaveLength(3);
+  });
+
+  it('reports invalid keys and overly long names as error codes', async () => {
+    const unauthorized = fakeEndpoint([() => new Response('', { status: 401 })]);
+    await expect(recognizeImage('data:,', settings, '识别', { fetchImpl: unauthorized.fetchImpl }))
+      .rejects.toSatisfy(e => aiErrorCode(e) === 'INVALID_KEY');
+
+    const rambling = fakeEndpoint([completion('这是一个红色的大苹果放在桌子上')]);
+    await expect(recognizeImage('data:,', settings, '识别', { fetchImpl: rambling.fetchImpl }))
+      .rejects.toSatisfy(e => aiErrorCode(e) === 'INVALID_RESULT');
+  });
+});
@@ -0,0 +1,111 @@
+import { hashRequest, withCache } from './cache';
+import { geminiProvider } from './gemini';
+import { manualProvider } from './manual';
+import { mockProvider } from './mock';
+import { openAiProvider } from './openai';
+import { sanitizeDescription, sanitizeName } from './sanitize';
+import type { AiSettings, ProviderConfig, ProviderId, RecognitionProvider } from './types';
+
+export type { AiSettings, ProviderConfig, ProviderId, RecognitionProvider } from './types';
+export type { AiErrorCode, RequestOptions } from './request';
+export { createMockProvider } from './mock';
+export { aiErrorCode, isAiConfigError } from './request';
+
+const AI_SETTINGS_STORAGE = 'cat_guess_ai_settings';
+// 旧版本只保存了 Gemini Key，读取一次作为默认值
+const LEGACY_KEY_STORAGE = 'cat_guess_gemini_key';
+// 旧版本保存下来的默认提示词，读取时当作未自定义处理
+const LEGACY_DEFAULT_PROMPT = '请识别这张图片中的物品名称，只返回名称，不要超过4个字。';
+
+export const DEFAULT_TIMEOUT_MS = 30000;
+export const TIMEOUT_OPTIONS_MS = [15000, 30000, 60000, 120000];
+
+const PROVIDERS: Record<ProviderId, RecognitionProvider> = {
+  gemini: geminiProvider,
+  openai: openAiProvider,
+  manual: manualProvider,
+  mock: mockProvider,
+};
+
+// 模拟识别只在开发环境中出现在设置里
+export const listProviders = (): RecognitionProvider[] =>
+  Object.values(PROVIDERS).filter(p => p.id !== 'mock' || import.meta.env.DEV);
+
+export const getProvider = (id: ProviderId): RecognitionProvider => PROVIDERS[id] ?? manualProvider;
+
+const defaultSettings = (): AiSettings => ({
+  providerId: 'gemini',
+  configs: {
+    gemini: { ...geminiProvider.defaults, apiKey: localStorage.getItem(LEGACY_KEY_STORAGE) || '' },
+    openai: { ...openAiProvider.defaults },
+    manual: { ...manualProvider.defaults },
+    mock: { ...mockProvider.defaults },
+  },
+  aiHints: false,
+  aiDialogue: false,
+  timeoutMs: DEFAULT_TIMEOUT_MS,
+});
+
+export const loadAiSettings = (): AiSettings => {
+  const fallback = defaultSettings();
+  try {
+    const saved = localStorage.getItem(AI_SETTINGS_STORAGE);
+    if (!saved) return fallback;
+    const parsed = JSON.parse(saved) as Partial<AiSettings>;
+    const configs = { ...fallback.configs };
+    for (const id of Object.keys(configs) as ProviderId[]) {
+      configs[id] = { ...configs[id], ...parsed.configs?.[id] };
+      if (configs[id].prompt === LEGACY_DEFAULT_PROMPT) configs[id].prompt = '';
+    }
+    const providerId = parsed.providerId && parsed.providerId in PROVIDERS ? parsed.providerId : fallback.providerId;
+    const timeoutMs = typeof parsed.timeoutMs === 'number' && parsed.timeoutMs > 0 ? parsed.timeoutMs : fallback.timeoutMs;
+    return { providerId, configs, aiHints: parsed.aiHints ?? fallback.aiHints, aiDialogue: parsed.aiDialogue ?? fallback.aiDialogue, timeoutMs };
+  } catch (e) {
+    console.error('Failed to load AI settings from storage:', e);
+    return fallback;
+  }
+};
+
+export const saveAiSettings = (settings: AiSettings) => {
+  localStorage.setItem(AI_SETTINGS_STORAGE, JSON.stringify(settings));
+};
+
+// 调用方可以传入的选项；fetchImpl 用来在测试里对接本地的假接口
+export interface AiCallOptions {
+  signal?: AbortSignal;
+  fetchImpl?: typeof fetch;
+}
+
+interface RequestSettings extends AiCallOptions {
+  // 关掉缓存：同样的输入也希望每次得到不同的回答
+  cache?: boolean;
+  timeoutMs?: number;
+  retries?: number;
+}
+
+// 调用服务并清理结果；默认同一张图片、同样的服务和提示词只请求一次
+const request = async (
+  imageDataUrl: string, settings: AiSettings, prompt: string, sanitize: (text: string) => string,
+  { signal, fetchImpl, cache = true, timeoutMs = settings.timeoutMs, retries }: RequestSettings = {},
+): Promise<string> => {
+  const provider = getProvider(settings.providerId);
+  const config: ProviderConfig = { ...(settings.configs[provider.id] ?? provider.defaults), prompt };
+  const options = { timeoutMs, signal, retries, fetchImpl };
+  if (provider.manual) return provider.recognize(imageDataUrl, config, options);
+  const key = cache ? await hashRequest(provider.id, config.baseUrl, config.model, prompt, imageDataUrl) : null;
+  return withCache(key, async () => sanitize(await provider.recognize(imageDataUrl, config, options)));
+};
+
+// 使用当前选中的服务识别图片；defaultPrompt 是当前语言的默认提示词。失败时抛出 AiErrorCode
+export const recognizeImage = (imageDataUrl: string, settings: AiSettings, defaultPrompt: string, options: AiCallOptions = {}): Promise<string> => {
+  const config = settings.configs[settings.providerId];
+  return request(imageDataUrl, settings, config?.prompt.trim() || defaultPrompt, sanitizeName, options);
+};
+
+// 用固定的提示词描述图片（不使用用户自定义的识别提示词），手动模式下返回空字符串
+export const describeImage = (imageDataUrl: string, settings: AiSettings, prompt: string, options: AiCallOptions = {}): Promise<string> =>
+  request(imageDataUrl, settings, prompt, sanitizeDescription, options);
+
+// 让 AI 扮演猫咪看着物品说一句话；不缓存、不重试，超过 timeoutMs 就放弃，由调用方换成模板台词
+export const generateCatLine = (imageDataUrl: string, settings: AiSettings, prompt: string, timeoutMs: number, options: AiCallOptions = {}): Promise<string> =>
+  request(imageDataUrl, settings, prompt, sanitizeDescription, { ...options, cache: false, timeoutMs: Math.min(timeoutMs, settings.timeoutMs), retries: 0 });
@@ -0,0 +1,10 @@
+import type { RecognitionProvider } from './types';
+
+// --- 手动命名：没有 AI 时使用 ---
+export const manualProvider: RecognitionProvider = {
+  id: 'manual',
+  requiresKey: false,
+  manual: true,
+  defaults: { apiKey: '', model: '', baseUrl: '', prompt: '' },
+  recognize: async () => '',
+};
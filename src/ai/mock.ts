@@ -0,0 +1,27 @@
+import type { RecognitionProvider } from './types';
+
+// --- 模拟识别：不发网络请求，按顺序返回预设名称，便于离线调试添加流程 ---
+export const createMockProvider = (names: string[] = ['小猫', '毛线球', '鱼干'], delayMs = 300): RecognitionProvider => {
+  let cursor = 0;
+  return {
+    id: 'mock',
+    requiresKey: false,
+    manual: false,
+    defaults: { apiKey: '', model: '', baseUrl: '', prompt: '' },
+    recognize: (imageDataUrl, _config, { signal }) => new Promise((resolve, reject) => {
+      const id = setTimeout(() => {
+        if (!imageDataUrl.startsWith('data:image/')) {
+          reject(new Error('BAD_REQUEST'));
+          return;
+        }
+        resolve(names[cursor++ % names.length]);
+      }, delayMs);
+      signal?.addEventListener('abort', () => {
+        clearTimeout(id);
+        reject(new Error('ABORTED'));
+      }, { once: true });
+    }),
+  };
+};
+
+export const mockProvider = createMockProvider();
@@ -0,0 +1,45 @@
+import { postJson } from './request';
+import type { RecognitionProvider } from './types';
+
+interface ChatCompletionResponse {
+  choices?: { message?: { content?: string } }[];
+}
+
+// --- OpenAI 兼容接口（Ollama / LM Studio / 各类云服务） ---
+export const openAiProvider: RecognitionProvider = {
+  id: 'openai',
+  requiresKey: false,
+  manual: false,
+  defaults: {
+    apiKey: '',
+    model: 'llava',
+    baseUrl: 'http://localhost:11434/v1',
+    prompt: '',
+  },
+  recognize: async (imageDataUrl, config, options) => {
+    if (!config.baseUrl) throw new Error('MISSING_BASE_URL');
+
+    const headers: Record<string, string> = {};
+    if (config.apiKey) headers.Authorization = `Bearer ${config.apiKey}`;
+
+    const data = await postJson(
+      `${config.baseUrl.replace(/\/+$/, '')}/chat/completions`,
+      headers,
+      {
+        model: config.model,
+        messages: [{
+          role: 'user',
+          content: [
+            { type: 'text', text: config.prompt },
+            { type: 'image_url', image_url: { url: imageDataUrl } }
+          ]
+        }]
+      },
+      options,
+    ) as ChatCompletionResponse;
+
+    const text = data?.choices?.[0]?.message?.content?.trim();
+    if (!text) throw new Error('EMPTY_RESPONSE');
+    return text;
+  },
+};
@@ -0,0 +1,127 @@
+// --- 识别请求：超时、取消、重试 ---
+
+// 错误都以 Error(message) 的形式抛出，message 是下面的错误码
+export type AiErrorCode =
+  | 'MISSING_KEY'
+  | 'MISSING_BASE_URL'
+  | 'INVALID_KEY'
+  | 'RATE_LIMITED'
+  | 'SERVER_ERROR'
+  | 'BAD_REQUEST'
+  | 'TIMEOUT'
+  | 'NETWORK_ERROR'
+  | 'EMPTY_RESPONSE'
+  | 'INVALID_RESULT'
+  | 'ABORTED';
+
+const AI_ERROR_CODES: AiErrorCode[] = [
+  'MISSING_KEY', 'MISSING_BASE_URL', 'INVALID_KEY', 'RATE_LIMITED', 'SERVER_ERROR', 'BAD_REQUEST',
+  'TIMEOUT', 'NETWORK_ERROR', 'EMPTY_RESPONSE', 'INVALID_RESULT', 'ABORTED',
+];
+
+// 未知的异常一律当作网络错误
+export const aiErrorCode = (e: unknown): AiErrorCode =>
+  e instanceof Error && (AI_ERROR_CODES as string[]).includes(e.message) ? e.message as AiErrorCode : 'NETWORK_ERROR';
+
+// 需要用户去设置里修改配置的错误
+export const isAiConfigError = (e: unknown): boolean =>
+  ['MISSING_KEY', 'MISSING_BASE_URL', 'INVALID_KEY', 'BAD_REQUEST'].includes(aiErrorCode(e));
+
+export interface RequestOptions {
+  timeoutMs: number;
+  signal?: AbortSignal;
+  // 最多重试几次（不含第一次请求）
+  retries?: number;
+  // 测试时可以换成假的 fetch
+  fetchImpl?: typeof fetch;
+}
+
+export const DEFAULT_RETRIES = 2;
+const BACKOFF_BASE_MS = 500;
+const MAX_BACKOFF_MS = 8000;
+
+const isRetryable = (code: AiErrorCode) =>
+  code === 'RATE_LIMITED' || code === 'SERVER_ERROR' || code === 'TIMEOUT' || code === 'NETWORK_ERROR';
+
+// 按状态码和返回内容区分错误；Gemini 的 Key 无效时返回的是 400
+const errorFromResponse = async (response: Response): Promise<AiErrorCode> => {
+  if (response.status === 429) return 'RATE_LIMITED';
+  if (response.status >= 500) return 'SERVER_ERROR';
+  if (response.status === 401 || response.status === 403) return 'INVALID_KEY';
+  const body = await response.text().catch(() => '');
+  return /API_KEY_INVALID|invalid.api.key|incorrect api key/i.test(body) ? 'INVALID_KEY' : 'BAD_REQUEST';
+};
+
+// Retry-After 可能是秒数，也可能是日期
+const retryAfterMs = (response: Response | null): number | null => {
+  const header = response?.headers.get('Retry-After');
+  if (!header) return null;
+  const seconds = Number(header);
+  if (Number.isFinite(seconds)) return seconds * 1000;
+  const date = Date.parse(header);
+  return Number.isNaN(date) ? null : Math.max(0, date - Date.now());
+};
+
+const sleep = (ms: number, signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+  if (signal?.aborted) {
+    reject(new Error('ABORTED'));
+    return;
+  }
+  const id = setTimeout(() => {
+    signal?.removeEventListener('abort', onAbort);
+    resolve();
+  }, ms);
+  const onAbort = () => {
+    clearTimeout(id);
+    reject(new Error('ABORTED'));
+  };
+  signal?.addEventListener('abort', onAbort, { once: true });
+});
+
+// 发送 JSON 请求并返回解析后的结果；429、5xx、超时和网络错误按指数退避重试
+export const postJson = async (url: string, headers: Record<string, string>, body: unknown, options: RequestOptions): Promise<unknown> => {
+  const { timeoutMs, signal, retries = DEFAULT_RETRIES, fetchImpl = fetch } = options;
+  for (let attempt = 0; ; attempt++) {
+    if (signal?.aborted) throw new Error('ABORTED');
+    const controller = new AbortController();
+    let timedOut = false;
+    const timer = setTimeout(() => {
+      timedOut = true;
+      controller.abort();
+    }, timeoutMs);
+    const forwardAbort = () => controller.abort();
+    signal?.addEventListener('abort', forwardAbort, { once: true });
+
+    let code: AiErrorCode;
+    let response: Response | null = null;
+    try {
+      response = await fetchImpl(url, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', ...headers },
+        body: JSON.stringify(body),
+        signal: controller.signal,
+      });
+      if (response.ok) {
+        try {
+          return await response.json();
+        } catch {
+          throw new Error('EMPTY_RESPONSE');
+        }
+      }
+      code = await errorFromResponse(response);
+    } catch (e) {
+      if (signal?.aborted) throw new Error('ABORTED');
+      // 读取返回内容时超时也算超时
+      if (timedOut) code = 'TIMEOUT';
+      else if (e instanceof Error && e.message === 'EMPTY_RESPONSE') throw e;
+      else code = 'NETWORK_ERROR';
+    } finally {
+      clearTimeout(timer);
+      signal?.removeEventListener('abort', forwardAbort);
+    }
+
+    if (!isRetryable(code) || attempt >= retries) throw new Error(code);
+    const backoff = Math.min(MAX_BACKOFF_MS, BACKOFF_BASE_MS * 2 ** attempt) * (0.75 + Math.random() * 0.5);
+    await sleep(Math.min(MAX_BACKOFF_MS, retryAfterMs(response) ?? backoff), signal);
+  }
+};
@@ -0,0 +1,33 @@
+import { MAX_NAME_LENGTH } from '../decks/deckFile';
+
+// --- 清理模型返回的文字 ---
+// 模型经常不听话：加引号、加前缀、用 Markdown、一次说好几行。
+
+const QUOTES = /[*_`"'“”‘’「」『』《》【】]/g;
+const TRAILING_PUNCTUATION = /[。.!！?？,，;；:：、]+$/;
+const MAX_DESCRIPTION_LENGTH = 80;
+// 识别出的中文名的长度上限。提示词要求不超过 4 个字，这里留一倍余量；
+// 英文要求不超过 3 个词，按字母数算，用物品名本身的上限 MAX_NAME_LENGTH
+const MAX_CJK_NAME_LENGTH = 8;
+const CJK = /[\u3040-\u30ff\u3400-\u9fff\uac00-\ud7af]/;
+
+// 物品名：取第一行，去掉列表符号、"名称："之类的前缀和标点；太长说明模型没按要求回答，抛出 INVALID_RESULT
+export const sanitizeName = (text: string): string => {
+  const line = text.split(/\r?\n/).map(l => l.trim()).find(Boolean) ?? '';
+  const name = line
+    .replace(/^(?:[-*#>]+|\d+[.)、])\s*/, '')
+    .replace(/^(?:名称|名字|物品|答案|name|item|answer)\s*[:：]\s*/i, '')
+    .replace(QUOTES, '')
+    .replace(TRAILING_PUNCTUATION, '')
+    .trim();
+  const maxLength = CJK.test(name) ? MAX_CJK_NAME_LENGTH : MAX_NAME_LENGTH;
+  if (!name || name.length > maxLength) throw new Error('INVALID_RESULT');
+  return name;
+};
+
+// 提示用的描述：合并成一行，太长就截断
+export const sanitizeDescription = (text: string): string => {
+  const description = text.replace(QUOTES, '').replace(/\s+/g, ' ').trim();
+  if (!description) throw new Error('INVALID_RESULT');
+  return description.length > MAX_DESCRIPTION_LENGTH ? `${description.slice(0, MAX_DESCRIPTION_LENGTH - 1)}…` : description;
+};
@@ -0,0 +1,34 @@
+import type { RequestOptions } from './request';
+
+// --- 识别服务类型定义 ---
+export type ProviderId = 'gemini' | 'openai' | 'manual' | 'mock';
+
+export interface ProviderConfig {
+  apiKey: string;
+  model: string;
+  baseUrl: string;
+  // 留空时使用当前语言的默认提示词
+  prompt: string;
+}
+
+export interface RecognitionProvider {
+  id: ProviderId;
+  // 是否需要 API Key（OpenAI 兼容的本地服务通常不需要）
+  requiresKey: boolean;
+  // 手动模式：不调用任何 AI，由用户自己填写名称
+  manual: boolean;
+  defaults: ProviderConfig;
+  // 返回模型的原始回答；失败时抛出 AiErrorCode
+  recognize: (imageDataUrl: string, config: ProviderConfig, options: RequestOptions) => Promise<string>;
+}
+
+export interface AiSettings {
+  providerId: ProviderId;
+  configs: Record<ProviderId, ProviderConfig>;
+  // 反向模式里是否让 AI 描述藏起来的物品作为提示
+  aiHints: boolean;
+  // 是否让 AI 扮演猫咪说台词，失败时用模板台词
+  aiDialogue: boolean;
+  // 单次请求的超时时间（毫秒）
+  timeoutMs: number;
+}
@@ -0,0 +1,97 @@
+import { DEFAULT_AUDIO_SETTINGS, type AudioSettings } from './audioSettings';
+import { playEffect, type SoundEffect } from './effects';
+
+// --- 声音管理 ---
+// 语音一句一句排队说，不会互相打断；音效随时叠加播放。浏览器不支持时安静地跳过。
+
+export interface SpeakOptions {
+  // 清空排队中的话并打断正在说的，例如玩家点了新的物品
+  interrupt?: boolean;
+}
+
+export interface AudioManager {
+  speechSupported: boolean;
+  configure: (settings: AudioSettings) => void;
+  speak: (text: string, lang: string, options?: SpeakOptions) => void;
+  play: (effect: SoundEffect) => void;
+  stop: () => void;
+  // 和语言匹配的声音（只比较主语言，zh 能匹配 zh-CN 和 zh-TW）
+  listVoices: (lang: string) => SpeechSynthesisVoice[];
+  // 有的浏览器异步加载声音列表，加载完成后通知
+  subscribeVoices: (listener: () => void) => () => void;
+}
+
+const primaryLanguage = (lang: string) => lang.split(/[-_]/)[0].toLowerCase();
+
+type AudioContextConstructor = typeof AudioContext;
+
+export const createAudioManager = (): AudioManager => {
+  const synth = typeof window !== 'undefined' && 'speechSynthesis' in window ? window.speechSynthesis : null;
+  let settings = DEFAULT_AUDIO_SETTINGS;
+  let context: AudioContext | null = null;
+  const queue: { text: string; lang: string }[] = [];
+  // 正在说的话要一直引用着，否则有的浏览器会提前回收它，onend 就不会触发
+  let current: SpeechSynthesisUtterance | null = null;
+
+  const listVoices = (lang: string) =>
+    synth ? synth.getVoices().filter(voice => primaryLanguage(voice.lang) === primaryLanguage(lang)) : [];
+
+  const speakNext = () => {
+    current = null;
+    const entry = queue.shift();
+    if (!entry || !synth) return;
+    const utterance = new SpeechSynthesisUtterance(entry.text);
+    utterance.lang = entry.lang;
+    utterance.rate = settings.rate;
+    utterance.pitch = settings.pitch;
+    const voice = listVoices(entry.lang).find(v => v.voiceURI === settings.voices[entry.lang]);
+    if (voice) utterance.voice = voice;
+    utterance.onend = utterance.onerror = () => {
+      if (current === utterance) speakNext();
+    };
+    current = utterance;
+    synth.speak(utterance);
+  };
+
+  const stop = () => {
+    queue.length = 0;
+    current = null;
+    synth?.cancel();
+  };
+
+  const configure = (next: AudioSettings) => {
+    settings = next;
+    if (next.muted || !next.speech) stop();
+  };
+
+  const speak = (text: string, lang: string, { interrupt = false }: SpeakOptions = {}) => {
+    if (!synth || settings.muted || !settings.speech || !text.trim()) return;
+    if (interrupt) stop();
+    // 同一句话正在说或者已经在排队，就不再重复
+    if (current?.text === text || queue.some(entry => entry.text === text)) return;
+    queue.push({ text, lang });
+    if (!current) speakNext();
+  };
+
+  const play = (effect: SoundEffect) => {
+    if (settings.muted || !settings.effects) return;
+    const AudioContextClass = window.AudioContext
+      ?? (window as Window & { webkitAudioContext?: AudioContextConstructor }).webkitAudioContext;
+    if (!AudioContextClass) return;
+    try {
+      context ??= new AudioContextClass();
+      // 还没有用户操作时浏览器会先暂停播放，之后再恢复
+      if (context.state === 'suspended') void context.resume();
+      playEffect(context, effect);
+    } catch (e) {
+      console.error('Failed to play sound effect:', e);
+    }
+  };
+
+  const subscribeVoices = (listener: () => void) => {
+    synth?.addEventListener('voiceschanged', listener);
+    return () => synth?.removeEventListener('voiceschanged', listener);
+  };
+
+  return { speechSupported: !!synth, configure, speak, play, stop, listVoices, subscribeVoices };
+};
@@ -0,0 +1,58 @@
+// --- 声音设置 ---
+
+export interface AudioSettings {
+  // 总开关，关掉后语音和音效都不出声
+  muted: boolean;
+  speech: boolean;
+  effects: boolean;
+  // 按语音语言（如 zh-CN）保存选中的声音；没有选时由浏览器决定
+  voices: Record<string, string>;
+  rate: number;
+  pitch: number;
+}
+
+export const DEFAULT_AUDIO_SETTINGS: AudioSettings = {
+  muted: false,
+  speech: true,
+  effects: true,
+  voices: {},
+  rate: 1,
+  pitch: 1,
+};
+
+export const AUDIO_LIMITS = {
+  rate: [0.5, 2],
+  pitch: [0, 2],
+} as const;
+
+const clamp = (value: unknown, [min, max]: readonly [number, number], fallback: number): number =>
+  typeof value === 'number' && Number.isFinite(value) ? Math.min(max, Math.max(min, value)) : fallback;
+
+const isVoices = (value: unknown): value is Record<string, string> =>
+  !!value && typeof value === 'object' && !Array.isArray(value) && Object.values(value).every(v => typeof v === 'string');
+
+export const normalizeAudioSettings = (raw: Partial<AudioSettings>): AudioSettings => ({
+  muted: typeof raw.muted === 'boolean' ? raw.muted : DEFAULT_AUDIO_SETTINGS.muted,
+  speech: typeof raw.speech === 'boolean' ? raw.speech : DEFAULT_AUDIO_SETTINGS.speech,
+  effects: typeof raw.effects === 'boolean' ? raw.effects : DEFAULT_AUDIO_SETTINGS.effects,
+  voices: isVoices(raw.voices) ? raw.voices : DEFAULT_AUDIO_SETTINGS.voices,
+  rate: clamp(raw.rate, AUDIO_LIMITS.rate, DEFAULT_AUDIO_SETTINGS.rate),
+  pitch: clamp(raw.pitch, AUDIO_LIMITS.pitch, DEFAULT_AUDIO_SETTINGS.pitch),
+});
+
+const AUDIO_SETTINGS_STORAGE = 'cat_guess_audio_settings';
+
+export const loadAudioSettings = (): AudioSettings => {
+  try {
+    const saved = localStorage.getItem(AUDIO_SETTINGS_STORAGE);
+    if (!saved) return DEFAULT_AUDIO_SETTINGS;
+    return normalizeAudioSettings(JSON.parse(saved) as Partial<AudioSettings>);
+  } catch (e) {
+    console.error('Failed to load audio settings from storage:', e);
+    return DEFAULT_AUDIO_SETTINGS;
+  }
+};
+
+export const saveAudioSettings = (settings: AudioSettings) => {
+  localStorage.setItem(AUDIO_SETTINGS_STORAGE, JSON.stringify(settings));
+};
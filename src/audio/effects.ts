@@ -0,0 +1,56 @@
+// --- 合成音效 ---
+// 全部用 Web Audio 现场合成，不需要下载任何音频文件。
+
+export type SoundEffect = 'tick' | 'success' | 'fail' | 'itemAdded';
+
+interface Note {
+  // 频率（Hz），结束频率不写时保持不变
+  from: number;
+  to?: number;
+  // 相对开始的时间和长度（秒）
+  at: number;
+  duration: number;
+  type: OscillatorType;
+  volume: number;
+}
+
+const SOUNDS: Record<SoundEffect, Note[]> = {
+  // 很短的“嗒”，猜的时候每跳一下响一次
+  tick: [{ from: 1400, to: 900, at: 0, duration: 0.04, type: 'square', volume: 0.05 }],
+  // 上行的三个音
+  success: [
+    { from: 523, at: 0, duration: 0.12, type: 'triangle', volume: 0.2 },
+    { from: 659, at: 0.1, duration: 0.12, type: 'triangle', volume: 0.2 },
+    { from: 784, at: 0.2, duration: 0.3, type: 'triangle', volume: 0.22 },
+  ],
+  // 往下滑的“呜”
+  fail: [
+    { from: 392, to: 330, at: 0, duration: 0.18, type: 'sawtooth', volume: 0.08 },
+    { from: 330, to: 220, at: 0.18, duration: 0.35, type: 'sawtooth', volume: 0.08 },
+  ],
+  // 轻快的“啵”
+  itemAdded: [
+    { from: 600, to: 1200, at: 0, duration: 0.08, type: 'sine', volume: 0.2 },
+    { from: 1200, at: 0.08, duration: 0.1, type: 'sine', volume: 0.12 },
+  ],
+};
+
+export const playEffect = (context: AudioContext, effect: SoundEffect) => {
+  const start = context.currentTime;
+  for (const note of SOUNDS[effect]) {
+    const oscillator = context.createOscillator();
+    const gain = context.createGain();
+    const begin = start + note.at;
+    const end = begin + note.duration;
+    oscillator.type = note.type;
+    oscillator.frequency.setValueAtTime(note.from, begin);
+    if (note.to) oscillator.frequency.exponentialRampToValueAtTime(note.to, end);
+    // 快速起音、指数衰减，避免爆音
+    gain.gain.setValueAtTime(0.0001, begin);
+    gain.gain.exponentialRampToValueAtTime(note.volume, begin + 0.01);
+    gain.gain.exponentialRampToValueAtTime(0.0001, end);
+    oscillator.connect(gain).connect(context.destination);
+    oscillator.start(begin);
+    oscillator.stop(end + 0.02);
+  }
+};
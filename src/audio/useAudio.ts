@@ -0,0 +1,32 @@
+import { useEffect, useState } from 'react';
+import { createAudioManager, type SpeakOptions } from './audioManager';
+import { loadAudioSettings, saveAudioSettings, type AudioSettings } from './audioSettings';
+import type { SoundEffect } from './effects';
+
+// --- 声音设置和播放 ---
+
+const audioManager = createAudioManager();
+
+export const useAudio = () => {
+  const [settings, setSettings] = useState<AudioSettings>(loadAudioSettings);
+
+  useEffect(() => {
+    audioManager.configure(settings);
+    saveAudioSettings(settings);
+  }, [settings]);
+
+  const speak = (text: string, lang: string, options?: SpeakOptions) => audioManager.speak(text, lang, options);
+  const play = (effect: SoundEffect) => audioManager.play(effect);
+  const toggleMute = () => setSettings(prev => ({ ...prev, muted: !prev.muted }));
+
+  return { settings, setSettings, speechSupported: audioManager.speechSupported, speak, play, toggleMute };
+};
+
+// 当前语言可选的声音；声音列表加载完成后自动刷新
+export const useVoices = (lang: string): SpeechSynthesisVoice[] => {
+  const [, setVersion] = useState(0);
+
+  useEffect(() => audioManager.subscribeVoices(() => setVersion(v => v + 1)), []);
+
+  return audioManager.listVoices(lang);
+};
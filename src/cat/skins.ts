@@ -0,0 +1,172 @@
+// --- 猫咪皮肤 ---
+// 皮肤只描述颜色、耳朵形状和配饰，画法都在 CatCharacter 里；用户皮肤还可以叠加一张 SVG 图片。
+
+export type BuiltInSkinId = 'calico' | 'tabby' | 'tuxedo' | 'scholar';
+export type EarShape = 'pointy' | 'round' | 'folded';
+export type Accessory = 'headband' | 'bow' | 'glasses' | 'none';
+
+export interface SkinColors {
+  outline: string;
+  body: string;
+  leftEar: string;
+  rightEar: string;
+  leftPatch: string;
+  rightPatch: string;
+  tail: string;
+  eyes: string;
+  nose: string;
+  accessory: string;
+  accessoryDetail: string;
+}
+
+export interface CatSkin {
+  id: string;
+  // 内置皮肤的名字走翻译，用户皮肤用文件里写的名字
+  name: string;
+  builtIn: boolean;
+  colors: SkinColors;
+  ears: EarShape;
+  accessory: Accessory;
+  // 叠加在猫咪上的 SVG（data URL，按 240x240 的画布对齐）
+  overlay?: string;
+}
+
+export const EAR_SHAPES: EarShape[] = ['pointy', 'round', 'folded'];
+export const ACCESSORIES: Accessory[] = ['headband', 'bow', 'glasses', 'none'];
+
+const CALICO_COLORS: SkinColors = {
+  outline: '#442c1d',
+  body: '#ffffff',
+  leftEar: '#FDBA74',
+  rightEar: '#333333',
+  leftPatch: '#FDBA74',
+  rightPatch: '#333333',
+  tail: '#FDBA74',
+  eyes: '#333333',
+  nose: '#fda4af',
+  accessory: '#3b82f6',
+  accessoryDetail: '#facc15',
+};
+
+export const BUILT_IN_SKINS: CatSkin[] = [
+  { id: 'calico', name: 'calico', builtIn: true, colors: CALICO_COLORS, ears: 'pointy', accessory: 'headband' },
+  {
+    id: 'tabby',
+    name: 'tabby',
+    builtIn: true,
+    colors: { ...CALICO_COLORS, body: '#fed7aa', leftEar: '#fb923c', rightEar: '#fb923c', leftPatch: '#fb923c', rightPatch: '#fb923c', tail: '#fb923c', accessory: '#16a34a', accessoryDetail: '#bbf7d0' },
+    ears: 'round',
+    accessory: 'bow',
+  },
+  {
+    id: 'tuxedo',
+    name: 'tuxedo',
+    builtIn: true,
+    colors: { ...CALICO_COLORS, outline: '#111827', leftEar: '#1f2937', rightEar: '#1f2937', leftPatch: '#1f2937', rightPatch: '#1f2937', tail: '#1f2937', accessory: '#dc2626', accessoryDetail: '#fecaca' },
+    ears: 'pointy',
+    accessory: 'bow',
+  },
+  {
+    id: 'scholar',
+    name: 'scholar',
+    builtIn: true,
+    colors: { ...CALICO_COLORS, body: '#e5e7eb', leftEar: '#9ca3af', rightEar: '#9ca3af', leftPatch: '#9ca3af', rightPatch: '#d1d5db', tail: '#9ca3af', accessory: '#1e3a8a', accessoryDetail: '#bfdbfe' },
+    ears: 'folded',
+    accessory: 'glasses',
+  },
+];
+
+export const DEFAULT_SKIN = BUILT_IN_SKINS[0];
+
+// --- 用户皮肤文件 ---
+// {
+//   "format": "cat-guess-skin", "version": 1, "name": "我的猫",
+//   "ears": "round", "accessory": "none",
+//   "colors": { "body": "#fff", ... },          // 可以只写想改的颜色
+//   "overlay": "<svg viewBox=\"0 0 240 240\">...</svg>" 或者同时上传的 .svg 文件名
+// }
+
+const SKIN_FILE_FORMAT = 'cat-guess-skin';
+const SKIN_FILE_VERSION = 1;
+const MAX_SKIN_NAME_LENGTH = 20;
+const MAX_OVERLAY_LENGTH = 100 * 1024;
+const COLOR_PATTERN = /^#(?:[0-9a-f]{3}|[0-9a-f]{4}|[0-9a-f]{6}|[0-9a-f]{8})$/i;
+
+const isColors = (value: unknown): value is Partial<SkinColors> =>
+  !!value && typeof value === 'object' && !Array.isArray(value)
+  && Object.entries(value).every(([key, color]) => Object.hasOwn(CALICO_COLORS, key) && typeof color === 'string' && COLOR_PATTERN.test(color));
+
+// 叠加图以图片形式显示，SVG 里的脚本和外部资源都不会执行
+const SVG_DATA_PREFIX = 'data:image/svg+xml;charset=utf-8,';
+
+// 作为图片显示的 SVG 必须带命名空间，手写的文件经常漏掉
+export const svgToDataUrl = (svg: string): string =>
+  SVG_DATA_PREFIX + encodeURIComponent(svg.includes('xmlns=') ? svg : svg.replace('<svg', '<svg xmlns="http://www.w3.org/2000/svg"'));
+
+// 解析皮肤文件；svgFiles 是一起上传的 SVG 文件（文件名 → 内容）。格式不对时抛出 INVALID_SKIN
+export const parseSkinFile = (text: string, svgFiles: Record<string, string>, id: string): CatSkin => {
+  let data: Record<string, unknown>;
+  try {
+    data = JSON.parse(text) as Record<string, unknown>;
+  } catch {
+    throw new Error('INVALID_SKIN');
+  }
+  if (!data || data.format !== SKIN_FILE_FORMAT || typeof data.version !== 'number' || data.version > SKIN_FILE_VERSION) {
+    throw new Error('INVALID_SKIN');
+  }
+  const { name, colors = {}, ears = DEFAULT_SKIN.ears, accessory = 'none', overlay } = data;
+  if (typeof name !== 'string' || !name.trim() || !isColors(colors)) throw new Error('INVALID_SKIN');
+  if (!EAR_SHAPES.includes(ears as EarShape) || !ACCESSORIES.includes(accessory as Accessory)) throw new Error('INVALID_SKIN');
+
+  let overlaySvg: string | undefined;
+  if (overlay !== undefined) {
+    if (typeof overlay !== 'string') throw new Error('INVALID_SKIN');
+    overlaySvg = overlay.trim().startsWith('<') ? overlay : svgFiles[overlay];
+    if (!overlaySvg || !overlaySvg.includes('<svg') || overlaySvg.length > MAX_OVERLAY_LENGTH) throw new Error('INVALID_SKIN');
+  }
+  return {
+    id,
+    name: name.trim().slice(0, MAX_SKIN_NAME_LENGTH),
+    builtIn: false,
+    colors: { ...DEFAULT_SKIN.colors, ...colors },
+    ears: ears as EarShape,
+    accessory: accessory as Accessory,
+    overlay: overlaySvg ? svgToDataUrl(overlaySvg) : undefined,
+  };
+};
+
+// 从存储里读回来的皮肤同样要检查，避免旧数据或被改坏的数据让画面出错
+const isStoredSkin = (value: unknown): value is CatSkin => {
+  if (!value || typeof value !== 'object') return false;
+  const skin = value as Partial<CatSkin>;
+  return typeof skin.id === 'string' && typeof skin.name === 'string' && isColors(skin.colors)
+    && EAR_SHAPES.includes(skin.ears as EarShape) && ACCESSORIES.includes(skin.accessory as Accessory)
+    && (skin.overlay === undefined || (typeof skin.overlay === 'string' && skin.overlay.startsWith(SVG_DATA_PREFIX)));
+};
+
+const CUSTOM_SKINS_STORAGE = 'cat_guess_custom_skins';
+const SKIN_STORAGE = 'cat_guess_skin';
+
+export const loadCustomSkins = (): CatSkin[] => {
+  try {
+    const saved = localStorage.getItem(CUSTOM_SKINS_STORAGE);
+    if (!saved) return [];
+    const parsed: unknown = JSON.parse(saved);
+    return Array.isArray(parsed)
+      ? parsed.filter(isStoredSkin).map(skin => ({ ...skin, builtIn: false, colors: { ...DEFAULT_SKIN.colors, ...skin.colors } }))
+      : [];
+  } catch (e) {
+    console.error('Failed to load custom skins from storage:', e);
+    return [];
+  }
+};
+
+export const saveCustomSkins = (skins: CatSkin[]) => {
+  localStorage.setItem(CUSTOM_SKINS_STORAGE, JSON.stringify(skins));
+};
+
+export const loadSkinId = (): string => localStorage.getItem(SKIN_STORAGE) || DEFAULT_SKIN.id;
+
+export const saveSkinId = (id: string) => {
+  localStorage.setItem(SKIN_STORAGE, id);
+};
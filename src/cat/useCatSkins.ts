@@ -0,0 +1,45 @@
+import { useEffect, useState } from 'react';
+import { createId } from '../utils/id';
+import { BUILT_IN_SKINS, DEFAULT_SKIN, loadCustomSkins, loadSkinId, parseSkinFile, saveCustomSkins, saveSkinId, type CatSkin } from './skins';
+
+// --- 当前皮肤和用户上传的皮肤 ---
+export const useCatSkins = () => {
+  const [customSkins, setCustomSkins] = useState<CatSkin[]>(loadCustomSkins);
+  const [skinId, setSkinId] = useState<string>(loadSkinId);
+
+  useEffect(() => {
+    // 带 SVG 的皮肤可能比较大，存不下时只影响下次打开
+    try {
+      saveCustomSkins(customSkins);
+    } catch (e) {
+      console.error('Failed to save custom skins to storage:', e);
+    }
+  }, [customSkins]);
+
+  useEffect(() => {
+    saveSkinId(skinId);
+  }, [skinId]);
+
+  const skins = [...BUILT_IN_SKINS, ...customSkins];
+  const skin = skins.find(s => s.id === skinId) ?? DEFAULT_SKIN;
+
+  // 一个 JSON 描述文件，可以附带它引用的 SVG 文件；格式不对时抛出 INVALID_SKIN
+  const importSkin = async (files: File[]) => {
+    const json = files.find(file => file.name.toLowerCase().endsWith('.json'));
+    if (!json) throw new Error('INVALID_SKIN');
+    const svgFiles: Record<string, string> = {};
+    for (const file of files) {
+      if (file.name.toLowerCase().endsWith('.svg')) svgFiles[file.name] = await file.text();
+    }
+    const imported = parseSkinFile(await json.text(), svgFiles, createId('skin'));
+    setCustomSkins(prev => [...prev, imported]);
+    setSkinId(imported.id);
+  };
+
+  const deleteSkin = (id: string) => {
+    setCustomSkins(prev => prev.filter(s => s.id !== id));
+    if (skinId === id) setSkinId(DEFAULT_SKIN.id);
+  };
+
+  return { skins, skin, selectSkin: setSkinId, importSkin, deleteSkin };
+};
@@ -0,0 +1,32 @@
+import { useEffect, useState } from 'react';
+
+// --- 太久没人理就犯困 ---
+
+const SLEEP_AFTER_MS = 30000;
+
+// enabled 为 false（比如游戏进行中）时不会犯困；任何点击或按键都会把猫咪叫醒
+export const useSleepy = (enabled: boolean): boolean => {
+  const [asleep, setAsleep] = useState(false);
+  const [activity, setActivity] = useState(0);
+
+  useEffect(() => {
+    const wake = () => {
+      setAsleep(false);
+      setActivity(n => n + 1);
+    };
+    window.addEventListener('pointerdown', wake);
+    window.addEventListener('keydown', wake);
+    return () => {
+      window.removeEventListener('pointerdown', wake);
+      window.removeEventListener('keydown', wake);
+    };
+  }, []);
+
+  useEffect(() => {
+    if (!enabled) return;
+    const id = setTimeout(() => setAsleep(true), SLEEP_AFTER_MS);
+    return () => clearTimeout(id);
+  }, [enabled, activity]);
+
+  return enabled && asleep;
+};
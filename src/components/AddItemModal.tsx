@@ -0,0 +1,237 @@
+import { useId, useRef, useState, type ChangeEvent } from 'react';
+import { AlertCircle, Camera, Crop, ImagePlus, Loader2, SkipForward, Undo2, WifiOff, X } from 'lucide-react';
+import { useFocusTrap } from '../a11y/useFocusTrap';
+import { aiErrorCode, getProvider, isAiConfigError, type AiSettings } from '../ai';
+import { useI18n } from '../i18n/context';
+import type { Item } from '../types';
+import { PROGRESS, useUploadQueue, type UploadEntry } from '../upload/useUploadQueue';
+import { createId } from '../utils/id';
+import { readFileAsDataUrl } from '../utils/image';
+import CameraCapture from './CameraCapture';
+import ImageCropper from './ImageCropper';
+
+interface AddItemModalProps {
+  aiSettings: AiSettings;
+  online: boolean;
+  // deferred 是离线时用占位名字保存、等联网后再识别的物品
+  onAdd: (items: Item[], deferred: Item[]) => void;
+  onOpenSettings: () => void;
+  onClose: () => void;
+}
+
+// queue：处理队列；camera：拍照；crop：裁剪新图片（entryId 为空）或重新裁剪队列里的图片
+type View = { kind: 'queue' } | { kind: 'camera' } | { kind: 'crop'; source: string; entryId: string | null };
+
+const STATUS_KEYS = {
+  pending: 'upload.status.pending',
+  compressing: 'upload.status.compressing',
+  recognizing: 'upload.status.recognizing',
+  ready: 'upload.status.ready',
+  failed: 'upload.status.failed',
+} as const;
+
+const ERROR_KEYS = {
+  TOO_LARGE: 'error.imageTooLarge',
+  INVALID_IMAGE: 'upload.error.invalidImage',
+  AI_FAILED: 'upload.error.aiFailed',
+} as const;
+
+// 识别服务报告的错误；格式不对的回答不在这里，直接让用户手动起名
+const AI_ERROR_KEYS = {
+  MISSING_KEY: 'error.ai.missingKey',
+  MISSING_BASE_URL: 'error.ai.missingBaseUrl',
+  INVALID_KEY: 'error.ai.invalidKey',
+  BAD_REQUEST: 'error.ai.badRequest',
+  RATE_LIMITED: 'error.ai.rateLimited',
+  SERVER_ERROR: 'error.ai.serverError',
+  TIMEOUT: 'error.ai.timeout',
+  NETWORK_ERROR: 'error.ai.network',
+} as const;
+
+export default function AddItemModal({ aiSettings, online, onAdd, onOpenSettings, onClose }: AddItemModalProps) {
+  const { locale, t } = useI18n();
+  const panelRef = useRef<HTMLDivElement>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const titleId = useId();
+  const [view, setView] = useState<View>({ kind: 'queue' });
+  const [errorMsg, setErrorMsg] = useState('');
+  useFocusTrap(panelRef, onClose);
+
+  const queue = useUploadQueue({
+    aiSettings,
+    defaultPrompt: t('provider.prompt'),
+    fallbackName: t('add.unknownItem'),
+    offline: !online,
+    onAiError: (e) => {
+      const provider = getProvider(aiSettings.providerId);
+      const code = aiErrorCode(e);
+      const key = code in AI_ERROR_KEYS ? AI_ERROR_KEYS[code as keyof typeof AI_ERROR_KEYS] : AI_ERROR_KEYS.NETWORK_ERROR;
+      setErrorMsg(t(key, { provider: t(`provider.${provider.id}` as const) }));
+      // 只有配置问题才需要打开设置，限流、超时之类的稍后重试就好
+      if (isAiConfigError(e)) onOpenSettings();
+    },
+  });
+  const cameraSupported = !!navigator.mediaDevices?.getUserMedia;
+
+  const handleFileChange = async (e: ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files ?? []).filter(file => file.type.startsWith('image/'));
+    e.target.value = '';
+    if (files.length === 0) return;
+    setErrorMsg('');
+    try {
+      const sources = await Promise.all(files.map(readFileAsDataUrl));
+      // 只选了一张时先裁剪；一次选了很多张就直接排队，需要时再逐个编辑
+      if (sources.length === 1) setView({ kind: 'crop', source: sources[0], entryId: null });
+      else queue.enqueue(sources);
+    } catch (err) {
+      console.error('Failed to read image files:', err);
+      setErrorMsg(t('error.unknown'));
+    }
+  };
+
+  const handleCropConfirm = (dataUrl: string) => {
+    if (view.kind !== 'crop') return;
+    if (view.entryId) queue.replaceSource(view.entryId, dataUrl);
+    else queue.enqueue([dataUrl]);
+    setView({ kind: 'queue' });
+  };
+
+  const save = () => {
+    if (queue.saveable.length === 0) return;
+    const added = queue.saveable.map(entry => {
+      const name = entry.name.trim();
+      return { entry, item: { id: createId(), name, names: { [locale]: name }, image: entry.image! } };
+    });
+    onAdd(added.map(a => a.item), added.filter(a => a.entry.deferred && !a.entry.nameEdited).map(a => a.item));
+  };
+
+  const renderEntry = (entry: UploadEntry) => {
+    const processing = entry.status !== 'ready' && entry.status !== 'failed';
+    return (
+      <li key={entry.id} className={`flex items-center gap-3 bg-orange-50/50 p-3 rounded-2xl transition-opacity ${entry.skipped ? 'opacity-40' : ''}`}>
+        <div className="flex justify-center items-center bg-white rounded-xl w-14 h-14 overflow-hidden shrink-0">
+          <img src={entry.image ?? entry.source} alt="" className="w-full h-full object-contain" />
+        </div>
+        <div className="flex-1 space-y-1 min-w-0">
+          <input
+            type="text"
+            value={entry.name}
+            onChange={(e) => queue.rename(entry.id, e.target.value)}
+            disabled={entry.skipped || entry.status === 'failed'}
+            aria-label={t('add.name')}
+            placeholder={entry.status === 'recognizing' ? t('add.analyzingPlaceholder') : t('add.namePlaceholder')}
+            className="bg-white px-3 py-1.5 rounded-lg outline-none ring-orange-200 focus:ring-2 w-full font-bold text-sm"
+          />
+          <div
+            role="progressbar"
+            aria-valuemin={0}
+            aria-valuemax={100}
+            aria-valuenow={PROGRESS[entry.status]}
+            aria-valuetext={t(STATUS_KEYS[entry.status])}
+            className="bg-orange-100 rounded-full h-1.5 overflow-hidden"
+          >
+            <div
+              className={`h-full transition-all duration-500 ${entry.status === 'failed' ? 'bg-red-400' : 'bg-orange-400'} ${processing ? 'animate-pulse' : ''}`}
+              style={{ width: `${PROGRESS[entry.status]}%` }}
+            />
+          </div>
+          <p className={`text-[10px] font-bold truncate ${entry.error ? 'text-red-400' : 'text-orange-300'}`}>
+            {entry.error ? t(ERROR_KEYS[entry.error]) : entry.deferred && !entry.nameEdited ? t('upload.status.deferred') : t(STATUS_KEYS[entry.status])}
+          </p>
+        </div>
+        <div className="flex flex-col gap-1">
+          <button
+            onClick={() => setView({ kind: 'crop', source: entry.source, entryId: entry.id })}
+            disabled={entry.skipped}
+            aria-label={t('upload.edit')}
+            title={t('upload.edit')}
+            className="hover:bg-orange-100 disabled:opacity-30 p-1.5 rounded-lg text-orange-400 transition-colors"
+          >
+            <Crop size={16} />
+          </button>
+          <button
+            onClick={() => queue.toggleSkip(entry.id)}
+            aria-label={entry.skipped ? t('upload.restore') : t('upload.skip')}
+            title={entry.skipped ? t('upload.restore') : t('upload.skip')}
+            className="hover:bg-orange-100 p-1.5 rounded-lg text-orange-400 transition-colors"
+          >
+            {entry.skipped ? <Undo2 size={16} /> : <SkipForward size={16} />}
+          </button>
+        </div>
+      </li>
+    );
+  };
+
+  return (
+    <div className="z-[100] fixed inset-0 flex justify-center items-center bg-orange-900/40 backdrop-blur-md p-6">
+      <div ref={panelRef} role="dialog" aria-modal="true" aria-labelledby={titleId} tabIndex={-1} className="relative bg-white shadow-2xl p-8 rounded-[2rem] w-full max-w-md max-h-full overflow-y-auto outline-none">
+        <div className="flex justify-between items-center mb-6">
+          <h3 id={titleId} className="font-black text-orange-950 text-2xl">{t('add.title')}</h3>
+          <button onClick={onClose} aria-label={t('app.close')} className="bg-orange-50 p-2 rounded-full text-orange-500"><X size={24} /></button>
+        </div>
+        {errorMsg && (
+          <div
+            role="alert"
+            className={`mb-4 p-4 rounded-xl flex items-center gap-2 text-sm font-bold border animate-shake ${errorMsg.includes('API Key') ? 'bg-blue-50 text-blue-600 border-blue-100' : 'bg-red-50 text-red-600 border-red-100'}`}
+          >
+            <AlertCircle size={18} /> {errorMsg}
+          </div>
+        )}
+
+        {!online && !getProvider(aiSettings.providerId).manual && view.kind === 'queue' && (
+          <div role="status" className="flex gap-3 bg-orange-50 mb-4 p-4 rounded-2xl text-orange-700 text-xs leading-relaxed">
+            <WifiOff className="shrink-0" size={16} />
+            <p>{t('add.offline')}</p>
+          </div>
+        )}
+
+        {view.kind === 'camera' ? (
+          <CameraCapture
+            onCapture={(dataUrl) => setView({ kind: 'crop', source: dataUrl, entryId: null })}
+            onCancel={() => setView({ kind: 'queue' })}
+          />
+        ) : view.kind === 'crop' ? (
+          <ImageCropper source={view.source} onConfirm={handleCropConfirm} onCancel={() => setView({ kind: 'queue' })} />
+        ) : (
+          <div className="space-y-6">
+            <div className="gap-3 grid grid-cols-2">
+              <button
+                onClick={() => fileInputRef.current?.click()}
+                className={`flex flex-col items-center gap-2 border-3 border-dashed border-orange-100 hover:border-orange-300 bg-orange-50/30 p-5 rounded-[1.5rem] transition-all ${cameraSupported ? '' : 'col-span-2'}`}
+              >
+                <ImagePlus className="text-orange-300" size={32} />
+                <span className="font-bold text-orange-400 text-xs">{t('add.pick')}</span>
+              </button>
+              {cameraSupported && (
+                <button
+                  onClick={() => setView({ kind: 'camera' })}
+                  className="flex flex-col items-center gap-2 border-3 border-dashed border-orange-100 hover:border-orange-300 bg-orange-50/30 p-5 rounded-[1.5rem] transition-all"
+                >
+                  <Camera className="text-orange-300" size={32} />
+                  <span className="font-bold text-orange-400 text-xs">{t('add.camera')}</span>
+                </button>
+              )}
+              <input ref={fileInputRef} type="file" className="sr-only" accept="image/*" multiple onChange={handleFileChange} tabIndex={-1} aria-hidden="true" />
+            </div>
+            <p className="-mt-3 text-center text-orange-300 text-xs">{t('add.image')}</p>
+
+            {queue.entries.length > 0 && (
+              <ul className="space-y-2" aria-label={t('upload.queue')}>
+                {queue.entries.map(renderEntry)}
+              </ul>
+            )}
+
+            <button
+              onClick={save}
+              disabled={queue.saveable.length === 0 || queue.busy}
+              className={`w-full flex justify-center items-center gap-2 font-black py-5 rounded-2xl shadow-lg transition-all ${(queue.saveable.length === 0 || queue.busy) ? 'bg-gray-100 text-gray-400 cursor-not-allowed' : 'bg-orange-500 text-white hover:bg-orange-600 active:scale-95'}`}
+            >
+              {queue.busy && <Loader2 className="animate-spin" size={18} />}
+              {queue.saveable.length > 1 ? t('add.saveMany', { count: queue.saveable.length }) : t('add.save')}
+            </button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,96 @@
+import { useEffect, useRef, useState } from 'react';
+import { Camera, Loader2, RefreshCw } from 'lucide-react';
+import { useI18n } from '../i18n/context';
+
+interface CameraCaptureProps {
+  onCapture: (dataUrl: string) => void;
+  onCancel: () => void;
+}
+
+type Facing = 'environment' | 'user';
+
+export default function CameraCapture({ onCapture, onCancel }: CameraCaptureProps) {
+  const { t } = useI18n();
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const [facing, setFacing] = useState<Facing>('environment');
+  const [ready, setReady] = useState(false);
+  const [failed, setFailed] = useState(false);
+
+  useEffect(() => {
+    let stream: MediaStream | null = null;
+    let cancelled = false;
+    navigator.mediaDevices
+      .getUserMedia({ video: { facingMode: facing }, audio: false })
+      .then(s => {
+        if (cancelled) {
+          s.getTracks().forEach(track => track.stop());
+          return;
+        }
+        stream = s;
+        if (videoRef.current) videoRef.current.srcObject = s;
+      })
+      .catch(e => {
+        console.error('Failed to open camera:', e);
+        if (!cancelled) setFailed(true);
+      });
+    return () => {
+      cancelled = true;
+      stream?.getTracks().forEach(track => track.stop());
+    };
+  }, [facing]);
+
+  const capture = () => {
+    const video = videoRef.current;
+    if (!video || !video.videoWidth) return;
+    const canvas = document.createElement('canvas');
+    canvas.width = video.videoWidth;
+    canvas.height = video.videoHeight;
+    canvas.getContext('2d')?.drawImage(video, 0, 0);
+    onCapture(canvas.toDataURL('image/jpeg', 0.92));
+  };
+
+  if (failed) {
+    return (
+      <div className="space-y-4 py-6 text-center">
+        <p className="font-bold text-red-500 text-sm">{t('camera.failed')}</p>
+        <button onClick={onCancel} className="font-bold text-orange-400 hover:text-orange-600 text-sm">{t('camera.back')}</button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="relative bg-black rounded-2xl overflow-hidden aspect-[4/3]">
+        <video
+          ref={videoRef}
+          autoPlay
+          playsInline
+          muted
+          onLoadedData={() => setReady(true)}
+          className="w-full h-full object-cover"
+          aria-label={t('camera.preview')}
+        />
+        {!ready && <div className="absolute inset-0 flex justify-center items-center"><Loader2 className="text-white animate-spin" size={32} /></div>}
+      </div>
+      <div className="flex gap-3">
+        <button onClick={onCancel} className="flex-1 bg-white hover:bg-gray-50 py-3 border border-gray-100 rounded-2xl font-bold text-gray-600 transition-colors">
+          {t('camera.back')}
+        </button>
+        <button
+          onClick={() => { setReady(false); setFacing(prev => (prev === 'environment' ? 'user' : 'environment')); }}
+          aria-label={t('camera.switch')}
+          className="bg-orange-50 hover:bg-orange-100 px-4 rounded-2xl text-orange-500 transition-colors"
+        >
+          <RefreshCw size={18} />
+        </button>
+        <button
+          onClick={capture}
+          disabled={!ready}
+          className="flex flex-1 justify-center items-center gap-2 bg-orange-500 hover:bg-orange-600 disabled:bg-gray-100 py-3 rounded-2xl font-bold text-white disabled:text-gray-400 transition-colors"
+        >
+          <Camera size={18} /> {t('camera.capture')}
+        </button>
+      </div>
+    </div>
+  );
+}
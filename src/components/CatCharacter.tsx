@@ -0,0 +1,115 @@
+import type { CatSkin, EarShape } from '../cat/skins';
+import type { CatEmotion } from '../game/engine';
+
+interface CatCharacterProps {
+  skin: CatSkin;
+  emotion: CatEmotion;
+  // 眨眼、摇尾巴等待机动画；设置里的小预览不需要
+  animated?: boolean;
+  className?: string;
+}
+
+// 只画左耳，右耳按画布中线镜像
+const EAR_PATHS: Record<EarShape, string> = {
+  pointy: 'M60 70 L40 20 L100 50 Z',
+  round: 'M60 72 C38 44 52 18 100 50 Z',
+  folded: 'M60 72 L48 36 L76 44 L100 52 Z',
+};
+
+// 眨眼时只缩放眼睛，睁着眼的表情才眨
+const BLINKING: CatEmotion[] = ['neutral', 'thinking', 'surprised', 'smug'];
+
+const ANIMATION_CSS = `
+@keyframes cat-blink { 0%, 93%, 100% { transform: scaleY(1); } 96% { transform: scaleY(0.1); } }
+@keyframes cat-swish { 0%, 100% { transform: rotate(-6deg); } 50% { transform: rotate(10deg); } }
+@media (prefers-reduced-motion: no-preference) {
+  .cat-blink { animation: cat-blink 4s infinite; transform-box: fill-box; transform-origin: center; }
+  .cat-tail { animation: cat-swish 2.4s ease-in-out infinite; transform-box: view-box; transform-origin: 185px 185px; }
+}`;
+
+export default function CatCharacter({ skin, emotion, animated = false, className = '' }: CatCharacterProps) {
+  const { colors } = skin;
+  const eye = colors.eyes;
+
+  const renderEyes = () => {
+    switch (emotion) {
+      case 'thinking':
+        return <><circle cx="95" cy="115" r="7" fill={eye} /><circle cx="145" cy="115" r="7" fill={eye} /><path d="M90 100 Q95 95 100 100" fill="none" stroke={eye} strokeWidth="2" /><path d="M140 100 Q145 95 150 100" fill="none" stroke={eye} strokeWidth="2" /></>;
+      case 'happy':
+        return <><path d="M85 115 Q95 105 105 115" fill="none" stroke={eye} strokeWidth="3" /><path d="M135 115 Q145 105 155 115" fill="none" stroke={eye} strokeWidth="3" /></>;
+      case 'sad':
+        return <><line x1="85" y1="110" x2="105" y2="120" stroke={eye} strokeWidth="3" /><line x1="85" y1="120" x2="105" y2="110" stroke={eye} strokeWidth="3" /><line x1="135" y1="110" x2="155" y2="120" stroke={eye} strokeWidth="3" /><line x1="135" y1="120" x2="155" y2="110" stroke={eye} strokeWidth="3" /></>;
+      case 'surprised':
+        return <><circle cx="95" cy="118" r="13" fill={eye} /><circle cx="145" cy="118" r="13" fill={eye} /><circle cx="99" cy="113" r="5" fill="white" /><circle cx="149" cy="113" r="5" fill="white" /></>;
+      case 'sleepy':
+        return <><path d="M85 118 Q95 126 105 118" fill="none" stroke={eye} strokeWidth="3" /><path d="M135 118 Q145 126 155 118" fill="none" stroke={eye} strokeWidth="3" /></>;
+      case 'smug':
+        return <><circle cx="95" cy="122" r="8" fill={eye} /><circle cx="145" cy="122" r="8" fill={eye} /><path d="M83 116 L107 118" stroke={colors.outline} strokeWidth="4" strokeLinecap="round" /><path d="M133 118 L157 116" stroke={colors.outline} strokeWidth="4" strokeLinecap="round" /></>;
+      case 'confused':
+        return <><circle cx="95" cy="120" r="11" fill={eye} /><circle cx="145" cy="122" r="6" fill={eye} /><circle cx="98" cy="116" r="4" fill="white" /><path d="M135 104 Q145 98 155 106" fill="none" stroke={eye} strokeWidth="2" /></>;
+      default:
+        return <><circle cx="95" cy="120" r="10" fill={eye} /><circle cx="145" cy="120" r="10" fill={eye} /><circle cx="98" cy="116" r="4" fill="white" /><circle cx="148" cy="116" r="4" fill="white" /></>;
+    }
+  };
+
+  const renderMouth = () => {
+    switch (emotion) {
+      case 'surprised':
+        return <ellipse cx="120" cy="153" rx="6" ry="8" fill={eye} />;
+      case 'smug':
+        return <path d="M120 142 Q112 148 104 146 M120 142 Q132 150 144 138" fill="none" stroke={eye} strokeWidth="2" />;
+      case 'confused':
+        return <path d="M104 150 Q112 144 120 150 Q128 156 136 150" fill="none" stroke={eye} strokeWidth="2" />;
+      default:
+        return <path d="M120 142 Q110 150 100 145 M120 142 Q130 150 140 145" fill="none" stroke={eye} strokeWidth="2" />;
+    }
+  };
+
+  const renderAccessory = () => {
+    switch (skin.accessory) {
+      case 'headband':
+        return <>
+          <path d="M70 75 Q120 45 170 75 L175 90 Q120 75 65 90 Z" fill={colors.accessory} stroke={colors.outline} strokeWidth="2" />
+          <path d="M120 45 L125 55 L135 55 L127 62 L130 72 L120 65 L110 72 L113 62 L105 55 L115 55 Z" fill={colors.accessoryDetail} />
+        </>;
+      case 'bow':
+        return <>
+          <path d="M120 68 L96 52 L98 82 Z" fill={colors.accessory} stroke={colors.outline} strokeWidth="2" />
+          <path d="M120 68 L144 52 L142 82 Z" fill={colors.accessory} stroke={colors.outline} strokeWidth="2" />
+          <circle cx="120" cy="68" r="7" fill={colors.accessoryDetail} stroke={colors.outline} strokeWidth="2" />
+        </>;
+      case 'glasses':
+        return <g fill={colors.accessoryDetail} fillOpacity="0.3" stroke={colors.accessory} strokeWidth="4">
+          <circle cx="95" cy="118" r="19" /><circle cx="145" cy="118" r="19" /><path d="M114 116 Q120 110 126 116" fill="none" />
+        </g>;
+      default:
+        return null;
+    }
+  };
+
+  const renderMark = () => {
+    const mark = emotion === 'sleepy' ? 'Zz' : emotion === 'confused' ? '?' : emotion === 'surprised' ? '!' : null;
+    return mark && <text x="196" y="58" fontSize="30" fontWeight="900" fill={colors.outline}>{mark}</text>;
+  };
+
+  return (
+    <svg viewBox="0 0 240 240" aria-hidden="true" className={className}>
+      {animated && <style>{ANIMATION_CSS}</style>}
+      <g className={animated ? 'cat-tail' : undefined}>
+        <path d="M185 185 Q232 178 222 122" fill="none" stroke={colors.outline} strokeWidth="18" strokeLinecap="round" />
+        <path d="M185 185 Q232 178 222 122" fill="none" stroke={colors.tail} strokeWidth="12" strokeLinecap="round" />
+      </g>
+      <path d={EAR_PATHS[skin.ears]} fill={colors.leftEar} stroke={colors.outline} strokeWidth="3" />
+      <path d={EAR_PATHS[skin.ears]} transform="translate(240 0) scale(-1 1)" fill={colors.rightEar} stroke={colors.outline} strokeWidth="3" />
+      <ellipse cx="120" cy="140" rx="85" ry="75" fill={colors.body} stroke={colors.outline} strokeWidth="3" />
+      <path d="M50 100 Q40 120 50 160 Q80 140 70 100 Z" fill={colors.leftPatch} opacity="0.8" />
+      <path d="M190 100 Q200 120 190 160 Q160 140 170 100 Z" fill={colors.rightPatch} opacity="0.8" />
+      {skin.accessory !== 'glasses' && renderAccessory()}
+      <g className={animated && BLINKING.includes(emotion) ? 'cat-blink' : undefined}>{renderEyes()}</g>
+      {skin.accessory === 'glasses' && renderAccessory()}
+      <path d="M115 135 L125 135 L120 142 Z" fill={colors.nose} />{renderMouth()}
+      {skin.overlay && <image href={skin.overlay} x="0" y="0" width="240" height="240" />}
+      {renderMark()}
+    </svg>
+  );
+}
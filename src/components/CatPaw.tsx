@@ -0,0 +1,22 @@
+import type { CatSkin } from '../cat/skins';
+
+interface CatPawProps {
+  skin: CatSkin;
+  visible: boolean;
+  // 相对物品列表的横坐标，指向猫咪正在看的物品
+  left: number | string;
+}
+
+export default function CatPaw({ skin, visible, left }: CatPawProps) {
+  const { colors } = skin;
+  return (
+    <div aria-hidden="true" className={`absolute pointer-events-none transition-all duration-300 ease-out z-[60] ${visible ? 'opacity-100 scale-100' : 'opacity-0 scale-50'}`}
+      style={{ left, top: '-10px', transform: 'translateX(-50%)' }}
+    >
+      <svg width="80" height="80" viewBox="0 0 100 100">
+        <path d="M50 90 C30 90 20 70 20 50 C20 30 35 20 50 20 C65 20 80 30 80 50 C80 70 70 90 50 90" fill={colors.body} stroke={colors.outline} strokeWidth="3" />
+        <path d="M50 90 C30 90 20 70 20 50 L35 50 Q50 65 65 50 L80 50 C80 70 70 90 50 90" fill={colors.leftPatch} /><circle cx="35" cy="40" r="10" fill={colors.nose} /><circle cx="50" cy="30" r="10" fill={colors.nose} /><circle cx="65" cy="40" r="10" fill={colors.nose} /><ellipse cx="50" cy="65" rx="18" ry="15" fill={colors.nose} />
+      </svg>
+    </div>
+  );
+}
@@ -0,0 +1,123 @@
+import { useRef, useState } from 'react';
+import { Check, ChevronDown, Copy, Download, FolderOpen, Pencil, Plus, Share2, Trash2, Upload } from 'lucide-react';
+import { STARTER_DECKS } from '../decks/starterDecks';
+import { useI18n } from '../i18n/context';
+import type { DeckInfo } from '../storage/deckStore';
+
+interface DeckMenuProps {
+  decks: DeckInfo[];
+  activeDeckId: string;
+  disabled: boolean;
+  onSwitch: (deckId: string) => void;
+  onCreate: (name: string, starterId?: string) => void;
+  onRename: (deckId: string, name: string) => void;
+  onDuplicate: (deckId: string) => void;
+  onDelete: (deckId: string) => void;
+  onExport: (deckId: string) => void;
+  onShare: () => void;
+  onImport: (file: File) => void;
+}
+
+type Editing = { mode: 'create' | 'rename'; value: string } | null;
+
+const actionClass = 'flex items-center gap-2 hover:bg-orange-50 px-3 py-2 rounded-xl w-full font-bold text-orange-900 text-xs text-left transition-colors';
+
+export default function DeckMenu({ decks, activeDeckId, disabled, onSwitch, onCreate, onRename, onDuplicate, onDelete, onExport, onShare, onImport }: DeckMenuProps) {
+  const { t } = useI18n();
+  const [isOpen, setIsOpen] = useState(false);
+  const [editing, setEditing] = useState<Editing>(null);
+  const [confirmDelete, setConfirmDelete] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const activeDeck = decks.find(deck => deck.id === activeDeckId);
+
+  const close = () => {
+    setIsOpen(false);
+    setEditing(null);
+    setConfirmDelete(false);
+  };
+
+  const submitEditing = () => {
+    const name = editing?.value.trim();
+    if (!editing || !name) return;
+    if (editing.mode === 'create') onCreate(name);
+    else onRename(activeDeckId, name);
+    close();
+  };
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => (isOpen ? close() : setIsOpen(true))}
+        disabled={disabled}
+        className="flex items-center gap-1 bg-white hover:bg-orange-50 disabled:opacity-50 shadow-sm px-3 py-1.5 border border-orange-100 rounded-full max-w-[10rem] font-bold text-orange-800 text-xs transition-colors"
+      >
+        <FolderOpen size={14} className="shrink-0" />
+        <span className="truncate">{activeDeck?.name ?? t('deck.fallbackName')}</span>
+        <ChevronDown size={14} className="shrink-0" />
+      </button>
+
+      {isOpen && (
+        <div className="top-full right-0 z-[70] absolute space-y-1 bg-white shadow-2xl mt-2 p-3 border border-orange-100 rounded-2xl w-64">
+          <p className="px-3 pb-1 font-bold text-orange-400 text-xs">{t('deck.mine')}</p>
+          {decks.map(deck => (
+            <button key={deck.id} onClick={() => { onSwitch(deck.id); close(); }} className={actionClass}>
+              <span className="w-4">{deck.id === activeDeckId && <Check size={14} className="text-orange-500" />}</span>
+              <span className="flex-1 truncate">{deck.name}</span>
+              <span className="text-orange-300">{deck.id === activeDeckId ? '' : deck.itemCount}</span>
+            </button>
+          ))}
+
+          <div className="my-2 border-orange-100 border-t" />
+
+          {editing ? (
+            <div className="flex gap-2 px-1">
+              <input
+                autoFocus
+                value={editing.value}
+                maxLength={20}
+                onChange={(e) => setEditing({ ...editing, value: e.target.value })}
+                onKeyDown={(e) => { if (e.key === 'Enter') submitEditing(); if (e.key === 'Escape') setEditing(null); }}
+                placeholder={editing.mode === 'create' ? t('deck.newName') : t('deck.renamePlaceholder')}
+                className="flex-1 bg-orange-50 px-3 py-2 rounded-xl outline-none ring-orange-200 focus:ring-2 min-w-0 font-bold text-xs"
+              />
+              <button onClick={submitEditing} className="bg-orange-500 px-3 rounded-xl font-bold text-white text-xs">{t('deck.confirm')}</button>
+            </div>
+          ) : (
+            <>
+              <button onClick={() => setEditing({ mode: 'create', value: '' })} className={actionClass}><Plus size={14} /> {t('deck.createEmpty')}</button>
+              {STARTER_DECKS.map(starter => (
+                <button key={starter.id} onClick={() => { onCreate(t(`deck.starter.${starter.id}` as const), starter.id); close(); }} className={actionClass}>
+                  <Plus size={14} /> {t('deck.createFromStarter', { name: t(`deck.starter.${starter.id}` as const) })}
+                </button>
+              ))}
+              <button onClick={() => setEditing({ mode: 'rename', value: activeDeck?.name ?? '' })} className={actionClass}><Pencil size={14} /> {t('deck.rename')}</button>
+              <button onClick={() => { onDuplicate(activeDeckId); close(); }} className={actionClass}><Copy size={14} /> {t('deck.duplicate')}</button>
+              <button onClick={() => { onExport(activeDeckId); close(); }} className={actionClass}><Download size={14} /> {t('deck.export')}</button>
+              <button onClick={() => { onShare(); close(); }} className={actionClass}><Share2 size={14} /> {t('deck.share')}</button>
+              <button onClick={() => fileInputRef.current?.click()} className={actionClass}><Upload size={14} /> {t('deck.import')}</button>
+              {decks.length > 1 && (
+                <button
+                  onClick={() => { if (confirmDelete) { onDelete(activeDeckId); close(); } else setConfirmDelete(true); }}
+                  className={`${actionClass} text-red-500 hover:bg-red-50`}
+                >
+                  <Trash2 size={14} /> {confirmDelete ? t('deck.confirmDelete') : t('deck.delete')}
+                </button>
+              )}
+            </>
+          )}
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept="application/json,.json"
+            className="sr-only"
+            onChange={(e) => {
+              const file = e.target.files?.[0];
+              e.target.value = '';
+              if (file) { onImport(file); close(); }
+            }}
+          />
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,174 @@
+import { useId, useRef, useState, type ChangeEvent } from 'react';
+import { AlertCircle, ImagePlus, Plus, X } from 'lucide-react';
+import { useFocusTrap } from '../a11y/useFocusTrap';
+import { normalizeTag } from '../decks/itemFilter';
+import { itemName, tagLabel } from '../i18n';
+import { useI18n } from '../i18n/context';
+import type { Item } from '../types';
+import { MAX_UPLOAD_SIZE } from '../upload/useUploadQueue';
+import { compressImage, dataUrlByteSize, readFileAsDataUrl } from '../utils/image';
+import ImageCropper from './ImageCropper';
+
+interface EditItemModalProps {
+  item: Item;
+  // 物品组里已有的标签，作为输入建议
+  knownTags: string[];
+  onSave: (item: Item) => void;
+  onClose: () => void;
+}
+
+const MAX_SUGGESTIONS = 8;
+
+export default function EditItemModal({ item, knownTags, onSave, onClose }: EditItemModalProps) {
+  const { locale, t } = useI18n();
+  const panelRef = useRef<HTMLDivElement>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const titleId = useId();
+  const nameId = useId();
+  const tagInputId = useId();
+  const [name, setName] = useState(() => itemName(item, locale));
+  const [image, setImage] = useState(item.image);
+  const [tags, setTags] = useState<string[]>(item.tags ?? []);
+  const [tagInput, setTagInput] = useState('');
+  const [cropSource, setCropSource] = useState<string | null>(null);
+  const [errorMsg, setErrorMsg] = useState('');
+  useFocusTrap(panelRef, onClose);
+
+  const suggestions = knownTags.filter(tag => !tags.includes(tag)).slice(0, MAX_SUGGESTIONS);
+
+  const addTag = (raw: string) => {
+    const tag = normalizeTag(raw);
+    if (tag && !tags.includes(tag)) setTags([...tags, tag]);
+    setTagInput('');
+  };
+
+  const handleFileChange = async (e: ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      setCropSource(await readFileAsDataUrl(file));
+    } catch (err) {
+      console.error('Failed to read image file:', err);
+      setErrorMsg(t('error.unknown'));
+    }
+  };
+
+  const handleCropConfirm = async (dataUrl: string) => {
+    setCropSource(null);
+    try {
+      const compressed = await compressImage(dataUrl);
+      if (dataUrlByteSize(compressed) > MAX_UPLOAD_SIZE) {
+        setErrorMsg(t('error.imageTooLarge'));
+        return;
+      }
+      setErrorMsg('');
+      setImage(compressed);
+    } catch (err) {
+      console.error('Failed to compress image:', err);
+      setErrorMsg(t('upload.error.invalidImage'));
+    }
+  };
+
+  const save = () => {
+    const trimmed = name.trim();
+    if (!trimmed) return;
+    // 改的是当前语言的名字；原名也跟着更新，没有翻译的语言会显示新名字
+    onSave({ ...item, name: trimmed, names: { ...item.names, [locale]: trimmed }, image, tags: tags.length > 0 ? tags : undefined });
+  };
+
+  return (
+    <div className="z-[100] fixed inset-0 flex justify-center items-center bg-orange-900/40 backdrop-blur-md p-6">
+      <div ref={panelRef} role="dialog" aria-modal="true" aria-labelledby={titleId} tabIndex={-1} className="relative bg-white shadow-2xl p-8 rounded-[2rem] w-full max-w-md max-h-full overflow-y-auto outline-none">
+        <div className="flex justify-between items-center mb-6">
+          <h3 id={titleId} className="font-black text-orange-950 text-2xl">{t('edit.title')}</h3>
+          <button onClick={onClose} aria-label={t('app.close')} className="bg-orange-50 p-2 rounded-full text-orange-500"><X size={24} /></button>
+        </div>
+        {errorMsg && (
+          <div role="alert" className="flex items-center gap-2 bg-red-50 mb-4 p-4 border border-red-100 rounded-xl font-bold text-red-600 text-sm animate-shake">
+            <AlertCircle size={18} /> {errorMsg}
+          </div>
+        )}
+
+        {cropSource ? (
+          <ImageCropper source={cropSource} onConfirm={handleCropConfirm} onCancel={() => setCropSource(null)} />
+        ) : (
+          <div className="space-y-6">
+            <div className="flex items-center gap-4">
+              <div className="flex justify-center items-center bg-orange-50/50 p-2 rounded-2xl w-24 h-24 overflow-hidden shrink-0">
+                <img src={image} alt="" className="w-full h-full object-contain" />
+              </div>
+              <button
+                onClick={() => fileInputRef.current?.click()}
+                className="flex items-center gap-2 bg-orange-50 hover:bg-orange-100 px-4 py-3 rounded-2xl font-bold text-orange-500 text-sm transition-colors"
+              >
+                <ImagePlus size={18} /> {t('edit.replaceImage')}
+              </button>
+              <input ref={fileInputRef} type="file" accept="image/*" className="sr-only" onChange={handleFileChange} tabIndex={-1} aria-hidden="true" />
+            </div>
+
+            <div className="space-y-1">
+              <label htmlFor={nameId} className="ml-2 font-bold text-orange-400 text-xs">{t('add.name')}</label>
+              <input
+                id={nameId}
+                type="text"
+                value={name}
+                maxLength={20}
+                onChange={(e) => setName(e.target.value)}
+                placeholder={t('add.namePlaceholder')}
+                className="bg-orange-50 px-6 py-4 rounded-2xl outline-none ring-orange-200 focus:ring-2 w-full font-bold transition-all"
+              />
+            </div>
+
+            <div className="space-y-2">
+              <label htmlFor={tagInputId} className="ml-2 font-bold text-orange-400 text-xs">{t('edit.tags')}</label>
+              {tags.length > 0 && (
+                <ul className="flex flex-wrap gap-2">
+                  {tags.map(tag => (
+                    <li key={tag} className="flex items-center gap-1 bg-orange-100 py-1 pr-1 pl-3 rounded-full font-bold text-orange-800 text-xs">
+                      {tagLabel(tag, locale)}
+                      <button onClick={() => setTags(tags.filter(t => t !== tag))} aria-label={t('edit.removeTag', { tag: tagLabel(tag, locale) })} className="hover:bg-orange-200 p-0.5 rounded-full">
+                        <X size={12} />
+                      </button>
+                    </li>
+                  ))}
+                </ul>
+              )}
+              <div className="flex gap-2">
+                <input
+                  id={tagInputId}
+                  type="text"
+                  value={tagInput}
+                  onChange={(e) => setTagInput(e.target.value)}
+                  onKeyDown={(e) => { if (e.key === 'Enter' || e.key === ',') { e.preventDefault(); addTag(tagInput); } }}
+                  placeholder={t('edit.tagPlaceholder')}
+                  className="flex-1 bg-orange-50 px-4 py-2 rounded-xl outline-none ring-orange-200 focus:ring-2 min-w-0 font-bold text-sm"
+                />
+                <button onClick={() => addTag(tagInput)} disabled={!normalizeTag(tagInput)} aria-label={t('edit.addTag')} className="bg-orange-500 disabled:bg-gray-100 px-3 rounded-xl text-white disabled:text-gray-400">
+                  <Plus size={16} />
+                </button>
+              </div>
+              {suggestions.length > 0 && (
+                <div className="flex flex-wrap gap-1">
+                  {suggestions.map(tag => (
+                    <button key={tag} onClick={() => addTag(tag)} className="hover:bg-orange-50 px-2 py-1 border border-orange-100 rounded-full font-bold text-orange-400 text-[10px]">
+                      + {tagLabel(tag, locale)}
+                    </button>
+                  ))}
+                </div>
+              )}
+            </div>
+
+            <button
+              onClick={save}
+              disabled={!name.trim()}
+              className={`w-full font-black py-5 rounded-2xl shadow-lg transition-all ${!name.trim() ? 'bg-gray-100 text-gray-400 cursor-not-allowed' : 'bg-orange-500 text-white hover:bg-orange-600 active:scale-95'}`}
+            >
+              {t('edit.save')}
+            </button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,128 @@
+import React, { useRef, useState } from 'react';
+import { Check, Loader2, Maximize, RotateCcw, RotateCw } from 'lucide-react';
+import { useI18n } from '../i18n/context';
+import { cropImage, FULL_CROP, rotateImage, type CropRect } from '../utils/image';
+
+interface ImageCropperProps {
+  source: string;
+  onConfirm: (dataUrl: string) => void;
+  onCancel: () => void;
+}
+
+// 裁剪框最小占图片的比例
+const MIN_SIZE = 0.1;
+// 键盘每次移动的距离
+const KEY_STEP = 0.02;
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+
+type Drag = { mode: 'move' | 'resize'; startX: number; startY: number; start: CropRect; width: number; height: number };
+
+export default function ImageCropper({ source, onConfirm, onCancel }: ImageCropperProps) {
+  const { t } = useI18n();
+  const [image, setImage] = useState(source);
+  const [rect, setRect] = useState<CropRect>(FULL_CROP);
+  const [busy, setBusy] = useState(false);
+  const frameRef = useRef<HTMLDivElement>(null);
+  const dragRef = useRef<Drag | null>(null);
+
+  const rotate = async (turns: number) => {
+    setBusy(true);
+    try {
+      setImage(await rotateImage(image, turns));
+      setRect(FULL_CROP);
+    } catch (e) {
+      console.error('Failed to rotate image:', e);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const confirm = async () => {
+    setBusy(true);
+    try {
+      onConfirm(await cropImage(image, rect));
+    } catch (e) {
+      console.error('Failed to crop image:', e);
+      setBusy(false);
+    }
+  };
+
+  const startDrag = (e: React.PointerEvent, mode: Drag['mode']) => {
+    const frame = frameRef.current?.getBoundingClientRect();
+    if (!frame) return;
+    e.stopPropagation();
+    (e.currentTarget as HTMLElement).setPointerCapture(e.pointerId);
+    dragRef.current = { mode, startX: e.clientX, startY: e.clientY, start: rect, width: frame.width, height: frame.height };
+  };
+
+  const handlePointerMove = (e: React.PointerEvent) => {
+    const drag = dragRef.current;
+    if (!drag) return;
+    const dx = (e.clientX - drag.startX) / drag.width;
+    const dy = (e.clientY - drag.startY) / drag.height;
+    const { start } = drag;
+    if (drag.mode === 'move') {
+      setRect({ ...start, x: clamp(start.x + dx, 0, 1 - start.width), y: clamp(start.y + dy, 0, 1 - start.height) });
+    } else {
+      setRect({ ...start, width: clamp(start.width + dx, MIN_SIZE, 1 - start.x), height: clamp(start.height + dy, MIN_SIZE, 1 - start.y) });
+    }
+  };
+
+  // 方向键移动裁剪框，按住 Shift 调整大小
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    const delta: Record<string, [number, number]> = { ArrowLeft: [-KEY_STEP, 0], ArrowRight: [KEY_STEP, 0], ArrowUp: [0, -KEY_STEP], ArrowDown: [0, KEY_STEP] };
+    const step = delta[e.key];
+    if (!step) return;
+    e.preventDefault();
+    setRect(prev => e.shiftKey
+      ? { ...prev, width: clamp(prev.width + step[0], MIN_SIZE, 1 - prev.x), height: clamp(prev.height + step[1], MIN_SIZE, 1 - prev.y) }
+      : { ...prev, x: clamp(prev.x + step[0], 0, 1 - prev.width), y: clamp(prev.y + step[1], 0, 1 - prev.height) });
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex justify-center bg-orange-50/50 p-2 rounded-2xl">
+        <div ref={frameRef} className="relative touch-none select-none" onPointerMove={handlePointerMove} onPointerUp={() => { dragRef.current = null; }}>
+          <img src={image} alt="" className="block max-w-full max-h-64 pointer-events-none" />
+          <div className="absolute inset-0 bg-black/40 pointer-events-none" style={{ clipPath: `polygon(0 0, 100% 0, 100% 100%, 0 100%, 0 ${rect.y * 100}%, ${rect.x * 100}% ${rect.y * 100}%, ${rect.x * 100}% ${(rect.y + rect.height) * 100}%, ${(rect.x + rect.width) * 100}% ${(rect.y + rect.height) * 100}%, ${(rect.x + rect.width) * 100}% ${rect.y * 100}%, 0 ${rect.y * 100}%)` }} />
+          <div
+            role="slider"
+            tabIndex={0}
+            aria-label={t('crop.area')}
+            aria-valuetext={`${Math.round(rect.width * 100)}% × ${Math.round(rect.height * 100)}%`}
+            onPointerDown={(e) => startDrag(e, 'move')}
+            onKeyDown={handleKeyDown}
+            className="absolute border-2 border-white outline-none focus-visible:ring-4 focus-visible:ring-orange-300 cursor-move"
+            style={{ left: `${rect.x * 100}%`, top: `${rect.y * 100}%`, width: `${rect.width * 100}%`, height: `${rect.height * 100}%` }}
+          >
+            <div
+              onPointerDown={(e) => startDrag(e, 'resize')}
+              className="-right-2 -bottom-2 absolute bg-white shadow border-2 border-orange-400 rounded-full w-5 h-5 cursor-nwse-resize"
+            />
+          </div>
+        </div>
+      </div>
+
+      <div className="flex justify-center gap-2">
+        <button onClick={() => rotate(-1)} disabled={busy} aria-label={t('crop.rotateLeft')} className="bg-orange-50 hover:bg-orange-100 p-3 rounded-xl text-orange-500 transition-colors"><RotateCcw size={18} /></button>
+        <button onClick={() => rotate(1)} disabled={busy} aria-label={t('crop.rotateRight')} className="bg-orange-50 hover:bg-orange-100 p-3 rounded-xl text-orange-500 transition-colors"><RotateCw size={18} /></button>
+        <button onClick={() => setRect(FULL_CROP)} disabled={busy} aria-label={t('crop.reset')} className="bg-orange-50 hover:bg-orange-100 p-3 rounded-xl text-orange-500 transition-colors"><Maximize size={18} /></button>
+      </div>
+      <p className="text-center text-orange-300 text-xs">{t('crop.hint')}</p>
+
+      <div className="flex gap-3">
+        <button onClick={onCancel} className="flex-1 bg-white hover:bg-gray-50 py-3 border border-gray-100 rounded-2xl font-bold text-gray-600 transition-colors">
+          {t('crop.cancel')}
+        </button>
+        <button
+          onClick={confirm}
+          disabled={busy}
+          className="flex flex-1 justify-center items-center gap-2 bg-orange-500 hover:bg-orange-600 disabled:bg-gray-100 py-3 rounded-2xl font-bold text-white disabled:text-gray-400 transition-colors"
+        >
+          {busy ? <Loader2 className="animate-spin" size={18} /> : <Check size={18} />} {t('crop.confirm')}
+        </button>
+      </div>
+    </div>
+  );
+}
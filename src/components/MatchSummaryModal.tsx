@@ -0,0 +1,59 @@
+import { useId, useRef } from 'react';
+import { Crown, RotateCcw, Trophy } from 'lucide-react';
+import { useFocusTrap } from '../a11y/useFocusTrap';
+import { matchWinners, rankPlayers, type Match } from '../game/match';
+import { useI18n } from '../i18n/context';
+
+interface MatchSummaryModalProps {
+  match: Match;
+  onRematch: () => void;
+  onClose: () => void;
+}
+
+export default function MatchSummaryModal({ match, onRematch, onClose }: MatchSummaryModalProps) {
+  const { t } = useI18n();
+  const panelRef = useRef<HTMLDivElement>(null);
+  const titleId = useId();
+  useFocusTrap(panelRef, onClose);
+  const winners = matchWinners(match);
+  const ranking = rankPlayers(match);
+
+  return (
+    <div className="z-[110] fixed inset-0 flex justify-center items-center bg-orange-900/40 backdrop-blur-md p-6">
+      <div ref={panelRef} role="dialog" aria-modal="true" aria-labelledby={titleId} tabIndex={-1} className="relative bg-white shadow-2xl p-8 rounded-[2rem] w-full max-w-sm max-h-full overflow-y-auto text-center outline-none">
+        <Trophy className="mx-auto mb-2 text-yellow-400" size={48} />
+        <h3 id={titleId} className="font-black text-orange-950 text-2xl">{t('match.title')}</h3>
+        <p className="mt-1 mb-6 font-bold text-orange-500">
+          {winners.length > 1
+            ? t('match.tie', { names: winners.map(p => p.name).join(t('list.separator')) })
+            : t('match.winner', { name: winners[0].name })}
+        </p>
+
+        <ol className="space-y-2 mb-6 text-left">
+          {ranking.map((player, index) => {
+            const score = match.scores[player.id];
+            return (
+              <li key={player.id} className="flex items-center gap-3 bg-orange-50/50 px-4 py-3 rounded-2xl font-bold text-orange-900">
+                <span className="w-4 text-orange-300 text-sm">{index + 1}</span>
+                <span className="rounded-full w-4 h-4 shrink-0" style={{ backgroundColor: player.color }} />
+                <span className="flex-1 truncate">{player.name}</span>
+                {winners.includes(player) && <Crown size={16} className="text-yellow-400" />}
+                <span className="text-orange-400 text-xs">{t('match.bestStreak', { count: score.bestStreak })}</span>
+                <span className="text-lg">{score.score}</span>
+              </li>
+            );
+          })}
+        </ol>
+
+        <div className="flex gap-3">
+          <button onClick={onRematch} className="flex flex-1 justify-center items-center gap-2 bg-orange-500 hover:bg-orange-600 py-4 rounded-2xl font-bold text-white transition-colors">
+            <RotateCcw size={18} /> {t('match.rematch')}
+          </button>
+          <button onClick={onClose} className="flex-1 bg-white hover:bg-gray-50 py-4 border border-gray-100 rounded-2xl font-bold text-gray-600 transition-colors">
+            {t('match.close')}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
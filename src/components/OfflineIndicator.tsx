@@ -0,0 +1,27 @@
+import { CloudUpload, WifiOff } from 'lucide-react';
+import { useI18n } from '../i18n/context';
+
+interface OfflineIndicatorProps {
+  online: boolean;
+  // 当前物品组里等待联网识别的物品数
+  pendingCount: number;
+}
+
+export default function OfflineIndicator({ online, pendingCount }: OfflineIndicatorProps) {
+  const { t } = useI18n();
+  if (online && pendingCount === 0) return null;
+
+  const title = [online ? '' : t('offline.title'), pendingCount > 0 ? t('offline.pending', { count: pendingCount }) : ''].filter(Boolean).join(' ');
+  return (
+    <span
+      role="status"
+      title={title}
+      aria-label={title}
+      className={`flex items-center gap-1 px-3 py-1.5 rounded-full font-bold text-xs ${online ? 'bg-blue-50 text-blue-500' : 'bg-gray-100 text-gray-500'}`}
+    >
+      {online ? <CloudUpload size={14} /> : <WifiOff size={14} />}
+      <span className="hidden sm:inline">{online ? t('offline.recognizing') : t('offline.badge')}</span>
+      {pendingCount > 0 && <span>{pendingCount}</span>}
+    </span>
+  );
+}
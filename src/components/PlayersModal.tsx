@@ -0,0 +1,131 @@
+import { useId, useRef, useState } from 'react';
+import { Play, Plus, Trash2, Users, X } from 'lucide-react';
+import { useFocusTrap } from '../a11y/useFocusTrap';
+import { loadPlayers, MAX_PLAYERS, MIN_PLAYERS, PLAYER_COLORS, savePlayers, type Player } from '../game/match';
+import { useI18n } from '../i18n/context';
+import { createId } from '../utils/id';
+
+interface PlayersModalProps {
+  // 正在进行比赛时只能结束比赛，不能改玩家
+  matchActive: boolean;
+  onStart: (players: Player[], turnsPerPlayer: number) => void;
+  onEnd: () => void;
+  onClose: () => void;
+}
+
+const TURN_OPTIONS = [1, 2, 3, 5, 10];
+
+const newPlayer = (index: number, name: string): Player =>
+  ({ id: createId('player'), name, color: PLAYER_COLORS[index % PLAYER_COLORS.length] });
+
+export default function PlayersModal({ matchActive, onStart, onEnd, onClose }: PlayersModalProps) {
+  const { t } = useI18n();
+  const panelRef = useRef<HTMLDivElement>(null);
+  const titleId = useId();
+  const turnsId = useId();
+  useFocusTrap(panelRef, onClose);
+  const [saved] = useState(loadPlayers);
+  const [players, setPlayers] = useState<Player[]>(() =>
+    saved?.players ?? [newPlayer(0, t('players.defaultName', { index: 1 })), newPlayer(1, t('players.defaultName', { index: 2 }))]);
+  const [turnsPerPlayer, setTurnsPerPlayer] = useState(saved?.turnsPerPlayer ?? 3);
+  const canStart = players.length >= MIN_PLAYERS && players.every(p => p.name.trim());
+
+  const updatePlayer = (id: string, patch: Partial<Player>) =>
+    setPlayers(prev => prev.map(p => (p.id === id ? { ...p, ...patch } : p)));
+
+  const start = () => {
+    if (!canStart) return;
+    const trimmed = players.map(p => ({ ...p, name: p.name.trim() }));
+    savePlayers(trimmed, turnsPerPlayer);
+    onStart(trimmed, turnsPerPlayer);
+  };
+
+  return (
+    <div className="z-[110] fixed inset-0 flex justify-center items-center bg-orange-900/40 backdrop-blur-md p-6">
+      <div ref={panelRef} role="dialog" aria-modal="true" aria-labelledby={titleId} tabIndex={-1} className="relative bg-white shadow-2xl p-8 rounded-[2rem] w-full max-w-sm max-h-full overflow-y-auto outline-none">
+        <div className="flex justify-between items-center mb-6">
+          <h3 id={titleId} className="flex items-center gap-2 font-black text-orange-950 text-xl"><Users className="text-orange-500" size={20} /> {t('players.title')}</h3>
+          <button onClick={onClose} aria-label={t('app.close')} className="bg-orange-50 p-2 rounded-full text-orange-500"><X size={20} /></button>
+        </div>
+
+        {matchActive ? (
+          <div className="space-y-4">
+            <p className="font-bold text-orange-400 text-sm">{t('players.inProgress')}</p>
+            <button onClick={onEnd} className="bg-red-500 hover:bg-red-600 py-4 rounded-2xl w-full font-bold text-white transition-colors">
+              {t('players.end')}
+            </button>
+          </div>
+        ) : (
+          <div className="space-y-4">
+            <ul className="space-y-3">
+              {players.map((player, index) => (
+                <li key={player.id} className="space-y-2">
+                  <div className="flex items-center gap-2">
+                    <span className="rounded-full w-4 h-4 shrink-0" style={{ backgroundColor: player.color }} />
+                    <input
+                      value={player.name}
+                      maxLength={12}
+                      onChange={(e) => updatePlayer(player.id, { name: e.target.value })}
+                      placeholder={t('players.defaultName', { index: index + 1 })}
+                      className="flex-1 bg-orange-50 px-4 py-2 rounded-xl outline-none ring-orange-200 focus:ring-2 min-w-0 font-bold text-sm"
+                    />
+                    <button
+                      onClick={() => setPlayers(prev => prev.filter(p => p.id !== player.id))}
+                      aria-label={t('players.remove', { name: player.name })}
+                      disabled={players.length <= MIN_PLAYERS}
+                      className="hover:bg-red-50 disabled:opacity-30 p-2 rounded-lg text-red-300 hover:text-red-500 transition-colors"
+                    >
+                      <Trash2 size={16} />
+                    </button>
+                  </div>
+                  <div className="flex gap-2 ml-6">
+                    {PLAYER_COLORS.map(color => (
+                      <button
+                        key={color}
+                        onClick={() => updatePlayer(player.id, { color })}
+                        title={color}
+                        aria-label={color}
+                        aria-pressed={player.color === color}
+                        className={`w-6 h-6 rounded-full transition-transform ${player.color === color ? 'ring-2 ring-offset-2 ring-orange-300 scale-110' : ''}`}
+                        style={{ backgroundColor: color }}
+                      />
+                    ))}
+                  </div>
+                </li>
+              ))}
+            </ul>
+
+            {players.length < MAX_PLAYERS && (
+              <button
+                onClick={() => setPlayers(prev => [...prev, newPlayer(prev.length, t('players.defaultName', { index: prev.length + 1 }))])}
+                className="flex items-center gap-2 hover:bg-orange-50 px-3 py-2 rounded-xl font-bold text-orange-500 text-xs transition-colors"
+              >
+                <Plus size={14} /> {t('players.add')}
+              </button>
+            )}
+
+            <div className="space-y-2">
+              <label htmlFor={turnsId} className="ml-1 font-bold text-orange-400 text-xs">{t('players.turns')}</label>
+              <select
+                id={turnsId}
+                value={turnsPerPlayer}
+                onChange={(e) => setTurnsPerPlayer(Number(e.target.value))}
+                className="bg-orange-50 px-5 py-3 rounded-2xl outline-none ring-orange-200 focus:ring-2 w-full font-bold text-sm"
+              >
+                {TURN_OPTIONS.map(n => <option key={n} value={n}>{t('players.turnsOption', { count: n })}</option>)}
+              </select>
+            </div>
+
+            <button
+              onClick={start}
+              disabled={!canStart}
+              className="flex justify-center items-center gap-2 bg-orange-500 hover:bg-orange-600 disabled:bg-gray-100 py-4 rounded-2xl w-full font-bold text-white disabled:text-gray-400 transition-colors"
+            >
+              <Play size={18} /> {t('players.start')}
+            </button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
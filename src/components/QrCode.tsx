@@ -0,0 +1,27 @@
+import { useMemo } from 'react';
+import { encodeQr } from '../share/qrCode';
+
+interface QrCodeProps {
+  value: string;
+  label: string;
+}
+
+// 二维码四周要留出 4 个模块宽的空白才容易识别
+const QUIET_ZONE = 4;
+
+export default function QrCode({ value, label }: QrCodeProps) {
+  const { size, path } = useMemo(() => {
+    const modules = encodeQr(value);
+    let d = '';
+    modules.forEach((row, y) => row.forEach((dark, x) => {
+      if (dark) d += `M${x + QUIET_ZONE} ${y + QUIET_ZONE}h1v1h-1z`;
+    }));
+    return { size: modules.length + QUIET_ZONE * 2, path: d };
+  }, [value]);
+
+  return (
+    <svg role="img" aria-label={label} viewBox={`0 0 ${size} ${size}`} shapeRendering="crispEdges" className="bg-white rounded-xl w-full h-auto">
+      <path d={path} fill="#000" />
+    </svg>
+  );
+}
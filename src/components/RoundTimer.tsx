@@ -0,0 +1,29 @@
+import { useEffect, useState } from 'react';
+import { Timer } from 'lucide-react';
+import { useI18n } from '../i18n/context';
+
+interface RoundTimerProps {
+  // 截止时间由游戏引擎给出，这里只负责显示倒计时
+  deadline: number;
+}
+
+export default function RoundTimer({ deadline }: RoundTimerProps) {
+  const { t } = useI18n();
+  const [now, setNow] = useState(() => Date.now());
+
+  useEffect(() => {
+    const id = window.setInterval(() => setNow(Date.now()), 250);
+    return () => window.clearInterval(id);
+  }, []);
+
+  const seconds = Math.max(0, Math.ceil((deadline - now) / 1000));
+  return (
+    <p
+      role="timer"
+      aria-label={t('rules.timeLeft', { count: seconds })}
+      className={`flex items-center gap-1 mt-3 font-black text-sm tabular-nums ${seconds <= 5 ? 'text-red-500 animate-pulse' : 'text-orange-400'}`}
+    >
+      <Timer size={16} /> {seconds}s
+    </p>
+  );
+}
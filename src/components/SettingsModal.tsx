@@ -0,0 +1,468 @@
+import { useId, useRef, useState, type ChangeEvent } from 'react';
+import { AlertCircle, Brain, Gauge, Key, Languages, Palette, Play, Settings, Upload, Volume2, X } from 'lucide-react';
+import { getProvider, listProviders, TIMEOUT_OPTIONS_MS, type AiSettings, type ProviderConfig, type ProviderId } from '../ai';
+import { AUDIO_LIMITS, type AudioSettings } from '../audio/audioSettings';
+import { presetOf, RULE_LIMITS, RULE_PRESETS, type GameRules, type RulePresetId } from '../game/rules';
+import { listStrategies, type StrategyId, type StrategySettings } from '../game/strategies';
+import { useFocusTrap } from '../a11y/useFocusTrap';
+import type { BuiltInSkinId, CatSkin } from '../cat/skins';
+import { LOCALES, speechLangOf, type Locale } from '../i18n';
+import { useI18n } from '../i18n/context';
+import CatCharacter from './CatCharacter';
+
+interface SettingsModalProps {
+  aiSettings: AiSettings;
+  onAiSettingsChange: (settings: AiSettings) => void;
+  strategy: StrategySettings;
+  onStrategyChange: (strategy: StrategySettings) => void;
+  rules: GameRules;
+  onRulesChange: (rules: GameRules) => void;
+  skins: CatSkin[];
+  skinId: string;
+  onSkinChange: (skinId: string) => void;
+  onImportSkin: (files: File[]) => Promise<void>;
+  onDeleteSkin: (skinId: string) => void;
+  audio: AudioSettings;
+  onAudioChange: (settings: AudioSettings) => void;
+  // 当前语言可选的声音
+  voices: SpeechSynthesisVoice[];
+  speechSupported: boolean;
+  onPreviewVoice: () => void;
+  onClose: () => void;
+}
+
+const inputClass = 'bg-orange-50 px-5 py-4 rounded-2xl outline-none ring-orange-200 focus:ring-2 w-full font-mono text-sm transition-all';
+const labelClass = 'flex items-center gap-1 ml-1 font-bold text-orange-400 text-xs';
+const rangeClass = 'w-full accent-orange-500';
+
+const RETRY_OPTIONS = [0, 1, 2, 3, 5];
+const TIME_OPTIONS = [10000, 20000, 30000, 60000];
+
+const clampTo = (value: number, [min, max]: readonly [number, number]) => Math.min(max, Math.max(min, value || 0));
+
+export default function SettingsModal({ aiSettings, onAiSettingsChange, strategy, onStrategyChange, rules, onRulesChange, skins, skinId, onSkinChange, onImportSkin, onDeleteSkin, audio, onAudioChange, voices, speechSupported, onPreviewVoice, onClose }: SettingsModalProps) {
+  const { locale, setLocale, t } = useI18n();
+  const panelRef = useRef<HTMLDivElement>(null);
+  const skinInputRef = useRef<HTMLInputElement>(null);
+  const [skinError, setSkinError] = useState('');
+  const titleId = useId();
+  // 标签通过 id 关联到各自的输入框
+  const fieldPrefix = useId();
+  const fieldId = (name: string) => `${fieldPrefix}-${name}`;
+  useFocusTrap(panelRef, onClose);
+  const provider = getProvider(aiSettings.providerId);
+  const config = aiSettings.configs[provider.id];
+
+  const preset = presetOf(rules);
+  const updateRules = (patch: Partial<GameRules>) => onRulesChange({ ...rules, ...patch });
+  const updateAudio = (patch: Partial<AudioSettings>) => onAudioChange({ ...audio, ...patch });
+  const speechLang = speechLangOf(locale);
+
+  const handleSkinFiles = async (e: ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files ?? []);
+    e.target.value = '';
+    if (files.length === 0) return;
+    try {
+      await onImportSkin(files);
+      setSkinError('');
+    } catch (err) {
+      console.error('Failed to import skin:', err);
+      setSkinError(t('skin.invalid'));
+    }
+  };
+
+  const updateConfig = (patch: Partial<ProviderConfig>) => {
+    onAiSettingsChange({
+      ...aiSettings,
+      configs: { ...aiSettings.configs, [provider.id]: { ...config, ...patch } },
+    });
+  };
+
+  return (
+    <div className="z-[120] fixed inset-0 flex justify-center items-center bg-orange-900/40 backdrop-blur-md p-6">
+      <div ref={panelRef} role="dialog" aria-modal="true" aria-labelledby={titleId} tabIndex={-1} className="relative bg-white shadow-2xl p-8 rounded-[2rem] w-full max-w-sm max-h-full overflow-y-auto outline-none">
+        <div className="flex justify-between items-center mb-6">
+          <h3 id={titleId} className="flex items-center gap-2 font-black text-orange-950 text-xl"><Settings className="text-orange-500" size={20} /> {t('settings.title')}</h3>
+          <button onClick={onClose} aria-label={t('app.close')} className="bg-orange-50 p-2 rounded-full text-orange-500"><X size={20} /></button>
+        </div>
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <label htmlFor={fieldId('language')} className={labelClass}><Languages size={12} /> {t('settings.language')}</label>
+            <select id={fieldId('language')} value={locale} onChange={(e) => setLocale(e.target.value as Locale)} className={inputClass}>
+              {LOCALES.map(l => <option key={l.id} value={l.id}>{l.label}</option>)}
+            </select>
+          </div>
+
+          <div className="space-y-2">
+            <h4 className={labelClass}><Palette size={12} /> {t('settings.skin')}</h4>
+            <div className="gap-2 grid grid-cols-4" role="group" aria-label={t('settings.skin')}>
+              {skins.map(skin => {
+                const name = skin.builtIn ? t(`skin.${skin.id as BuiltInSkinId}` as const) : skin.name;
+                return (
+                  <div key={skin.id} className="relative">
+                    <button
+                      onClick={() => onSkinChange(skin.id)}
+                      aria-pressed={skin.id === skinId}
+                      className={`flex flex-col items-center gap-1 p-2 rounded-2xl w-full border-2 transition-colors ${skin.id === skinId ? 'border-orange-400 bg-orange-50' : 'border-transparent hover:bg-orange-50'}`}
+                    >
+                      <CatCharacter skin={skin} emotion="neutral" className="w-12 h-12" />
+                      <span className="w-full font-bold text-[10px] text-orange-900 text-center truncate">{name}</span>
+                    </button>
+                    {!skin.builtIn && (
+                      <button
+                        onClick={() => onDeleteSkin(skin.id)}
+                        aria-label={t('skin.delete', { name })}
+                        className="-top-1 -right-1 absolute bg-white shadow p-0.5 rounded-full text-orange-300 hover:text-red-500"
+                      >
+                        <X size={12} />
+                      </button>
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+            <button onClick={() => skinInputRef.current?.click()} className="flex items-center gap-1 ml-1 font-bold text-orange-400 hover:text-orange-600 text-xs">
+              <Upload size={12} /> {t('skin.upload')}
+            </button>
+            <input ref={skinInputRef} type="file" accept=".json,.svg,application/json,image/svg+xml" multiple className="sr-only" onChange={handleSkinFiles} tabIndex={-1} aria-hidden="true" />
+            {skinError && <p role="alert" className="ml-1 font-bold text-red-500 text-xs">{skinError}</p>}
+          </div>
+
+          <div className="space-y-2">
+            <label htmlFor={fieldId('provider')} className={labelClass}>{t('settings.provider')}</label>
+            <select
+              id={fieldId('provider')}
+              value={provider.id}
+              onChange={(e) => onAiSettingsChange({ ...aiSettings, providerId: e.target.value as ProviderId })}
+              className={inputClass}
+            >
+              {listProviders().map(p => <option key={p.id} value={p.id}>{t(`provider.${p.id}` as const)}</option>)}
+            </select>
+          </div>
+
+          {provider.id === 'gemini' && (
+            <div className="flex gap-3 bg-blue-50 p-4 rounded-2xl text-blue-700 text-xs leading-relaxed">
+              <AlertCircle className="shrink-0" size={16} />
+              <p>{t('settings.geminiHint')}</p>
+            </div>
+          )}
+          {provider.id === 'openai' && (
+            <div className="flex gap-3 bg-blue-50 p-4 rounded-2xl text-blue-700 text-xs leading-relaxed">
+              <AlertCircle className="shrink-0" size={16} />
+              <p>{t('settings.openaiHint')}</p>
+            </div>
+          )}
+          {provider.manual && (
+            <div className="flex gap-3 bg-orange-50 p-4 rounded-2xl text-orange-700 text-xs leading-relaxed">
+              <AlertCircle className="shrink-0" size={16} />
+              <p>{t('settings.manualHint')}</p>
+            </div>
+          )}
+
+          {!provider.manual && provider.id !== 'mock' && (
+            <>
+              <div className="space-y-2">
+                <label htmlFor={fieldId('apiKey')} className={labelClass}><Key size={12} /> API Key{!provider.requiresKey && t('settings.optional')}</label>
+                <input
+                  id={fieldId('apiKey')}
+                  type="password"
+                  value={config.apiKey}
+                  onChange={(e) => updateConfig({ apiKey: e.target.value })}
+                  placeholder={t('settings.apiKeyPlaceholder')}
+                  className={inputClass}
+                />
+              </div>
+              <div className="space-y-2">
+                <label htmlFor={fieldId('model')} className={labelClass}>{t('settings.model')}</label>
+                <input
+                  id={fieldId('model')}
+                  type="text"
+                  value={config.model}
+                  onChange={(e) => updateConfig({ model: e.target.value })}
+                  placeholder={provider.defaults.model}
+                  className={inputClass}
+                />
+              </div>
+              <div className="space-y-2">
+                <label htmlFor={fieldId('baseUrl')} className={labelClass}>{t('settings.baseUrl')}</label>
+                <input
+                  id={fieldId('baseUrl')}
+                  type="url"
+                  value={config.baseUrl}
+                  onChange={(e) => updateConfig({ baseUrl: e.target.value })}
+                  placeholder={provider.defaults.baseUrl}
+                  className={inputClass}
+                />
+              </div>
+              <div className="space-y-2">
+                <label htmlFor={fieldId('prompt')} className={labelClass}>{t('settings.prompt')}</label>
+                <textarea
+                  id={fieldId('prompt')}
+                  value={config.prompt}
+                  onChange={(e) => updateConfig({ prompt: e.target.value })}
+                  placeholder={t('provider.prompt')}
+                  rows={3}
+                  className={`${inputClass} resize-none`}
+                />
+                <button
+                  onClick={() => updateConfig({ model: provider.defaults.model, baseUrl: provider.defaults.baseUrl, prompt: provider.defaults.prompt })}
+                  className="ml-1 font-bold text-orange-400 hover:text-orange-600 text-xs"
+                >
+                  {t('settings.resetDefaults')}
+                </button>
+              </div>
+              <div className="space-y-2">
+                <label htmlFor={fieldId('timeout')} className={labelClass}>{t('settings.timeout')}</label>
+                <select
+                  id={fieldId('timeout')}
+                  value={aiSettings.timeoutMs}
+                  onChange={(e) => onAiSettingsChange({ ...aiSettings, timeoutMs: Number(e.target.value) })}
+                  className={inputClass}
+                >
+                  {TIMEOUT_OPTIONS_MS.map(ms => <option key={ms} value={ms}>{t('rules.seconds', { count: ms / 1000 })}</option>)}
+                </select>
+              </div>
+              <label className="flex items-center gap-2 ml-1 font-bold text-orange-400 text-xs cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={aiSettings.aiHints}
+                  onChange={(e) => onAiSettingsChange({ ...aiSettings, aiHints: e.target.checked })}
+                  className="accent-orange-500"
+                />
+                {t('settings.aiHints')}
+              </label>
+              <label className="flex items-center gap-2 ml-1 font-bold text-orange-400 text-xs cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={aiSettings.aiDialogue}
+                  onChange={(e) => onAiSettingsChange({ ...aiSettings, aiDialogue: e.target.checked })}
+                  className="accent-orange-500"
+                />
+                {t('settings.aiDialogue')}
+              </label>
+            </>
+          )}
+
+          <div className="space-y-3 pt-2 border-orange-100 border-t">
+            <h4 className={labelClass}><Volume2 size={12} /> {t('settings.audio')}</h4>
+            <label className="flex items-center gap-2 ml-1 font-bold text-orange-400 text-xs cursor-pointer">
+              <input
+                type="checkbox"
+                checked={audio.effects}
+                onChange={(e) => updateAudio({ effects: e.target.checked })}
+                className="accent-orange-500"
+              />
+              {t('audio.effects')}
+            </label>
+            {speechSupported ? (
+              <>
+                <label className="flex items-center gap-2 ml-1 font-bold text-orange-400 text-xs cursor-pointer">
+                  <input
+                    type="checkbox"
+                    checked={audio.speech}
+                    onChange={(e) => updateAudio({ speech: e.target.checked })}
+                    className="accent-orange-500"
+                  />
+                  {t('audio.speech')}
+                </label>
+                <div className="space-y-1">
+                  <label htmlFor={fieldId('voice')} className={labelClass}>{t('audio.voice')}</label>
+                  <select
+                    id={fieldId('voice')}
+                    value={audio.voices[speechLang] ?? ''}
+                    onChange={(e) => updateAudio({ voices: { ...audio.voices, [speechLang]: e.target.value } })}
+                    disabled={!audio.speech}
+                    className={inputClass}
+                  >
+                    <option value="">{t('audio.defaultVoice')}</option>
+                    {voices.map(voice => <option key={voice.voiceURI} value={voice.voiceURI}>{voice.name}</option>)}
+                  </select>
+                </div>
+                <div className="space-y-1">
+                  <label htmlFor={fieldId('rate')} className={labelClass}>{t('audio.rate', { value: audio.rate.toFixed(1) })}</label>
+                  <input
+                    id={fieldId('rate')}
+                    type="range"
+                    min={AUDIO_LIMITS.rate[0]}
+                    max={AUDIO_LIMITS.rate[1]}
+                    step={0.1}
+                    value={audio.rate}
+                    onChange={(e) => updateAudio({ rate: Number(e.target.value) })}
+                    disabled={!audio.speech}
+                    className={rangeClass}
+                  />
+                </div>
+                <div className="space-y-1">
+                  <label htmlFor={fieldId('pitch')} className={labelClass}>{t('audio.pitch', { value: audio.pitch.toFixed(1) })}</label>
+                  <input
+                    id={fieldId('pitch')}
+                    type="range"
+                    min={AUDIO_LIMITS.pitch[0]}
+                    max={AUDIO_LIMITS.pitch[1]}
+                    step={0.1}
+                    value={audio.pitch}
+                    onChange={(e) => updateAudio({ pitch: Number(e.target.value) })}
+                    disabled={!audio.speech}
+                    className={rangeClass}
+                  />
+                </div>
+                <button
+                  onClick={onPreviewVoice}
+                  disabled={!audio.speech || audio.muted}
+                  className="flex items-center gap-1 ml-1 font-bold text-orange-400 hover:text-orange-600 disabled:opacity-50 text-xs"
+                >
+                  <Play size={12} /> {t('audio.preview')}
+                </button>
+              </>
+            ) : (
+              <p className="ml-1 text-orange-400 text-xs">{t('audio.speechUnsupported')}</p>
+            )}
+            {audio.muted && <p className="ml-1 text-orange-400 text-xs">{t('audio.mutedHint')}</p>}
+          </div>
+
+          <div className="space-y-2 pt-2 border-orange-100 border-t">
+            <label htmlFor={fieldId('strategy')} className={labelClass}><Brain size={12} /> {t('settings.strategy')}</label>
+            <select
+              id={fieldId('strategy')}
+              value={strategy.id}
+              onChange={(e) => onStrategyChange({ ...strategy, id: e.target.value as StrategyId })}
+              className={inputClass}
+            >
+              {listStrategies().map(s => <option key={s.id} value={s.id}>{t(`strategy.${s.id}` as const)}</option>)}
+            </select>
+            <p className="ml-1 text-orange-400 text-xs">{t(`strategy.${strategy.id}.description` as const)}</p>
+            {strategy.id === 'hard' && (
+              <div className="space-y-1">
+                <label htmlFor={fieldId('hardAccuracy')} className={labelClass}>{t('settings.hardAccuracy', { percent: Math.round(strategy.hardAccuracy * 100) })}</label>
+                <input
+                  id={fieldId('hardAccuracy')}
+                  type="range"
+                  min={0}
+                  max={100}
+                  step={5}
+                  value={Math.round(strategy.hardAccuracy * 100)}
+                  onChange={(e) => onStrategyChange({ ...strategy, hardAccuracy: Number(e.target.value) / 100 })}
+                  className="w-full accent-orange-500"
+                />
+              </div>
+            )}
+          </div>
+
+          <div className="space-y-3 pt-2 border-orange-100 border-t">
+            <h4 className={labelClass}><Gauge size={12} /> {t('settings.rules')}</h4>
+            <div className="gap-2 grid grid-cols-3" role="group" aria-label={t('settings.rules')}>
+              {(Object.keys(RULE_PRESETS) as RulePresetId[]).map(id => (
+                <button
+                  key={id}
+                  onClick={() => onRulesChange(RULE_PRESETS[id])}
+                  aria-pressed={preset === id}
+                  className={`py-2 rounded-xl font-bold text-xs transition-colors ${preset === id ? 'bg-orange-500 text-white' : 'bg-orange-50 text-orange-500 hover:bg-orange-100'}`}
+                >
+                  {t(`rules.preset.${id}` as const)}
+                </button>
+              ))}
+            </div>
+            {preset === null && <p className="ml-1 text-orange-400 text-xs">{t('rules.custom')}</p>}
+
+            <div className="space-y-1">
+              <label htmlFor={fieldId('guessTicks')} className={labelClass}>{t('rules.guessTicks', { count: rules.guessTicks })}</label>
+              <input
+                id={fieldId('guessTicks')}
+                type="range"
+                min={RULE_LIMITS.guessTicks[0]}
+                max={RULE_LIMITS.guessTicks[1]}
+                value={rules.guessTicks}
+                onChange={(e) => updateRules({ guessTicks: Number(e.target.value) })}
+                className={rangeClass}
+              />
+            </div>
+            <div className="space-y-1">
+              <label htmlFor={fieldId('tickMs')} className={labelClass}>{t('rules.tickMs', { ms: rules.tickMs })}</label>
+              {/* 滑块往右是更快，所以取反 */}
+              <input
+                id={fieldId('tickMs')}
+                type="range"
+                min={-RULE_LIMITS.tickMs[1]}
+                max={-RULE_LIMITS.tickMs[0]}
+                step={10}
+                value={-rules.tickMs}
+                onChange={(e) => updateRules({ tickMs: -Number(e.target.value) })}
+                aria-valuetext={t('rules.tickMs', { ms: rules.tickMs })}
+                className={rangeClass}
+              />
+            </div>
+            <div className="gap-2 grid grid-cols-2">
+              <div className="space-y-1">
+                <label htmlFor={fieldId('maxRetries')} className={labelClass}>{t('rules.maxRetries')}</label>
+                <select
+                  id={fieldId('maxRetries')}
+                  value={rules.maxRetries ?? ''}
+                  onChange={(e) => updateRules({ maxRetries: e.target.value === '' ? null : Number(e.target.value) })}
+                  className={inputClass}
+                >
+                  <option value="">{t('rules.unlimited')}</option>
+                  {RETRY_OPTIONS.map(n => <option key={n} value={n}>{n}</option>)}
+                </select>
+              </div>
+              <div className="space-y-1">
+                <label htmlFor={fieldId('roundTime')} className={labelClass}>{t('rules.roundTime')}</label>
+                <select
+                  id={fieldId('roundTime')}
+                  value={rules.roundTimeMs ?? ''}
+                  onChange={(e) => updateRules({ roundTimeMs: e.target.value === '' ? null : Number(e.target.value) })}
+                  className={inputClass}
+                >
+                  <option value="">{t('rules.untimed')}</option>
+                  {TIME_OPTIONS.map(ms => <option key={ms} value={ms}>{t('rules.seconds', { count: ms / 1000 })}</option>)}
+                </select>
+              </div>
+              <div className="space-y-1">
+                <label htmlFor={fieldId('firstTryPoints')} className={labelClass}>{t('rules.firstTryPoints')}</label>
+                <input
+                  id={fieldId('firstTryPoints')}
+                  type="number"
+                  min={RULE_LIMITS.firstTryPoints[0]}
+                  max={RULE_LIMITS.firstTryPoints[1]}
+                  value={rules.firstTryPoints}
+                  onChange={(e) => updateRules({ firstTryPoints: clampTo(Number(e.target.value), RULE_LIMITS.firstTryPoints) })}
+                  className={inputClass}
+                />
+              </div>
+              <div className="space-y-1">
+                <label htmlFor={fieldId('retryPoints')} className={labelClass}>{t('rules.retryPoints')}</label>
+                <input
+                  id={fieldId('retryPoints')}
+                  type="number"
+                  min={RULE_LIMITS.retryPoints[0]}
+                  max={RULE_LIMITS.retryPoints[1]}
+                  value={rules.retryPoints}
+                  onChange={(e) => updateRules({ retryPoints: clampTo(Number(e.target.value), RULE_LIMITS.retryPoints) })}
+                  className={inputClass}
+                />
+              </div>
+            </div>
+            <div className="space-y-1">
+              <label htmlFor={fieldId('maxPlayerGuesses')} className={labelClass}>{t('rules.maxPlayerGuesses', { count: rules.maxPlayerGuesses })}</label>
+              <input
+                id={fieldId('maxPlayerGuesses')}
+                type="range"
+                min={RULE_LIMITS.maxPlayerGuesses[0]}
+                max={RULE_LIMITS.maxPlayerGuesses[1]}
+                value={rules.maxPlayerGuesses}
+                onChange={(e) => updateRules({ maxPlayerGuesses: Number(e.target.value) })}
+                className={rangeClass}
+              />
+            </div>
+          </div>
+
+          <button
+            onClick={onClose}
+            className="bg-orange-950 hover:bg-black py-4 rounded-2xl w-full font-bold text-white transition-colors"
+          >
+            {t('settings.save')}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,98 @@
+import { useEffect, useId, useRef, useState } from 'react';
+import { Check, Copy, Download, Loader2, Share2, X } from 'lucide-react';
+import { useFocusTrap } from '../a11y/useFocusTrap';
+import { createDeckFile, deckFileName } from '../decks/deckFile';
+import { useI18n } from '../i18n/context';
+import { createDeckShare, type DeckShare } from '../share/shareLink';
+import type { Item } from '../types';
+import { downloadBlob } from '../utils/download';
+import QrCode from './QrCode';
+
+interface ShareDeckModalProps {
+  deckName: string;
+  items: Item[];
+  onClose: () => void;
+}
+
+export default function ShareDeckModal({ deckName, items, onClose }: ShareDeckModalProps) {
+  const { t } = useI18n();
+  const panelRef = useRef<HTMLDivElement>(null);
+  const titleId = useId();
+  const [share, setShare] = useState<DeckShare | null>(null);
+  const [failed, setFailed] = useState(false);
+  const [copied, setCopied] = useState(false);
+  useFocusTrap(panelRef, onClose);
+
+  // 打开时的物品生成一次就够了，期间改动不影响已经生成的链接
+  useEffect(() => {
+    let cancelled = false;
+    createDeckShare(deckName, items, `${window.location.origin}${window.location.pathname}`)
+      .then(result => { if (!cancelled) setShare(result); })
+      .catch(e => {
+        console.error("Failed to create share link:", e);
+        if (!cancelled) setFailed(true);
+      });
+    return () => { cancelled = true; };
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []);
+
+  const copyLink = async () => {
+    if (!share) return;
+    try {
+      await navigator.clipboard.writeText(share.link);
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    } catch (e) {
+      console.error("Failed to copy share link:", e);
+    }
+  };
+
+  return (
+    <div className="z-[100] fixed inset-0 flex justify-center items-center bg-orange-900/40 backdrop-blur-md p-6">
+      <div ref={panelRef} role="dialog" aria-modal="true" aria-labelledby={titleId} tabIndex={-1} className="relative bg-white shadow-2xl p-8 rounded-[2rem] w-full max-w-sm max-h-full overflow-y-auto outline-none">
+        <div className="flex justify-between items-center mb-6">
+          <h3 id={titleId} className="flex items-center gap-2 font-black text-orange-950 text-xl"><Share2 className="text-orange-500" size={20} /> {t('share.title', { name: deckName })}</h3>
+          <button onClick={onClose} aria-label={t('app.close')} className="bg-orange-50 p-2 rounded-full text-orange-500"><X size={20} /></button>
+        </div>
+
+        {failed ? (
+          <p className="py-8 font-bold text-red-500 text-sm text-center">{t('share.failed')}</p>
+        ) : !share ? (
+          <div role="status" className="flex flex-col items-center gap-2 py-8 font-bold text-orange-400 text-xs">
+            <Loader2 className="animate-spin" size={32} /> {t('share.preparing')}
+          </div>
+        ) : (
+          <div className="space-y-4">
+            {share.qrLink ? (
+              <div className="space-y-2">
+                <div className="bg-orange-50 p-2 rounded-2xl w-full">
+                  <QrCode value={share.qrLink} label={t('share.qrLabel')} />
+                </div>
+                <p className="text-orange-400 text-xs text-center">
+                  {share.qrItemCount < share.items.length
+                    ? t('share.qrPartial', { count: share.qrItemCount, total: share.items.length })
+                    : share.qrLink === share.link ? t('share.qrHint') : t('share.qrSmaller')}
+                </p>
+              </div>
+            ) : (
+              <p className="bg-orange-50 p-4 rounded-2xl text-orange-700 text-xs leading-relaxed">{t('share.qrTooLarge')}</p>
+            )}
+            <button
+              onClick={copyLink}
+              className="flex justify-center items-center gap-2 bg-orange-500 hover:bg-orange-600 shadow-lg py-4 rounded-2xl w-full font-bold text-white active:scale-95 transition-all"
+            >
+              {copied ? <Check size={18} /> : <Copy size={18} />} {copied ? t('share.copied') : t('share.copyLink')}
+            </button>
+            <button
+              onClick={() => downloadBlob(createDeckFile(deckName, share.items), deckFileName(deckName))}
+              className="flex justify-center items-center gap-2 bg-orange-50 hover:bg-orange-100 py-4 rounded-2xl w-full font-bold text-orange-500 transition-colors"
+            >
+              <Download size={18} /> {t('share.download')}
+            </button>
+            <p className="text-orange-300 text-[10px] text-center">{t('share.privacy')}</p>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,67 @@
+import { useId, useRef } from 'react';
+import { FolderPlus, Merge, PackageOpen, X } from 'lucide-react';
+import { useFocusTrap } from '../a11y/useFocusTrap';
+import { itemName } from '../i18n';
+import { useI18n } from '../i18n/context';
+import type { SharedDeck } from '../share/shareLink';
+
+interface SharedDeckModalProps {
+  deck: SharedDeck;
+  // 当前物品组里已有、合并时会跳过的物品数
+  duplicateCount: number;
+  // 本地存储不可用时不能新建物品组
+  canCreateDeck: boolean;
+  onImport: () => void;
+  onMerge: () => void;
+  onClose: () => void;
+}
+
+export default function SharedDeckModal({ deck, duplicateCount, canCreateDeck, onImport, onMerge, onClose }: SharedDeckModalProps) {
+  const { locale, t } = useI18n();
+  const panelRef = useRef<HTMLDivElement>(null);
+  const titleId = useId();
+  useFocusTrap(panelRef, onClose);
+
+  return (
+    <div className="z-[100] fixed inset-0 flex justify-center items-center bg-orange-900/40 backdrop-blur-md p-6">
+      <div ref={panelRef} role="dialog" aria-modal="true" aria-labelledby={titleId} tabIndex={-1} className="relative bg-white shadow-2xl p-8 rounded-[2rem] w-full max-w-md max-h-full overflow-y-auto outline-none">
+        <div className="flex justify-between items-center mb-2">
+          <h3 id={titleId} className="flex items-center gap-2 font-black text-orange-950 text-xl"><PackageOpen className="text-orange-500" size={20} /> {t('shared.title')}</h3>
+          <button onClick={onClose} aria-label={t('app.close')} className="bg-orange-50 p-2 rounded-full text-orange-500"><X size={20} /></button>
+        </div>
+        <p className="mb-6 font-bold text-orange-400 text-sm">{t('shared.summary', { name: deck.name, count: deck.items.length })}</p>
+
+        <ul className="gap-3 grid grid-cols-4 mb-6">
+          {deck.items.map(item => (
+            <li key={item.id} className="flex flex-col items-center gap-1 min-w-0">
+              <div className="flex justify-center items-center bg-orange-50/50 p-1 rounded-xl w-full aspect-square overflow-hidden">
+                <img src={item.image} alt="" className="w-full h-full object-contain" />
+              </div>
+              <span className="w-full font-bold text-[10px] text-orange-900 text-center truncate">{itemName(item, locale)}</span>
+            </li>
+          ))}
+        </ul>
+
+        <div className="space-y-3">
+          <button
+            onClick={onImport}
+            disabled={!canCreateDeck}
+            className="flex justify-center items-center gap-2 bg-orange-500 hover:bg-orange-600 disabled:bg-gray-100 shadow-lg py-4 rounded-2xl w-full font-bold text-white disabled:text-gray-400 active:scale-95 transition-all"
+          >
+            <FolderPlus size={18} /> {t('shared.import')}
+          </button>
+          <button
+            onClick={onMerge}
+            disabled={duplicateCount === deck.items.length}
+            className="flex justify-center items-center gap-2 bg-orange-50 hover:bg-orange-100 disabled:opacity-50 py-4 rounded-2xl w-full font-bold text-orange-500 transition-colors"
+          >
+            <Merge size={18} /> {t('shared.merge')}
+          </button>
+          {duplicateCount > 0 && (
+            <p className="text-orange-300 text-xs text-center">{t('shared.duplicates', { count: duplicateCount })}</p>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
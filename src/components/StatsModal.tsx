@@ -0,0 +1,163 @@
+import { useEffect, useId, useRef, useState } from 'react';
+import { BarChart3, Download, Flame, Loader2, Target, Trophy, X } from 'lucide-react';
+import { useFocusTrap } from '../a11y/useFocusTrap';
+import type { GameMode } from '../game/engine';
+import { historyToCsv } from '../history/csv';
+import { computeStats } from '../history/stats';
+import { useI18n } from '../i18n/context';
+import type { HistoryEntry } from '../history/types';
+import type { DeckInfo } from '../storage/deckStore';
+import { listHistory } from '../storage/historyStore';
+import { downloadBlob } from '../utils/download';
+
+interface StatsModalProps {
+  score: number;
+  decks: DeckInfo[];
+  onClose: () => void;
+}
+
+const percent = (value: number) => `${Math.round(value * 100)}%`;
+
+const MODES: GameMode[] = ['classic', 'reverse'];
+
+export default function StatsModal({ score, decks, onClose }: StatsModalProps) {
+  const { t } = useI18n();
+  const [entries, setEntries] = useState<HistoryEntry[] | null>(null);
+  const [loadFailed, setLoadFailed] = useState(false);
+  // 两种玩法的猜中率含义不同，分开显示
+  const [mode, setMode] = useState<GameMode>('classic');
+  const panelRef = useRef<HTMLDivElement>(null);
+  const titleId = useId();
+  useFocusTrap(panelRef, onClose);
+
+  useEffect(() => {
+    listHistory()
+      .then(setEntries)
+      .catch(e => {
+        console.error("Failed to load history:", e);
+        setLoadFailed(true);
+      });
+  }, []);
+
+  const stats = entries ? computeStats(entries) : null;
+  const modeStats = stats?.[mode];
+  const maxPerDay = stats ? Math.max(1, ...stats.roundsPerDay.map(d => d.rounds)) : 1;
+
+  const exportCsv = () => {
+    if (!entries) return;
+    const deckNames = Object.fromEntries(decks.map(deck => [deck.id, deck.name]));
+    const blob = new Blob([historyToCsv(entries, deckNames)], { type: 'text/csv;charset=utf-8' });
+    downloadBlob(blob, `cat-guess-history-${new Date().toISOString().slice(0, 10)}.csv`);
+  };
+
+  return (
+    <div className="z-[110] fixed inset-0 flex justify-center items-center bg-orange-900/40 backdrop-blur-md p-6">
+      <div ref={panelRef} role="dialog" aria-modal="true" aria-labelledby={titleId} tabIndex={-1} className="relative bg-white shadow-2xl p-8 rounded-[2rem] w-full max-w-md max-h-full overflow-y-auto outline-none">
+        <div className="flex justify-between items-center mb-6">
+          <h3 id={titleId} className="flex items-center gap-2 font-black text-orange-950 text-xl"><BarChart3 className="text-orange-500" size={20} /> {t('stats.title')}</h3>
+          <button onClick={onClose} aria-label={t('app.close')} className="bg-orange-50 p-2 rounded-full text-orange-500"><X size={20} /></button>
+        </div>
+
+        {loadFailed ? (
+          <p className="py-8 font-bold text-red-500 text-sm text-center">{t('stats.loadFailed')}</p>
+        ) : !stats || !modeStats ? (
+          <div role="status" className="flex justify-center py-8"><Loader2 className="text-orange-400 animate-spin" size={32} /></div>
+        ) : (
+          <div className="space-y-6">
+            <div role="group" aria-label={t('stats.byMode')} className="flex gap-2 bg-orange-50 p-1 rounded-2xl">
+              {MODES.map(m => (
+                <button
+                  key={m}
+                  onClick={() => setMode(m)}
+                  aria-pressed={mode === m}
+                  className={`flex-1 py-2 rounded-xl font-bold text-sm transition-colors ${mode === m ? 'bg-white text-orange-900 shadow-sm' : 'text-orange-400'}`}
+                >
+                  {t(`mode.${m}` as const)}
+                </button>
+              ))}
+            </div>
+
+            <div className="gap-3 grid grid-cols-3 text-center">
+              <div className="bg-orange-50 p-3 rounded-2xl">
+                <Trophy className="mx-auto mb-1 text-orange-400" size={16} />
+                <p className="font-black text-orange-900 text-xl">{score}</p>
+                <p className="font-bold text-orange-400 text-xs">{t('stats.score')}</p>
+              </div>
+              <div className="bg-orange-50 p-3 rounded-2xl">
+                <Target className="mx-auto mb-1 text-orange-400" size={16} />
+                <p className="font-black text-orange-900 text-xl">{percent(modeStats.successRate)}</p>
+                <p className="font-bold text-orange-400 text-xs">{t('stats.successRate', { count: modeStats.totalRounds })}</p>
+              </div>
+              <div className="bg-orange-50 p-3 rounded-2xl">
+                <Flame className="mx-auto mb-1 text-orange-400" size={16} />
+                <p className="font-black text-orange-900 text-xl">{modeStats.longestStreak}</p>
+                <p className="font-bold text-orange-400 text-xs">{t('stats.longestStreak')}</p>
+              </div>
+            </div>
+
+            <section className="space-y-2">
+              <h4 className="font-bold text-orange-400 text-xs">{t('stats.lastDays', { days: stats.roundsPerDay.length })}</h4>
+              <div className="flex items-end gap-2 h-24">
+                {stats.roundsPerDay.map(({ day, rounds }) => (
+                  <div key={day} className="flex flex-col flex-1 justify-end items-center gap-1 h-full">
+                    <span className="font-bold text-orange-400 text-[10px]">{rounds || ''}</span>
+                    <div className="bg-orange-400 rounded-t-lg w-full" style={{ height: `${(rounds / maxPerDay) * 100}%`, minHeight: 2 }} />
+                    <span className="text-[10px] text-orange-300">{day.slice(5)}</span>
+                  </div>
+                ))}
+              </div>
+            </section>
+
+            {mode === 'classic' && stats.mostPicked.length > 0 && (
+              <section className="space-y-2">
+                <h4 className="font-bold text-orange-400 text-xs">{t('stats.mostPicked')}</h4>
+                <ol className="space-y-1">
+                  {stats.mostPicked.map((item, index) => (
+                    <li key={item.itemId} className="flex justify-between bg-orange-50/50 px-3 py-2 rounded-xl font-bold text-orange-900 text-sm">
+                      <span>{index + 1}. {item.name}</span><span className="text-orange-400">{t('stats.times', { count: item.rounds })}</span>
+                    </li>
+                  ))}
+                </ol>
+              </section>
+            )}
+
+            {modeStats.perItem.length > 0 && (
+              <section className="space-y-2">
+                <h4 className="font-bold text-orange-400 text-xs">{t('stats.perItem')}</h4>
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="text-orange-300 text-xs text-left"><th className="py-1">{t('stats.item')}</th><th>{t('stats.rounds')}</th><th>{t('stats.successes')}</th><th className="text-right">{t('stats.rate')}</th></tr>
+                  </thead>
+                  <tbody>
+                    {modeStats.perItem.map(item => (
+                      <tr key={item.itemId} className="border-orange-50 border-t font-bold text-orange-900">
+                        <td className="py-1.5 max-w-[8rem] truncate">{item.name}</td>
+                        <td>{item.rounds}</td>
+                        <td>{item.successes}</td>
+                        <td className="text-right">{percent(item.successRate)}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </section>
+            )}
+
+            {stats.totalRounds === 0 ? (
+              <p className="py-4 font-bold text-orange-300 text-sm text-center">{t('stats.empty')}</p>
+            ) : modeStats.totalRounds === 0 && (
+              <p className="py-4 font-bold text-orange-300 text-sm text-center">{t('stats.emptyMode')}</p>
+            )}
+
+            <button
+              onClick={exportCsv}
+              disabled={stats.totalRounds === 0}
+              className="flex justify-center items-center gap-2 bg-orange-950 hover:bg-black disabled:bg-gray-100 py-4 rounded-2xl w-full font-bold text-white disabled:text-gray-400 transition-colors"
+            >
+              <Download size={18} /> {t('stats.exportCsv')}
+            </button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,21 @@
+import { Undo2, X } from 'lucide-react';
+import { useI18n } from '../i18n/context';
+
+interface UndoToastProps {
+  message: string;
+  onUndo: () => void;
+  onDismiss: () => void;
+}
+
+export default function UndoToast({ message, onUndo, onDismiss }: UndoToastProps) {
+  const { t } = useI18n();
+  return (
+    <div role="status" className="bottom-6 left-1/2 z-[90] fixed flex items-center gap-3 bg-orange-950 shadow-2xl py-2 pr-2 pl-5 rounded-full text-white text-sm -translate-x-1/2">
+      <span className="font-bold">{message}</span>
+      <button onClick={onUndo} className="flex items-center gap-1 bg-white/10 hover:bg-white/20 px-3 py-1.5 rounded-full font-bold text-orange-200 transition-colors">
+        <Undo2 size={14} /> {t('undo.action')}
+      </button>
+      <button onClick={onDismiss} aria-label={t('app.close')} className="hover:bg-white/10 p-1.5 rounded-full text-white/60"><X size={14} /></button>
+    </div>
+  );
+}
@@ -0,0 +1,20 @@
+import { RefreshCw, X } from 'lucide-react';
+import { useI18n } from '../i18n/context';
+
+interface UpdatePromptProps {
+  onUpdate: () => void;
+  onDismiss: () => void;
+}
+
+export default function UpdatePrompt({ onUpdate, onDismiss }: UpdatePromptProps) {
+  const { t } = useI18n();
+  return (
+    <div role="status" className="top-20 right-4 z-[90] fixed flex items-center gap-3 bg-orange-950 shadow-2xl py-2 pr-2 pl-5 rounded-full text-white text-sm">
+      <span className="font-bold">{t('update.available')}</span>
+      <button onClick={onUpdate} className="flex items-center gap-1 bg-white/10 hover:bg-white/20 px-3 py-1.5 rounded-full font-bold text-orange-200 transition-colors">
+        <RefreshCw size={14} /> {t('update.reload')}
+      </button>
+      <button onClick={onDismiss} aria-label={t('app.close')} className="hover:bg-white/10 p-1.5 rounded-full text-white/60"><X size={14} /></button>
+    </div>
+  );
+}
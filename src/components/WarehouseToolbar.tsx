@@ -0,0 +1,111 @@
+import { useState } from 'react';
+import { CheckSquare, Search, Tag, Trash2, X } from 'lucide-react';
+import { normalizeTag } from '../decks/itemFilter';
+import { tagLabel } from '../i18n';
+import { useI18n } from '../i18n/context';
+
+interface WarehouseToolbarProps {
+  query: string;
+  onQueryChange: (query: string) => void;
+  tags: string[];
+  activeTag: string | null;
+  onTagChange: (tag: string | null) => void;
+  selecting: boolean;
+  // 游戏进行中不能多选
+  canSelect: boolean;
+  onToggleSelecting: () => void;
+  selectedCount: number;
+  onSelectAll: () => void;
+  onBulkDelete: () => void;
+  onBulkAddTag: (tag: string) => void;
+  onBulkRemoveTag: (tag: string) => void;
+}
+
+const chipClass = 'px-3 py-1 rounded-full font-bold text-xs transition-colors whitespace-nowrap';
+
+export default function WarehouseToolbar({
+  query, onQueryChange, tags, activeTag, onTagChange, selecting, canSelect, onToggleSelecting,
+  selectedCount, onSelectAll, onBulkDelete, onBulkAddTag, onBulkRemoveTag,
+}: WarehouseToolbarProps) {
+  const { locale, t } = useI18n();
+  const [bulkTag, setBulkTag] = useState('');
+  const tag = normalizeTag(bulkTag);
+
+  return (
+    <div className="space-y-3 mb-2 px-4">
+      <div className="flex gap-2">
+        <label className="flex flex-1 items-center gap-2 bg-white shadow-sm px-4 py-2 border border-orange-100 rounded-2xl">
+          <Search size={16} className="text-orange-300 shrink-0" />
+          <input
+            type="search"
+            value={query}
+            onChange={(e) => onQueryChange(e.target.value)}
+            placeholder={t('warehouse.search')}
+            aria-label={t('warehouse.search')}
+            className="flex-1 bg-transparent outline-none min-w-0 font-bold text-orange-900 text-sm"
+          />
+          {query && (
+            <button onClick={() => onQueryChange('')} aria-label={t('warehouse.clearSearch')} className="text-orange-300 hover:text-orange-500"><X size={14} /></button>
+          )}
+        </label>
+        <button
+          onClick={onToggleSelecting}
+          disabled={!canSelect && !selecting}
+          aria-pressed={selecting}
+          className={`flex items-center gap-1 px-3 rounded-2xl font-bold text-xs transition-colors disabled:opacity-50 ${selecting ? 'bg-orange-500 text-white' : 'bg-white text-orange-500 border border-orange-100 shadow-sm hover:bg-orange-50'}`}
+        >
+          <CheckSquare size={16} /> <span className="hidden sm:inline">{selecting ? t('warehouse.doneSelecting') : t('warehouse.select')}</span>
+        </button>
+      </div>
+
+      {tags.length > 0 && (
+        <div className="flex gap-2 pb-1 overflow-x-auto scrollbar-hide" role="group" aria-label={t('warehouse.tagFilter')}>
+          <button onClick={() => onTagChange(null)} aria-pressed={activeTag === null} className={`${chipClass} ${activeTag === null ? 'bg-orange-500 text-white' : 'bg-white text-orange-400 hover:bg-orange-50'}`}>
+            {t('warehouse.allTags')}
+          </button>
+          {tags.map(tag => (
+            <button
+              key={tag}
+              onClick={() => onTagChange(activeTag === tag ? null : tag)}
+              aria-pressed={activeTag === tag}
+              className={`${chipClass} ${activeTag === tag ? 'bg-orange-500 text-white' : 'bg-white text-orange-400 hover:bg-orange-50'}`}
+            >
+              {tagLabel(tag, locale)}
+            </button>
+          ))}
+        </div>
+      )}
+
+      {selecting && (
+        <div className="flex flex-wrap items-center gap-2 bg-orange-100/60 p-3 rounded-2xl">
+          <span className="font-bold text-orange-800 text-xs" aria-live="polite">{t('warehouse.selected', { count: selectedCount })}</span>
+          <button onClick={onSelectAll} className="font-bold text-orange-500 hover:text-orange-700 text-xs">{t('warehouse.selectAll')}</button>
+          <div className="flex flex-1 items-center gap-1 bg-white px-2 py-1 rounded-xl min-w-[10rem]">
+            <Tag size={14} className="text-orange-300 shrink-0" />
+            <input
+              type="text"
+              value={bulkTag}
+              onChange={(e) => setBulkTag(e.target.value)}
+              placeholder={t('edit.tagPlaceholder')}
+              aria-label={t('warehouse.bulkTag')}
+              className="flex-1 bg-transparent outline-none min-w-0 font-bold text-xs"
+            />
+            <button onClick={() => { onBulkAddTag(tag); setBulkTag(''); }} disabled={!tag || selectedCount === 0} className="disabled:opacity-30 px-1 font-bold text-orange-500 text-xs">
+              {t('warehouse.addTag')}
+            </button>
+            <button onClick={() => { onBulkRemoveTag(tag); setBulkTag(''); }} disabled={!tag || selectedCount === 0} className="disabled:opacity-30 px-1 font-bold text-orange-400 text-xs">
+              {t('warehouse.removeTag')}
+            </button>
+          </div>
+          <button
+            onClick={onBulkDelete}
+            disabled={selectedCount === 0}
+            className="flex items-center gap-1 bg-red-500 hover:bg-red-600 disabled:opacity-40 px-3 py-1.5 rounded-xl font-bold text-white text-xs transition-colors"
+          >
+            <Trash2 size={14} /> {t('warehouse.deleteSelected')}
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,69 @@
+import type { Item } from '../types';
+
+// --- 物品组文件导入导出 ---
+// 导出的 JSON 文件自带图片（data URL），可以直接在另一台设备上导入。
+
+const DECK_FILE_FORMAT = 'cat-guess-deck';
+const DECK_FILE_VERSION = 1;
+export const MAX_NAME_LENGTH = 20;
+
+export interface DeckFile {
+  format: typeof DECK_FILE_FORMAT;
+  version: number;
+  name: string;
+  exportedAt: string;
+  items: Item[];
+}
+
+const isNames = (value: unknown): value is Record<string, string> =>
+  !!value && typeof value === 'object' && !Array.isArray(value)
+  && Object.values(value).every(name => typeof name === 'string' && name.length <= MAX_NAME_LENGTH);
+
+const isTags = (value: unknown): value is string[] =>
+  Array.isArray(value) && value.every(tag => typeof tag === 'string' && tag.length > 0 && tag.length <= MAX_NAME_LENGTH);
+
+export const isItem = (value: unknown): value is Item => {
+  if (!value || typeof value !== 'object') return false;
+  const item = value as Record<string, unknown>;
+  return typeof item.id === 'string' && item.id.length > 0
+    && typeof item.name === 'string' && item.name.trim().length > 0 && item.name.length <= MAX_NAME_LENGTH
+    && typeof item.image === 'string' && item.image.startsWith('data:image/')
+    && (item.names === undefined || isNames(item.names))
+    && (item.tags === undefined || isTags(item.tags));
+};
+
+export const createDeckFile = (name: string, items: Item[]): Blob => {
+  const file: DeckFile = {
+    format: DECK_FILE_FORMAT,
+    version: DECK_FILE_VERSION,
+    name,
+    exportedAt: new Date().toISOString(),
+    items: items.map(({ id, name, names, image, tags }) => ({ id, name, names, image, tags })),
+  };
+  return new Blob([JSON.stringify(file)], { type: 'application/json' });
+};
+
+// 下载用的文件名：各个系统文件名里不允许的字符换成 _，名字为空时用 deck
+export const deckFileName = (name: string) => {
+  const safe = [...name].map(ch => ch < ' ' || '\\/:*?"<>|'.includes(ch) ? '_' : ch).join('').replace(/^[\s.]+|[\s.]+$/g, '');
+  return `${safe || 'deck'}.cat-deck.json`;
+};
+
+// 解析并校验物品组文件；格式不对时抛出 INVALID_DECK_FILE
+export const parseDeckFile = (text: string, fallbackName: string): { name: string; items: Item[] } => {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error('INVALID_DECK_FILE');
+  }
+  const file = data as Partial<DeckFile> | null;
+  if (!file || file.format !== DECK_FILE_FORMAT || typeof file.version !== 'number' || file.version > DECK_FILE_VERSION) {
+    throw new Error('INVALID_DECK_FILE');
+  }
+  if (!Array.isArray(file.items) || file.items.length === 0 || !file.items.every(isItem)) {
+    throw new Error('INVALID_DECK_FILE');
+  }
+  const name = typeof file.name === 'string' && file.name.trim() ? file.name.trim().slice(0, MAX_NAME_LENGTH) : fallbackName;
+  return { name, items: file.items.map(({ id, name, names, image, tags }) => ({ id, name: name.trim(), names, image, tags })) };
+};
@@ -0,0 +1,30 @@
+import { tagLabel, type Locale } from '../i18n';
+import type { Item } from '../types';
+
+// --- 仓库搜索和标签筛选 ---
+
+export const MAX_TAG_LENGTH = 20;
+
+export const normalizeTag = (tag: string): string => tag.trim().slice(0, MAX_TAG_LENGTH);
+
+// 物品组里出现过的所有标签，按出现次数从多到少
+export const collectTags = (items: Item[]): string[] => {
+  const counts = new Map<string, number>();
+  items.forEach(item => item.tags?.forEach(tag => counts.set(tag, (counts.get(tag) ?? 0) + 1)));
+  return [...counts.entries()].sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0])).map(([tag]) => tag);
+};
+
+// 名字（任意语言）或标签文字包含关键字，并且带有选中的标签
+export const matchesItem = (item: Item, query: string, tag: string | null, locale: Locale): boolean => {
+  if (tag && !item.tags?.includes(tag)) return false;
+  const keyword = query.trim().toLowerCase();
+  if (!keyword) return true;
+  const texts = [item.name, ...Object.values(item.names ?? {}), ...(item.tags ?? []).map(t => tagLabel(t, locale))];
+  return texts.some(text => text.toLowerCase().includes(keyword));
+};
+
+export const addTag = (item: Item, tag: string): Item =>
+  item.tags?.includes(tag) ? item : { ...item, tags: [...(item.tags ?? []), tag] };
+
+export const removeTag = (item: Item, tag: string): Item =>
+  item.tags?.includes(tag) ? { ...item, tags: item.tags.filter(t => t !== tag) } : item;
@@ -0,0 +1,50 @@
+import type { Item } from '../types';
+
+// --- 内置物品 ---
+// 用简单的 SVG 画出来，不需要额外下载图片。
+
+const svg = (body: string) => `data:image/svg+xml;utf8,<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 100 100">${body}</svg>`;
+
+export const DEFAULT_ITEMS: Item[] = [
+  {
+    id: 'default_1',
+    name: '纸巾',
+    names: { zh: '纸巾', en: 'Tissue' },
+    tags: ['soft', 'white', 'home'],
+    image: svg('<rect x="20" y="40" width="60" height="40" fill="%23eee" stroke="%23ccc" stroke-width="2"/><path d="M30 40 Q50 10 70 40" fill="%23fff" stroke="%23ddd"/>')
+  },
+  {
+    id: 'default_2',
+    name: '萝卜',
+    names: { zh: '萝卜', en: 'Carrot' },
+    tags: ['food', 'orange', 'vegetable'],
+    image: svg('<path d="M50 90 Q20 40 50 40 Q80 40 50 90" fill="orange"/><path d="M50 40 L40 10 M50 40 L50 5 M50 40 L60 10" stroke="green" stroke-width="3"/>')
+  }
+];
+
+// 物品组名称按 id 从文案里取（deck.starter.*）
+export interface StarterDeck {
+  id: 'kitchen' | 'toys';
+  items: Item[];
+}
+
+export const STARTER_DECKS: StarterDeck[] = [
+  {
+    id: 'kitchen',
+    items: [
+      { id: 'kitchen_1', name: '碗', names: { zh: '碗', en: 'Bowl' }, tags: ['kitchen', 'blue', 'round'], image: svg('<path d="M15 45 H85 Q85 85 50 85 Q15 85 15 45 Z" fill="%2360a5fa" stroke="%231e3a8a" stroke-width="2"/><ellipse cx="50" cy="45" rx="35" ry="6" fill="%23bfdbfe" stroke="%231e3a8a" stroke-width="2"/>') },
+      { id: 'kitchen_2', name: '勺子', names: { zh: '勺子', en: 'Spoon' }, tags: ['kitchen', 'metal', 'long'], image: svg('<ellipse cx="50" cy="28" rx="14" ry="18" fill="%23d1d5db" stroke="%236b7280" stroke-width="2"/><rect x="46" y="44" width="8" height="46" rx="4" fill="%23d1d5db" stroke="%236b7280" stroke-width="2"/>') },
+      { id: 'kitchen_3', name: '杯子', names: { zh: '杯子', en: 'Cup' }, tags: ['kitchen', 'pink', 'drink'], image: svg('<rect x="25" y="25" width="40" height="55" rx="6" fill="%23f472b6" stroke="%239d174d" stroke-width="2"/><path d="M65 38 Q85 38 85 52 Q85 66 65 66" fill="none" stroke="%239d174d" stroke-width="5"/>') },
+      { id: 'kitchen_4', name: '苹果', names: { zh: '苹果', en: 'Apple' }, tags: ['food', 'red', 'round', 'fruit'], image: svg('<path d="M50 30 Q20 15 18 50 Q20 90 50 85 Q80 90 82 50 Q80 15 50 30 Z" fill="%23ef4444" stroke="%237f1d1d" stroke-width="2"/><path d="M50 30 Q52 15 60 8" stroke="%2378350f" stroke-width="3" fill="none"/><path d="M55 20 Q70 10 75 22 Q62 28 55 20 Z" fill="%2322c55e"/>') },
+    ],
+  },
+  {
+    id: 'toys',
+    items: [
+      { id: 'toys_1', name: '皮球', names: { zh: '皮球', en: 'Ball' }, tags: ['toy', 'yellow', 'round'], image: svg('<circle cx="50" cy="50" r="35" fill="%23facc15" stroke="%23854d0e" stroke-width="2"/><path d="M15 50 H85 M50 15 Q30 50 50 85 M50 15 Q70 50 50 85" stroke="%23ef4444" stroke-width="4" fill="none"/>') },
+      { id: 'toys_2', name: '积木', names: { zh: '积木', en: 'Blocks' }, tags: ['toy', 'blue', 'square'], image: svg('<rect x="15" y="55" width="35" height="30" fill="%233b82f6" stroke="%231e3a8a" stroke-width="2"/><rect x="50" y="55" width="35" height="30" fill="%2322c55e" stroke="%23166534" stroke-width="2"/><path d="M30 55 L50 20 L70 55 Z" fill="%23ef4444" stroke="%237f1d1d" stroke-width="2"/>') },
+      { id: 'toys_3', name: '小鸭', names: { zh: '小鸭', en: 'Duck' }, tags: ['toy', 'yellow', 'animal'], image: svg('<ellipse cx="50" cy="65" rx="32" ry="20" fill="%23fde047" stroke="%23a16207" stroke-width="2"/><circle cx="38" cy="38" r="16" fill="%23fde047" stroke="%23a16207" stroke-width="2"/><path d="M22 38 L10 42 L22 46 Z" fill="orange"/><circle cx="34" cy="34" r="3" fill="%23333"/>') },
+      { id: 'toys_4', name: '风筝', names: { zh: '风筝', en: 'Kite' }, tags: ['toy', 'purple', 'outdoor'], image: svg('<path d="M50 10 L80 45 L50 70 L20 45 Z" fill="%23a855f7" stroke="%234c1d95" stroke-width="2"/><path d="M50 70 Q40 80 50 88 Q60 95 52 100" stroke="%234c1d95" stroke-width="2" fill="none"/>') },
+    ],
+  },
+];
@@ -0,0 +1,180 @@
+import { useEffect, useRef, useState } from 'react';
+import { useI18n } from '../i18n/context';
+import { createDeckStore, type DeckInfo } from '../storage/deckStore';
+import type { Item } from '../types';
+import { downloadBlob } from '../utils/download';
+import { createId } from '../utils/id';
+import { createDeckFile, deckFileName, parseDeckFile } from './deckFile';
+import { DEFAULT_ITEMS, STARTER_DECKS } from './starterDecks';
+
+// --- 物品组状态与持久化 ---
+
+export type StorageState = 'loading' | 'ready' | 'failed';
+
+const deckStore = createDeckStore();
+
+const storageErrorKey = (e: unknown) =>
+  e instanceof Error && e.message === 'QUOTA_EXCEEDED' ? 'error.quotaExceeded' as const : 'error.saveFailed' as const;
+
+interface UseDecksOptions {
+  items: Item[];
+  replaceItems: (items: Item[]) => void;
+  onError: (message: string) => void;
+}
+
+export const useDecks = ({ items, replaceItems, onError }: UseDecksOptions) => {
+  const [storageState, setStorageState] = useState<StorageState>('loading');
+  const [decks, setDecks] = useState<DeckInfo[]>([]);
+  const [activeDeckId, setActiveDeckId] = useState<string>('');
+  // 当前 items 属于哪个物品组；切换物品组时先更新它再替换物品，保存时就不会写错地方
+  const itemsDeckRef = useRef<string | null>(null);
+  const { t } = useI18n();
+  // 切换语言不应该重新加载物品，副作用里通过 ref 取最新的翻译函数
+  const tRef = useRef(t);
+
+  useEffect(() => {
+    tRef.current = t;
+  }, [t]);
+
+  const flashError = (message: string) => {
+    onError(message);
+    setTimeout(() => onError(''), 5000);
+  };
+
+  useEffect(() => {
+    let cancelled = false;
+    deckStore.bootstrap(DEFAULT_ITEMS, tRef.current('deck.defaultName'))
+      .then(({ decks: loadedDecks, activeDeckId: loadedId, items: loaded }) => {
+        if (cancelled) return;
+        itemsDeckRef.current = loadedId;
+        setDecks(loadedDecks);
+        setActiveDeckId(loadedId);
+        replaceItems(loaded);
+        setStorageState('ready');
+      })
+      .catch(e => {
+        if (cancelled) return;
+        console.error("Failed to load items from storage:", e);
+        replaceItems(DEFAULT_ITEMS);
+        setStorageState('failed');
+        onError(tRef.current('error.storageUnavailable'));
+        setTimeout(() => onError(''), 5000);
+      });
+    return () => { cancelled = true; };
+  }, [replaceItems, onError]);
+
+  useEffect(() => {
+    const deckId = itemsDeckRef.current;
+    if (storageState !== 'ready' || !deckId) return;
+    deckStore.saveItems(deckId, items)
+      .then(() => setDecks(prev => prev.map(deck => deck.id === deckId ? { ...deck, itemCount: items.length } : deck)))
+      .catch(e => {
+        console.error("Failed to save items to storage:", e);
+        onError(tRef.current(storageErrorKey(e)));
+        setTimeout(() => onError(''), 5000);
+      });
+  }, [items, storageState, onError]);
+
+  const refreshDecks = async () => setDecks(await deckStore.listDecks());
+
+  // 返回切换后打开的是不是这个物品组；失败时已经提示过用户
+  const switchDeck = async (deckId: string): Promise<boolean> => {
+    if (deckId === itemsDeckRef.current) return true;
+    if (storageState !== 'ready') return false;
+    try {
+      const loaded = await deckStore.loadItems(deckId);
+      await deckStore.setActiveDeck(deckId);
+      itemsDeckRef.current = deckId;
+      setActiveDeckId(deckId);
+      replaceItems(loaded);
+      return true;
+    } catch (e) {
+      console.error("Failed to switch deck:", e);
+      flashError(t('error.deckOpenFailed'));
+      return false;
+    }
+  };
+
+  // 新建物品组并切换过去
+  const addDeck = async (name: string, deckItems: Item[]) => {
+    if (storageState !== 'ready') return;
+    try {
+      const deck = await deckStore.createDeck(name, deckItems);
+      await refreshDecks();
+      await switchDeck(deck.id);
+    } catch (e) {
+      console.error("Failed to create deck:", e);
+      flashError(t(storageErrorKey(e)));
+    }
+  };
+
+  const createDeck = (name: string, starterId?: string) => {
+    const starter = STARTER_DECKS.find(deck => deck.id === starterId);
+    return addDeck(name, starter ? starter.items : []);
+  };
+
+  const duplicateDeck = async (deckId: string) => {
+    const source = decks.find(deck => deck.id === deckId);
+    if (!source) return;
+    let sourceItems: Item[];
+    try {
+      sourceItems = deckId === itemsDeckRef.current ? items : await deckStore.loadItems(deckId);
+    } catch (e) {
+      console.error("Failed to load deck for duplicating:", e);
+      flashError(t(storageErrorKey(e)));
+      return;
+    }
+    await addDeck(t('deck.copyName', { name: source.name }), sourceItems.map(item => ({ ...item, id: createId() })));
+  };
+
+  const renameDeck = async (deckId: string, name: string) => {
+    try {
+      await deckStore.renameDeck(deckId, name);
+      await refreshDecks();
+    } catch (e) {
+      console.error("Failed to rename deck:", e);
+      flashError(t(storageErrorKey(e)));
+    }
+  };
+
+  const deleteDeck = async (deckId: string) => {
+    const next = decks.find(deck => deck.id !== deckId);
+    if (!next) return;
+    try {
+      // 没能切换到别的物品组时不能删除正在打开的这个
+      if (deckId === itemsDeckRef.current && !await switchDeck(next.id)) return;
+      await deckStore.deleteDeck(deckId);
+      await refreshDecks();
+    } catch (e) {
+      console.error("Failed to delete deck:", e);
+      flashError(t('error.deckDeleteFailed'));
+    }
+  };
+
+  const exportDeck = async (deckId: string) => {
+    const deck = decks.find(d => d.id === deckId);
+    if (!deck) return;
+    try {
+      const deckItems = deckId === itemsDeckRef.current ? items : await deckStore.loadItems(deckId);
+      downloadBlob(createDeckFile(deck.name, deckItems), deckFileName(deck.name));
+    } catch (e) {
+      console.error("Failed to export deck:", e);
+      flashError(t(storageErrorKey(e)));
+    }
+  };
+
+  const importDeck = async (file: File) => {
+    try {
+      const { name, items: imported } = parseDeckFile(await file.text(), t('deck.importedName'));
+      await addDeck(name, imported);
+    } catch (e) {
+      console.error("Failed to import deck:", e);
+      flashError(t('error.invalidDeckFile'));
+    }
+  };
+
+  // 分享链接里的物品在解析时已经重新生成了 id
+  const importSharedDeck = (name: string, sharedItems: Item[]) => addDeck(name, sharedItems);
+
+  return { storageState, decks, activeDeckId, switchDeck, createDeck, renameDeck, duplicateDeck, deleteDeck, exportDeck, importDeck, importSharedDeck };
+};
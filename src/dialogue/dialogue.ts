@@ -0,0 +1,85 @@
+import { fillTemplate } from '../i18n';
+import type { GameSnapshot } from '../game/engine';
+
+// --- 猫咪台词 ---
+// 每个事件有一组模板，按当前情况筛出能用的，再随机挑一句，并且避开最近说过的。
+
+export type DialogueEvent =
+  | 'idle'
+  | 'guessing'
+  | 'retry'
+  | 'success'
+  | 'fail'
+  | 'reverseGuessing'
+  | 'reverseWon'
+  | 'reverseLost';
+
+export type TimeOfDay = 'morning' | 'afternoon' | 'evening' | 'night';
+
+export interface DialogueContext {
+  // 当前物品（玩家选的或猫咪藏的）的名字，没有时为空
+  item: string;
+  // 猫咪连续猜中的轮数
+  streak: number;
+  // 这一轮重猜了几次
+  retries: number;
+  timeOfDay: TimeOfDay;
+  // 多人模式里当前玩家的名字，单人游戏时为空
+  player: string;
+}
+
+export interface LineTemplate {
+  // 可以使用 {item} {streak} {retries} {attempt} {player}
+  text: string;
+  // 只在满足条件时才会被选中；带条件的台词更贴合当下，被选中的机会也更大
+  when?: (context: DialogueContext) => boolean;
+}
+
+export type LineBank = Record<DialogueEvent, LineTemplate[]>;
+
+// 记住最近说过的几句，尽量不重复
+export const RECENT_LINES = 4;
+const CONTEXTUAL_WEIGHT = 2;
+
+export const timeOfDayOf = (date: Date): TimeOfDay => {
+  const hour = date.getHours();
+  if (hour >= 5 && hour < 11) return 'morning';
+  if (hour >= 11 && hour < 17) return 'afternoon';
+  if (hour >= 17 && hour < 22) return 'evening';
+  return 'night';
+};
+
+export const dialogueEventOf = (state: GameSnapshot): DialogueEvent => {
+  if (state.phase === 'guessing' && state.retries > 0) return 'retry';
+  return state.phase;
+};
+
+// 从台词库里挑一句；recent 是最近说过的台词，最后一句绝不会马上重复（只剩这一句时除外）
+export const pickLine = (
+  bank: LineBank, event: DialogueEvent, context: DialogueContext, recent: string[], random: () => number = Math.random,
+): string => {
+  const params = { ...context, attempt: context.retries + 1 };
+  const candidates = bank[event]
+    .filter(line => !line.when || line.when(context))
+    .map(line => ({ text: fillTemplate(line.text, params), weight: line.when ? CONTEXTUAL_WEIGHT : 1 }));
+  if (candidates.length === 0) return '';
+
+  const fresh = candidates.filter(c => !recent.includes(c.text));
+  const notLast = candidates.filter(c => c.text !== recent[recent.length - 1]);
+  const pool = fresh.length > 0 ? fresh : notLast.length > 0 ? notLast : candidates;
+
+  let roll = random() * pool.reduce((sum, c) => sum + c.weight, 0);
+  for (const candidate of pool) {
+    roll -= candidate.weight;
+    if (roll < 0) return candidate.text;
+  }
+  return pool[pool.length - 1].text;
+};
+
+// 常用的条件
+export const hasItem = (c: DialogueContext) => c.item !== '';
+export const hasPlayer = (c: DialogueContext) => c.player !== '';
+export const streakAtLeast = (count: number) => (c: DialogueContext) => c.streak >= count;
+export const retriedAtLeast = (count: number) => (c: DialogueContext) => c.retries >= count;
+export const firstTry = (c: DialogueContext) => c.retries === 0;
+export const at = (time: TimeOfDay) => (c: DialogueContext) => c.timeOfDay === time;
@@ -0,0 +1,79 @@
+import { at, firstTry, hasItem, hasPlayer, retriedAtLeast, streakAtLeast, type LineBank } from '../dialogue';
+
+// --- English lines ---
+export const enLines: LineBank = {
+  idle: [
+    { text: 'Human, pick something for me to guess!' },
+    { text: 'Ready yet? My whiskers are warmed up, meow!' },
+    { text: "Hurry, hurry, I can't wait to guess, meow~" },
+    { text: "Pick anything, I'll get it, meow!" },
+    { text: "I'm closing my eyes. Pick one in secret, meow~" },
+    { text: "{player}, it's your turn to pick, meow!", when: hasPlayer },
+    { text: "I've guessed right {streak} times in a row. Still brave enough, meow?", when: streakAtLeast(2) },
+    { text: "Good morning, meow! Let's wake up with a round~", when: at('morning') },
+    { text: 'Good afternoon, meow. Done sunbathing, time to guess~', when: at('afternoon') },
+    { text: "Good evening, meow! Dinner's done, let's play!", when: at('evening') },
+    { text: 'Still awake? One more round then, meow~', when: at('night') },
+  ],
+  guessing: [
+    { text: 'Meow... let me think...' },
+    { text: 'Sniff sniff... I can smell the answer...' },
+    { text: 'Shh, my whiskers are sensing something, meow!' },
+    { text: 'This one? That one? Meow...' },
+    { text: 'Scanning with my cat radar~' },
+    { text: 'Round and round my paw goes, meow~' },
+    { text: "{streak} in a row, and I'm not stopping, meow!", when: streakAtLeast(2) },
+    { text: 'My eyes shine brightest at night, meow...', when: at('night') },
+  ],
+  retry: [
+    { text: "One more chance, I'll get it this time, meow!" },
+    { text: 'Try number {attempt}. Getting serious now, meow!' },
+    { text: 'That was just a warm-up, meow~' },
+    { text: "Hmph, I'll sniff more carefully this time, meow..." },
+    { text: "Do-over! That one didn't count, meow!" },
+    { text: "{retries} retries already... this is hard, meow...", when: retriedAtLeast(2) },
+  ],
+  success: [
+    { text: 'Got it, meow!' },
+    { text: 'Yay! Head pats please, meow~' },
+    { text: 'It was the {item}! I knew it, meow!', when: hasItem },
+    { text: "Meow ha ha, the {item} can't fool me!", when: hasItem },
+    { text: 'Got it on the first try, meow!', when: firstTry },
+    { text: 'Finally, on try number {attempt}, meow!', when: retriedAtLeast(1) },
+    { text: "{streak} right in a row. I'm a genius cat, meow!", when: streakAtLeast(2) },
+    { text: '{streak} wins in a row! Fish treats please, meow~', when: streakAtLeast(3) },
+    { text: 'My morning brain is so sharp, meow!', when: at('morning') },
+    { text: 'My night eyes never miss, meow!', when: at('night') },
+  ],
+  fail: [
+    { text: 'Missed it, meow...' },
+    { text: "Aww, it wasn't this one, meow..." },
+    { text: "My nose isn't working today, meow..." },
+    { text: 'Drat, you tricked me, meow!' },
+    { text: "Again! I'll get it next time, meow!" },
+    { text: "That's {attempt} misses. A little hint, meow?", when: retriedAtLeast(1) },
+    { text: "So sleepy, my brain won't work, meow...", when: at('night') },
+  ],
+  reverseGuessing: [
+    { text: "I've hidden something. Can you guess which, meow?" },
+    { text: 'Shh~ it is hidden. Can you find it, meow?' },
+    { text: "There's a treasure behind my tail. Guess, meow!" },
+    { text: 'I hid it really well this time, meow~' },
+    { text: '{player}, guess what I hid, meow!', when: hasPlayer },
+    { text: "It's dark out, perfect for hiding things, meow~", when: at('night') },
+  ],
+  reverseWon: [
+    { text: 'You got it, it was the {item}, meow!' },
+    { text: 'Wow, you found the {item}, meow!' },
+    { text: 'Drat, I hid the {item} so well, meow...' },
+    { text: 'Did you peek behind my tail? It was the {item}, meow!' },
+    { text: '{player} found the {item}. Amazing, meow!', when: hasPlayer },
+  ],
+  reverseLost: [
+    { text: 'Hehe, the answer was the {item}, meow!' },
+    { text: 'Not found? I hid the {item}, meow~' },
+    { text: 'Meow ha ha, the {item} was here all along!' },
+    { text: 'It was the {item}. Better luck next time, meow!' },
+    { text: "Good hiding spot for the {item}, right? I'm the hide-and-seek champ, meow!" },
+  ],
+};
@@ -0,0 +1,79 @@
+import { at, firstTry, hasItem, hasPlayer, retriedAtLeast, streakAtLeast, type LineBank } from '../dialogue';
+
+// --- 中文台词 ---
+export const zhLines: LineBank = {
+  idle: [
+    { text: '人类，快选一个东西让我猜！' },
+    { text: '选好了吗？我的胡子已经准备好了喵！' },
+    { text: '快点快点，我等不及要猜了喵~' },
+    { text: '随便点一个，我保证猜得到喵！' },
+    { text: '我闭上眼睛了，你偷偷选一个吧喵~' },
+    { text: '{player}，轮到你出题了喵！', when: hasPlayer },
+    { text: '我已经连续猜中 {streak} 次了，还敢出题吗喵？', when: streakAtLeast(2) },
+    { text: '早上好喵！来一局提提神吧~', when: at('morning') },
+    { text: '下午好喵，晒完太阳正好来猜东西~', when: at('afternoon') },
+    { text: '晚上好喵，吃饱了来玩一局吧！', when: at('evening') },
+    { text: '这么晚还不睡？那就再玩一局喵~', when: at('night') },
+  ],
+  guessing: [
+    { text: '喵呜...让我想想...' },
+    { text: '嗅嗅...我闻到答案了...' },
+    { text: '别说话，我在用胡子感应喵！' },
+    { text: '是这个？还是那个？喵...' },
+    { text: '让我的猫猫雷达扫一扫~' },
+    { text: '爪子转呀转，停在哪个就是哪个喵~' },
+    { text: '连胜 {streak} 次的我要继续发功了喵！', when: streakAtLeast(2) },
+    { text: '黑夜里我的眼睛最亮了喵...', when: at('night') },
+  ],
+  retry: [
+    { text: '再给我一次机会，这次一定行喵！' },
+    { text: '第 {attempt} 次了，我要认真起来了喵！' },
+    { text: '刚才只是热身，现在才开始喵~' },
+    { text: '哼，这次我要仔细闻一闻喵...' },
+    { text: '重来重来，刚才不算喵！' },
+    { text: '都重猜 {retries} 次了，好难呀喵...', when: retriedAtLeast(2) },
+  ],
+  success: [
+    { text: '猜对了喵！' },
+    { text: '耶！要摸摸头奖励喵~' },
+    { text: '就是{item}！我就知道喵！', when: hasItem },
+    { text: '喵哈哈，{item}可骗不过我！', when: hasItem },
+    { text: '一下就猜中了，厉害吧喵！', when: firstTry },
+    { text: '第 {attempt} 次终于猜中了，不容易喵！', when: retriedAtLeast(1) },
+    { text: '连续猜中 {streak} 次，我是天才猫猫喵！', when: streakAtLeast(2) },
+    { text: '{streak} 连胜！快给我小鱼干喵~', when: streakAtLeast(3) },
+    { text: '早上的猫脑袋就是清醒喵！', when: at('morning') },
+    { text: '夜里我的眼睛最亮了，猜中啦喵！', when: at('night') },
+  ],
+  fail: [
+    { text: '没猜中喵...' },
+    { text: '呜，原来不是这个喵...' },
+    { text: '我的鼻子今天不太灵喵...' },
+    { text: '可恶，被你骗到了喵！' },
+    { text: '再来一次，我一定猜得到喵！' },
+    { text: '已经错 {attempt} 次了，给点提示嘛喵...', when: retriedAtLeast(1) },
+    { text: '好困，脑袋转不动了喵...', when: at('night') },
+  ],
+  reverseGuessing: [
+    { text: '我藏好了一个东西，猜猜是哪个喵？' },
+    { text: '嘘~东西藏起来了，你找得到吗喵？' },
+    { text: '我把一个宝贝藏在尾巴后面了，猜猜看喵！' },
+    { text: '这次我藏得可深了，来猜吧喵~' },
+    { text: '{player}，来猜猜我藏了什么喵！', when: hasPlayer },
+    { text: '天黑了，最适合藏东西了喵~', when: at('night') },
+  ],
+  reverseWon: [
+    { text: '被你猜中了，就是{item}喵！' },
+    { text: '哇，{item}都被你找到了，好厉害喵！' },
+    { text: '可恶，我把{item}藏得那么好喵...' },
+    { text: '你是不是偷看我的尾巴了？就是{item}喵！' },
+    { text: '{player}找到了{item}，真厉害喵！', when: hasPlayer },
+  ],
+  reverseLost: [
+    { text: '嘿嘿，答案是{item}喵！' },
+    { text: '没找到吧？我藏的是{item}喵~' },
+    { text: '喵哈哈，{item}一直在这里呢！' },
+    { text: '是{item}啦，下次再努力喵！' },
+    { text: '{item}藏得好吧？我可是捉迷藏冠军喵！' },
+  ],
+};
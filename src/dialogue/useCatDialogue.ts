@@ -0,0 +1,117 @@
+import { useEffect, useEffectEvent, useRef, useState } from 'react';
+import { generateCatLine, getProvider, type AiSettings } from '../ai';
+import type { SpeakOptions } from '../audio/audioManager';
+import type { GameSnapshot, RoundRecord } from '../game/engine';
+import { currentPlayer } from '../game/match';
+import { createRng, randomSeed } from '../game/random';
+import { itemName, type Locale } from '../i18n';
+import { useI18n, type I18nValue } from '../i18n/context';
+import { dialogueEventOf, pickLine, RECENT_LINES, timeOfDayOf, type DialogueContext, type DialogueEvent, type LineBank } from './dialogue';
+import { enLines } from './lines/en';
+import { zhLines } from './lines/zh';
+
+// --- 猫咪当前说的话 ---
+// 游戏进入新的时刻时挑一句模板台词并播报；打开了 AI 台词时先请 AI 说，失败或太慢就用模板。
+
+const LINE_BANKS: Record<Locale, LineBank> = { zh: zhLines, en: enLines };
+
+// 只在一轮结束时请 AI 说话，猜的过程太短，等不到回答
+type AiDialogueEvent = 'success' | 'fail' | 'reverseWon' | 'reverseLost';
+const AI_EVENTS: DialogueEvent[] = ['success', 'fail', 'reverseWon', 'reverseLost'];
+const isAiEvent = (event: DialogueEvent): event is AiDialogueEvent => AI_EVENTS.includes(event);
+// 最多等 AI 这么久；猜中后按规则的 successResetMs 回到等待状态，还要再留一半时间把话说完
+const AI_LINE_TIMEOUT_MS = 2500;
+const aiWaitOf = (event: AiDialogueEvent, successResetMs: number) =>
+  event === 'success' ? Math.min(AI_LINE_TIMEOUT_MS, successResetMs / 2) : AI_LINE_TIMEOUT_MS;
+
+const buildPrompt = (event: AiDialogueEvent, context: DialogueContext, t: I18nValue['t']): string => {
+  const details = [
+    context.streak >= 2 ? t('dialogue.detail.streak', { streak: context.streak }) : '',
+    context.retries > 0 ? t('dialogue.detail.retries', { attempt: context.retries + 1 }) : '',
+    t('dialogue.detail.time', { time: t(`dialogue.time.${context.timeOfDay}` as const) }),
+  ].join('');
+  return t('dialogue.prompt', { situation: t(`dialogue.situation.${event}` as const, { item: context.item }), details });
+};
+
+interface CatDialogueOptions {
+  game: GameSnapshot;
+  aiSettings: AiSettings;
+  online: boolean;
+  speak: (text: string, options?: SpeakOptions) => void;
+}
+
+interface Moment {
+  key: string;
+  line: string;
+  context: DialogueContext;
+  // 最近说过的台词，挑新台词时避开
+  recent: string[];
+  // 挑下一句台词用的随机状态；放在状态里，重复渲染时挑出的总是同一句
+  seed: number;
+}
+
+export const useCatDialogue = ({ game, aiSettings, online, speak }: CatDialogueOptions): string => {
+  const { locale, t } = useI18n();
+  // 猫咪的连胜和它对应的最后一轮，只在进入新时刻时更新，不参与渲染
+  const streakRef = useRef<{ round: RoundRecord | null; count: number }>({ round: game.lastRound, count: 0 });
+  const [moment, setMoment] = useState<Moment | null>(null);
+  const [initialSeed] = useState(randomSeed);
+  const [aiLine, setAiLine] = useState<{ key: string; text: string } | null>(null);
+
+  const event = dialogueEventOf(game);
+  const subject = game.mode === 'reverse' ? game.secret : game.target;
+  // 同一个时刻只挑一次台词；切换语言时换成新语言的台词
+  const key = [locale, event, game.roundStartedAt, game.retries, game.secret?.id, game.match?.turn].join('|');
+
+  // 进入新的时刻：更新连胜、挑好台词，再播报这句台词或 AI 的回答。返回取消 AI 请求的清理函数
+  const enterMoment = useEffectEvent((momentKey: string) => {
+    // 每记录一轮就更新猫咪的连胜；反向模式是玩家在猜，不算
+    const streak = streakRef.current;
+    if (game.lastRound !== streak.round) {
+      const count = game.lastRound?.mode === 'classic' ? (game.lastRound.success ? streak.count + 1 : 0) : streak.count;
+      streakRef.current = { round: game.lastRound, count };
+    }
+
+    const context: DialogueContext = {
+      item: subject ? itemName(subject, locale) : '',
+      streak: streakRef.current.count,
+      retries: game.retries,
+      timeOfDay: timeOfDayOf(new Date()),
+      player: game.match && !game.match.finished ? currentPlayer(game.match).name : '',
+    };
+    const recent = moment?.recent ?? [];
+    const rng = createRng(moment?.seed ?? initialSeed);
+    const line = pickLine(LINE_BANKS[locale], event, context, recent, rng.next);
+    setMoment({ key: momentKey, line, context, recent: [...recent, line].slice(-RECENT_LINES), seed: rng.seed });
+
+    const useAi = aiSettings.aiDialogue && online && !getProvider(aiSettings.providerId).manual && isAiEvent(event) && subject !== null;
+    if (!useAi) {
+      // 等待出题时不用一直念叨；重猜时打断还没说完的上一句
+      if (event !== 'idle') speak(line, { interrupt: event === 'retry' });
+      return;
+    }
+    const controller = new AbortController();
+    generateCatLine(subject.image, aiSettings, buildPrompt(event, context, t), aiWaitOf(event, game.rules.successResetMs), { signal: controller.signal })
+      .then(text => {
+        // 时刻已经变了（例如猜中后回到等待状态），回答作废
+        if (controller.signal.aborted) return;
+        // AI 的回答和最近说过的话重复时，还是用模板台词
+        const repeated = recent.includes(text) || text === aiLine?.text;
+        if (!repeated) setAiLine({ key: momentKey, text });
+        speak(repeated ? line : text);
+      })
+      .catch(e => {
+        if (controller.signal.aborted) return;
+        console.error("Failed to generate cat line:", e);
+        speak(line);
+      });
+    return () => controller.abort();
+  });
+
+  // 每个时刻只说一次
+  useEffect(() => enterMoment(key), [key]);
+
+  // 新时刻的台词挑好之前先保留上一句
+  if (aiLine?.key === key) return aiLine.text;
+  return moment?.line ?? '';
+};
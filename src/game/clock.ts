@@ -0,0 +1,49 @@
+// --- 可注入的时钟 ---
+// 游戏引擎本身不碰定时器，由运行器通过时钟调度；测试或回放时可以换成手动推进的时钟。
+
+export type TimerId = number;
+
+export interface Clock {
+  now: () => number;
+  setTimeout: (callback: () => void, ms: number) => TimerId;
+  clearTimeout: (id: TimerId) => void;
+}
+
+export const systemClock: Clock = {
+  now: () => Date.now(),
+  setTimeout: (callback, ms) => window.setTimeout(callback, ms),
+  clearTimeout: (id) => window.clearTimeout(id),
+};
+
+// 手动时钟：调用 advance 推进时间并触发到期的回调
+export const createManualClock = (start = 0) => {
+  let current = start;
+  let nextId = 1;
+  const timers = new Map<TimerId, { at: number; callback: () => void }>();
+
+  const clock: Clock & { advance: (ms: number) => void } = {
+    now: () => current,
+    setTimeout: (callback, ms) => {
+      const id = nextId++;
+      timers.set(id, { at: current + ms, callback });
+      return id;
+    },
+    clearTimeout: (id) => { timers.delete(id); },
+    advance: (ms) => {
+      const end = current + ms;
+      for (;;) {
+        let dueId: TimerId | null = null;
+        for (const [id, timer] of timers) {
+          if (timer.at <= end && (dueId === null || timer.at < timers.get(dueId)!.at)) dueId = id;
+        }
+        if (dueId === null) break;
+        const timer = timers.get(dueId)!;
+        timers.delete(dueId);
+        current = timer.at;
+        timer.callback();
+      }
+      current = end;
+    },
+  };
+  return clock;
+};
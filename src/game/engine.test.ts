@@ -0,0 +1,223 @@
+import { describe, expect, it } from 'vitest';
+import type { Item } from '../types';
+import { canRetry, createGame, gameReducer, type GameEvent, type GameSnapshot } from './engine';
+import { currentPlayer, type Player } from './match';
+import { RULE_PRESETS } from './rules';
+
+const ITEMS: Item[] = [
+  { id: 'apple', name: '苹果', image: '', tags: ['fruit', 'red'] },
+  { id: 'banana', name: '香蕉', image: '', tags: ['fruit', 'yellow'] },
+  { id: 'ball', name: '皮球', image: '', tags: ['toy', 'red'] },
+  { id: 'car', name: '小汽车', image: '', tags: ['toy'] },
+  { id: 'cup', name: '杯子', image: '', tags: ['kitchen'] },
+];
+
+const run = (state: GameSnapshot, events: GameEvent[], now = 0) =>
+  events.reduce((s, event) => gameReducer(s, event, now), state);
+
+// 把猜测动画的 tick 全部跑完
+const finishGuess = (state: GameSnapshot, now = 0) =>
+  run(state, Array.from({ length: state.rules.guessTicks }, () => ({ type: 'tick' }) as const), now);
+
+// 找一个让这一局按预期发展的种子；同样的种子结果总是一样的
+const seedWhere = (predicate: (seed: number) => boolean) => {
+  const seed = [...Array(1000).keys()].find(predicate);
+  if (seed === undefined) throw new Error('no matching seed');
+  return seed;
+};
+
+describe('game engine', () => {
+  it('lets the cat retry after a failed guess', () => {
+    const firstGuess = (seed: number) => finishGuess(gameReducer(createGame({ items: ITEMS, seed }), { type: 'pick', itemId: 'apple' }, 0), 100);
+    const seed = seedWhere(s => {
+      const failed = firstGuess(s);
+      return failed.phase === 'fail' && finishGuess(gameReducer(failed, { type: 'retry' })).phase === 'success';
+    });
+
+    let state = firstGuess(seed);
+    expect(state.phase).toBe('fail');
+    expect(state.catChoice?.id).not.toBe('apple');
+    expect(state.wrongGuesses).toEqual([state.catChoice?.id]);
+    expect(state.score).toBe(0);
+    expect(state.lastRound).toBeNull();
+
+    state = gameReducer(state, { type: 'retry' }, 200);
+    expect(state).toMatchObject({ phase: 'guessing', retries: 1, ticks: 0, catChoice: null });
+
+    state = finishGuess(state, 300);
+    expect(state).toMatchObject({ phase: 'success', score: state.rules.retryPoints });
+    expect(state.lastRound).toMatchObject({ targetId: 'apple', success: true, retries: 1, startedAt: 0, endedAt: 300 });
+    expect(state.catChoice?.id).toBe('apple');
+    // 重猜不会再记一次玩家的选择
+    expect(state.stats.counts).toEqual({ apple: 1 });
+  });
+
+  it('ignores events that do not fit the current phase', () => {
+    const state = createGame({ items: ITEMS, seed: 1 });
+    expect(gameReducer(state, { type: 'retry' })).toBe(state);
+    expect(gameReducer(state, { type: 'tick' })).toBe(state);
+    expect(gameReducer(state, { type: 'pick', itemId: 'missing' })).toBe(state);
+  });
+
+  it('goes back to idle when the target is deleted mid-round', () => {
+    let state = run(createGame({ items: ITEMS, seed: 3 }), [{ type: 'pick', itemId: 'apple' }, { type: 'tick' }]);
+    expect(state.phase).toBe('guessing');
+
+    state = gameReducer(state, { type: 'deleteItem', itemId: 'apple' });
+    expect(state).toMatchObject({ phase: 'idle', target: null, lastRound: null });
+    expect(state.items.map(i => i.id)).not.toContain('apple');
+    // 之后的 tick 不再有任何作用
+    expect(gameReducer(state, { type: 'tick' })).toBe(state);
+  });
+
+  it('records a failed round when the target is deleted after a wrong guess', () => {
+    const seed = seedWhere(s => finishGuess(gameReducer(createGame({ items: ITEMS, seed: s }), { type: 'pick', itemId: 'apple' })).phase === 'fail');
+    let state = finishGuess(gameReducer(createGame({ items: ITEMS, seed }), { type: 'pick', itemId: 'apple' }));
+    state = gameReducer(state, { type: 'deleteItem', itemId: 'apple' }, 500);
+    expect(state.phase).toBe('idle');
+    expect(state.lastRound).toMatchObject({ targetId: 'apple', success: false, endedAt: 500 });
+  });
+
+  it('keeps the round going when another item is deleted', () => {
+    const state = run(createGame({ items: ITEMS, seed: 3 }), [{ type: 'pick', itemId: 'apple' }, { type: 'deleteItem', itemId: 'cup' }]);
+    expect(state).toMatchObject({ phase: 'guessing', target: ITEMS[0] });
+  });
+
+  it('never deletes the last item', () => {
+    const state = createGame({ items: ITEMS.slice(0, 1), seed: 1 });
+    expect(gameReducer(state, { type: 'deleteItem', itemId: 'apple' })).toBe(state);
+  });
+});
+
+describe('rules', () => {
+  // 困难策略的准确率为 0 时一定猜错
+  const alwaysWrong = { id: 'hard', hardAccuracy: 0 } as const;
+
+  it('stops allowing retries once maxRetries is used up', () => {
+    let state = createGame({ items: ITEMS, seed: 2, strategy: alwaysWrong, rules: { ...RULE_PRESETS.normal, maxRetries: 1 } });
+    state = finishGuess(gameReducer(state, { type: 'pick', itemId: 'apple' }));
+    expect(canRetry(state)).toBe(true);
+    state = finishGuess(gameReducer(state, { type: 'retry' }));
+    expect(state.phase).toBe('fail');
+    expect(canRetry(state)).toBe(false);
+    expect(gameReducer(state, { type: 'retry' })).toBe(state);
+  });
+
+  it('records a failed round when the challenge retry window times out', () => {
+    const rules = RULE_PRESETS.challenge;
+    const roundTimeMs = rules.roundTimeMs!;
+    let state = createGame({ items: ITEMS, seed: 5, strategy: alwaysWrong, rules });
+    state = finishGuess(gameReducer(state, { type: 'pick', itemId: 'banana' }, 0), 1000);
+    expect(state.phase).toBe('fail');
+    expect(state.deadline).toBe(1000 + roundTimeMs);
+
+    // 还没到截止时间
+    expect(gameReducer(state, { type: 'timeout' }, 1000 + roundTimeMs - 1)).toBe(state);
+
+    state = gameReducer(state, { type: 'timeout' }, 1000 + roundTimeMs);
+    expect(state).toMatchObject({ phase: 'idle', deadline: null });
+    expect(state.lastRound).toMatchObject({ mode: 'classic', targetId: 'banana', success: false, endedAt: 1000 + roundTimeMs });
+  });
+
+  it('loses a timed reverse round when the time runs out', () => {
+    const rules = RULE_PRESETS.challenge;
+    let state = run(createGame({ items: ITEMS, seed: 11, rules }), [{ type: 'setMode', mode: 'reverse' }, { type: 'hide' }], 0);
+    expect(state.deadline).toBe(rules.roundTimeMs);
+
+    state = gameReducer(state, { type: 'timeout' }, rules.roundTimeMs!);
+    expect(state).toMatchObject({ phase: 'reverseLost', deadline: null });
+    expect(state.lastRound).toMatchObject({ mode: 'reverse', success: false });
+  });
+});
+
+describe('reverse rounds', () => {
+  const hide = (seed: number) => run(createGame({ items: ITEMS, seed }), [{ type: 'setMode', mode: 'reverse' }, { type: 'hide' }]);
+  const wrongItems = (state: GameSnapshot) => ITEMS.filter(i => i.id !== state.secret!.id);
+
+  it('scores a first-try win higher than a later one', () => {
+    let state = hide(6);
+    expect(state.phase).toBe('reverseGuessing');
+    const { firstTryPoints, retryPoints } = state.rules;
+
+    const firstTry = gameReducer(state, { type: 'guessItem', itemId: state.secret!.id }, 100);
+    expect(firstTry).toMatchObject({ phase: 'reverseWon', score: firstTryPoints, hint: null });
+    expect(firstTry.lastRound).toMatchObject({ mode: 'reverse', targetId: state.secret!.id, success: true, retries: 0 });
+
+    state = run(state, [{ type: 'guessItem', itemId: wrongItems(state)[0].id }, { type: 'guessItem', itemId: state.secret!.id }]);
+    expect(state).toMatchObject({ phase: 'reverseWon', score: retryPoints });
+  });
+
+  it('loses the round after the last wrong guess', () => {
+    let state = hide(7);
+    const max = state.rules.maxPlayerGuesses;
+    state = run(state, wrongItems(state).slice(0, max).map(item => ({ type: 'guessItem', itemId: item.id }) as const));
+    expect(state).toMatchObject({ phase: 'reverseLost', score: 0, hint: null });
+    expect(state.lastRound).toMatchObject({ mode: 'reverse', success: false, retries: max - 1 });
+
+    // 可以直接再藏一个
+    expect(gameReducer(state, { type: 'hide' }).phase).toBe('reverseGuessing');
+  });
+
+  it('gives a hint after each wrong guess and ignores repeated guesses', () => {
+    let state = hide(8);
+    const [first, second] = wrongItems(state);
+    state = gameReducer(state, { type: 'guessItem', itemId: first.id });
+    expect(state.hint).toMatchObject({ guessedId: first.id, trend: null });
+    expect(state.hint!.tag === null || (state.secret!.tags ?? []).includes(state.hint!.tag)).toBe(true);
+    expect(gameReducer(state, { type: 'guessItem', itemId: first.id })).toBe(state);
+
+    state = gameReducer(state, { type: 'guessItem', itemId: second.id });
+    expect(state.hint).toMatchObject({ guessedId: second.id });
+    expect(state.hint!.trend).not.toBeNull();
+  });
+
+  it('bases hints on how alike the guess is to the hidden item', () => {
+    // 换成固定的秘密物品，方便断言
+    let state: GameSnapshot = { ...hide(8), secret: ITEMS[0] };
+
+    state = gameReducer(state, { type: 'guessItem', itemId: 'cup' });
+    expect(state.hint).toMatchObject({ level: 'cold', trend: null });
+    state = gameReducer(state, { type: 'guessItem', itemId: 'banana' });
+    expect(state.hint).toMatchObject({ level: 'warm', trend: 'warmer', tag: 'red' });
+
+    // 调整物品顺序不影响提示
+    const reordered = gameReducer(state, { type: 'setItems', items: [...ITEMS].reverse() });
+    expect(reordered.hint).toEqual(state.hint);
+  });
+
+  it('credits each player and rotates the match turn', () => {
+    const players: Player[] = [
+      { id: 'p1', name: '小明', color: '#f97316' },
+      { id: 'p2', name: '小红', color: '#3b82f6' },
+    ];
+    let state = run(createGame({ items: ITEMS, seed: 10 }), [
+      { type: 'setMode', mode: 'reverse' },
+      { type: 'startMatch', players, turnsPerPlayer: 1 },
+      { type: 'hide' },
+    ]);
+    const { maxPlayerGuesses: max, firstTryPoints } = state.rules;
+    expect(currentPlayer(state.match!).id).toBe('p1');
+
+    // 第一位玩家一次猜中
+    state = gameReducer(state, { type: 'guessItem', itemId: state.secret!.id });
+    expect(state.match).toMatchObject({ turn: 1, finished: false });
+    expect(state.match!.scores.p1).toEqual({ score: firstTryPoints, streak: 1, bestStreak: 1 });
+    expect(currentPlayer(state.match!).id).toBe('p2');
+
+    // 第二位玩家一直猜错
+    state = run(state, [{ type: 'reset' }, { type: 'hide' }]);
+    state = run(state, wrongItems(state).slice(0, max).map(item => ({ type: 'guessItem', itemId: item.id }) as const));
+    expect(state.phase).toBe('reverseLost');
+    expect(state.score).toBe(firstTryPoints);
+    expect(state.match).toMatchObject({ turn: 2, finished: true });
+    expect(state.match!.scores.p2).toEqual({ score: 0, streak: 0, bestStreak: 0 });
+
+    // 比赛结束后不能再开新的一轮
+    expect(gameReducer(state, { type: 'hide' })).toBe(state);
+  });
+
+  it('only switches mode between rounds', () => {
+    const state = hide(9);
+    expect(gameReducer(state, { type: 'setMode', mode: 'classic' })).toBe(state);
+  });
+});
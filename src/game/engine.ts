@@ -0,0 +1,280 @@
+import type { Item } from '../types';
+import { EMPTY_PICK_STATS, recordPick, type PickStats } from './pickStats';
+import { createRng, randomIndex } from './random';
+import { createMatch, recordTurn, type Match, type Player } from './match';
+import { applyPlayerGuess, expireReverseRound, startReverseRound, type ReverseHint } from './reverse';
+import { DEFAULT_RULES, type GameRules } from './rules';
+import { DEFAULT_STRATEGY, getStrategy, type GuessReason, type StrategySettings } from './strategies';
+
+// --- 游戏状态机 ---
+// 纯函数实现：同样的初始状态和事件序列一定得到同样的结果，方便测试和回放。
+
+// classic：玩家选物品、猫咪猜；reverse：猫咪藏物品、玩家猜
+export type GameMode = 'classic' | 'reverse';
+export type GameState = 'idle' | 'guessing' | 'success' | 'fail' | 'reverseGuessing' | 'reverseWon' | 'reverseLost';
+export type CatEmotion = 'neutral' | 'thinking' | 'happy' | 'sad' | 'surprised' | 'sleepy' | 'smug' | 'confused';
+
+// 一轮结束后的结果，供历史记录使用
+export interface RoundRecord {
+  mode: GameMode;
+  targetId: string;
+  targetName: string;
+  finalPickId: string | null;
+  finalPickName: string | null;
+  retries: number;
+  success: boolean;
+  startedAt: number;
+  endedAt: number;
+}
+
+export interface GameSnapshot {
+  mode: GameMode;
+  phase: GameState;
+  items: Item[];
+  target: Item | null;
+  catChoice: Item | null;
+  score: number;
+  ticks: number;
+  retries: number;
+  seed: number;
+  rules: GameRules;
+  strategy: StrategySettings;
+  stats: PickStats;
+  // 本轮猜错过的物品
+  wrongGuesses: string[];
+  // 猫咪最后一次猜测的理由
+  reason: GuessReason | null;
+  roundStartedAt: number | null;
+  // 限时规则下当前阶段的截止时间，不限时为 null
+  deadline: number | null;
+  lastRound: RoundRecord | null;
+  // 反向模式：猫咪藏起来的物品、玩家猜过的物品和最近一次提示
+  secret: Item | null;
+  playerGuesses: string[];
+  hint: ReverseHint | null;
+  // 多人轮流模式，单人游戏时为 null
+  match: Match | null;
+}
+
+export type GameEvent =
+  | { type: 'pick'; itemId: string }
+  | { type: 'tick' }
+  | { type: 'retry' }
+  | { type: 'reset' }
+  | { type: 'setItems'; items: Item[] }
+  | { type: 'deleteItem'; itemId: string }
+  | { type: 'setStrategy'; strategy: StrategySettings }
+  | { type: 'setRules'; rules: GameRules }
+  | { type: 'timeout' }
+  | { type: 'setMode'; mode: GameMode }
+  | { type: 'hide' }
+  | { type: 'guessItem'; itemId: string }
+  | { type: 'startMatch'; players: Player[]; turnsPerPlayer: number }
+  | { type: 'endMatch' };
+
+export interface GameOptions {
+  items: Item[];
+  seed: number;
+  rules?: GameRules;
+  strategy?: StrategySettings;
+  stats?: PickStats;
+  score?: number;
+}
+
+export const createGame = ({ items, seed, rules = DEFAULT_RULES, strategy = DEFAULT_STRATEGY, stats = EMPTY_PICK_STATS, score = 0 }: GameOptions): GameSnapshot => ({
+  mode: 'classic',
+  phase: 'idle',
+  items,
+  target: null,
+  catChoice: null,
+  score,
+  ticks: 0,
+  retries: 0,
+  seed,
+  rules,
+  strategy,
+  stats,
+  wrongGuesses: [],
+  reason: null,
+  roundStartedAt: null,
+  deadline: null,
+  lastRound: null,
+  secret: null,
+  playerGuesses: [],
+  hint: null,
+  match: null,
+});
+
+// 犯困（sleepy）取决于玩家多久没操作，由界面自己判断
+export const catEmotionOf = (state: GameSnapshot): CatEmotion => {
+  switch (state.phase) {
+    case 'guessing': return 'thinking';
+    case 'success': return 'happy';
+    // 重猜了好几次还是不对，猫咪开始怀疑自己
+    case 'fail': return state.retries >= 2 ? 'confused' : 'sad';
+    // 反向模式：玩家猜错时猫咪得意，被猜中时吃惊，到最后都没被猜中就开心
+    case 'reverseGuessing': return state.playerGuesses.length > 0 ? 'smug' : 'neutral';
+    case 'reverseWon': return 'surprised';
+    case 'reverseLost': return 'happy';
+    default: return 'neutral';
+  }
+};
+
+// 猜错后是否还能让猫咪再猜一次
+export const canRetry = (state: GameSnapshot): boolean =>
+  state.phase === 'fail' && (state.rules.maxRetries === null || state.retries < state.rules.maxRetries);
+
+const deadlineFrom = (rules: GameRules, now: number): number | null =>
+  rules.roundTimeMs === null ? null : now + rules.roundTimeMs;
+
+const recordRound = (state: GameSnapshot, success: boolean, now: number): RoundRecord | null => {
+  if (!state.target) return state.lastRound;
+  return {
+    mode: 'classic',
+    targetId: state.target.id,
+    targetName: state.target.name,
+    finalPickId: state.catChoice?.id ?? null,
+    finalPickName: state.catChoice?.name ?? null,
+    retries: state.retries,
+    success,
+    startedAt: state.roundStartedAt ?? now,
+    endedAt: now,
+  };
+};
+
+// 猜测动画结束后的最终判定
+const finalizeGuess = (state: GameSnapshot, now: number): GameSnapshot => {
+  if (!state.target) return { ...state, phase: 'idle' };
+  const rng = createRng(state.seed);
+  const { item: finalPick, reason } = getStrategy(state.strategy.id).guess({
+    items: state.items,
+    target: state.target,
+    wrongGuesses: state.wrongGuesses,
+    stats: state.stats,
+    settings: state.strategy,
+  }, rng);
+  const success = finalPick.id === state.target.id;
+  const next: GameSnapshot = {
+    ...state,
+    seed: rng.seed,
+    catChoice: finalPick,
+    reason,
+    phase: success ? 'success' : 'fail',
+    score: success ? state.score + (state.retries === 0 ? state.rules.firstTryPoints : state.rules.retryPoints) : state.score,
+    // 限时规则下猜错后要在规定时间内决定是否重猜
+    deadline: success ? null : deadlineFrom(state.rules, now),
+    wrongGuesses: success ? state.wrongGuesses : [...state.wrongGuesses, finalPick.id],
+    // 每轮只在第一次判定时记录玩家的选择，重试不重复计数
+    stats: state.retries === 0 ? recordPick(state.stats, state.target.id) : state.stats,
+  };
+  return success ? { ...next, lastRound: recordRound(next, true, now) } : next;
+};
+
+// 物品列表变化后，如果正在猜的物品被移除，就中止这一轮；已经猜错过的算作放弃
+const withItems = (state: GameSnapshot, items: Item[], now: number): GameSnapshot => {
+  const has = (item: Item | null) => item !== null && items.some(i => i.id === item.id);
+  const targetGone = state.target !== null && !has(state.target);
+  const secretGone = state.secret !== null && !has(state.secret);
+  return {
+    ...state,
+    items,
+    lastRound: targetGone && state.phase === 'fail' ? recordRound(state, false, now) : state.lastRound,
+    phase: targetGone || secretGone ? 'idle' : state.phase,
+    deadline: targetGone || secretGone ? null : state.deadline,
+    target: targetGone ? null : state.target,
+    secret: secretGone ? null : state.secret,
+    catChoice: has(state.catChoice) ? state.catChoice : null,
+  };
+};
+
+const reduceEvent = (state: GameSnapshot, event: GameEvent, now: number): GameSnapshot => {
+  // 比赛结束后要先看完总结，不能再开新的一轮
+  if (state.match?.finished && (event.type === 'pick' || event.type === 'hide')) return state;
+  switch (event.type) {
+    case 'pick': {
+      if (state.mode !== 'classic' || state.phase !== 'idle') return state;
+      const target = state.items.find(i => i.id === event.itemId);
+      if (!target) return state;
+      return { ...state, phase: 'guessing', target, catChoice: null, ticks: 0, retries: 0, wrongGuesses: [], reason: null, roundStartedAt: now, deadline: null };
+    }
+    case 'tick': {
+      if (state.phase !== 'guessing' || state.items.length === 0) return state;
+      const ticks = state.ticks + 1;
+      if (ticks >= state.rules.guessTicks) return finalizeGuess({ ...state, ticks }, now);
+      const [index, seed] = randomIndex(state.seed, state.items.length);
+      return { ...state, ticks, seed, catChoice: state.items[index] };
+    }
+    case 'retry': {
+      if (!canRetry(state) || !state.target) return state;
+      return { ...state, phase: 'guessing', catChoice: null, ticks: 0, retries: state.retries + 1, reason: null, deadline: null };
+    }
+    case 'reset': {
+      if (state.phase === 'success' || state.phase === 'reverseWon' || state.phase === 'reverseLost') return { ...state, phase: 'idle', deadline: null };
+      // 猜错后换个物品，这一轮就算猫咪没猜中
+      if (state.phase === 'fail') return { ...state, phase: 'idle', deadline: null, lastRound: recordRound(state, false, now) };
+      return state;
+    }
+    case 'timeout': {
+      if (state.deadline === null || now < state.deadline) return state;
+      // 时间到了还没决定重猜，这一轮算猫咪没猜中
+      if (state.phase === 'fail') return { ...state, phase: 'idle', deadline: null, lastRound: recordRound(state, false, now) };
+      if (state.phase === 'reverseGuessing') return expireReverseRound(state, now);
+      return state;
+    }
+    case 'setItems':
+      return withItems(state, event.items, now);
+    case 'deleteItem': {
+      // 仓库里至少要留一个东西
+      if (state.items.length <= 1) return state;
+      return withItems(state, state.items.filter(i => i.id !== event.itemId), now);
+    }
+    case 'setStrategy':
+      return { ...state, strategy: event.strategy };
+    case 'setRules':
+      // 新规则从下一轮开始影响截止时间，已经开始计时的不变
+      return { ...state, rules: event.rules };
+    case 'setMode': {
+      if (state.phase !== 'idle' || state.mode === event.mode) return state;
+      return { ...state, mode: event.mode, target: null, catChoice: null, secret: null, playerGuesses: [], hint: null };
+    }
+    case 'hide': {
+      const canStart = state.phase === 'idle' || state.phase === 'reverseWon' || state.phase === 'reverseLost';
+      if (state.mode !== 'reverse' || !canStart) return state;
+      return startReverseRound(state, now);
+    }
+    case 'guessItem':
+      if (state.phase !== 'reverseGuessing') return state;
+      return applyPlayerGuess(state, event.itemId, now);
+    case 'startMatch': {
+      // 比赛结束后可以直接再来一场
+      if ((state.phase !== 'idle' && !state.match?.finished) || event.players.length < 2) return state;
+      return { ...state, match: createMatch(event.players, event.turnsPerPlayer) };
+    }
+    case 'endMatch': {
+      if (!state.match || (state.phase !== 'idle' && !state.match.finished)) return state;
+      return { ...state, match: null };
+    }
+    default:
+      return state;
+  }
+};
+
+// now 由运行器在派发事件时提供，回放时使用记录下来的时间
+export const gameReducer = (state: GameSnapshot, event: GameEvent, now = 0): GameSnapshot => {
+  const next = reduceEvent(state, event, now);
+  // 多人模式下每记录一轮就轮到下一位玩家，这一轮的得分记在当前玩家名下
+  if (!next.match || next.match.finished || !next.lastRound || next.lastRound === state.lastRound) return next;
+  return { ...next, match: recordTurn(next.match, next.lastRound, next.score - state.score) };
+};
+
+// 当前状态需要的下一个定时事件，由运行器负责调度
+export const nextTimedEvent = (state: GameSnapshot, now = 0): { event: GameEvent; delay: number } | null => {
+  if (state.phase === 'guessing') return { event: { type: 'tick' }, delay: state.rules.tickMs };
+  if (state.phase === 'success') return { event: { type: 'reset' }, delay: state.rules.successResetMs };
+  if (state.deadline !== null) return { event: { type: 'timeout' }, delay: Math.max(0, state.deadline - now) };
+  return null;
+};
+
+// 按记录的事件重放一局游戏
+export const replayGame = (initial: GameSnapshot, events: { at: number; event: GameEvent }[]): GameSnapshot =>
+  events.reduce((state, { at, event }) => gameReducer(state, event, at), initial);
@@ -0,0 +1,91 @@
+import type { RoundRecord } from './engine';
+
+// --- 多人轮流模式 ---
+// 每轮结束（猜中或放弃）后自动轮到下一位玩家，所有人都玩满设定的轮数后比赛结束。
+
+export const MIN_PLAYERS = 2;
+export const MAX_PLAYERS = 6;
+
+export const PLAYER_COLORS = ['#f97316', '#3b82f6', '#22c55e', '#a855f7', '#ef4444', '#eab308'];
+
+export interface Player {
+  id: string;
+  name: string;
+  color: string;
+}
+
+export interface PlayerScore {
+  score: number;
+  streak: number;
+  bestStreak: number;
+}
+
+export interface Match {
+  players: Player[];
+  scores: Record<string, PlayerScore>;
+  turnsPerPlayer: number;
+  // 已经结束的轮数，当前玩家由它推算
+  turn: number;
+  finished: boolean;
+}
+
+export const createMatch = (players: Player[], turnsPerPlayer: number): Match => ({
+  players,
+  scores: Object.fromEntries(players.map(p => [p.id, { score: 0, streak: 0, bestStreak: 0 }])),
+  turnsPerPlayer: Math.max(1, Math.floor(turnsPerPlayer)),
+  turn: 0,
+  finished: false,
+});
+
+export const currentPlayer = (match: Match): Player => match.players[match.turn % match.players.length];
+
+// 当前玩家这一轮结束：记分并轮到下一位
+export const recordTurn = (match: Match, round: RoundRecord, points: number): Match => {
+  const player = currentPlayer(match);
+  const prev = match.scores[player.id];
+  const streak = round.success ? prev.streak + 1 : 0;
+  const turn = match.turn + 1;
+  return {
+    ...match,
+    scores: {
+      ...match.scores,
+      [player.id]: { score: prev.score + points, streak, bestStreak: Math.max(prev.bestStreak, streak) },
+    },
+    turn,
+    finished: turn >= match.players.length * match.turnsPerPlayer,
+  };
+};
+
+// 按得分排名，同分时连胜多的在前
+export const rankPlayers = (match: Match): Player[] =>
+  [...match.players].sort((a, b) => {
+    const sa = match.scores[a.id];
+    const sb = match.scores[b.id];
+    return sb.score - sa.score || sb.bestStreak - sa.bestStreak;
+  });
+
+// 得分最高的玩家，可能有并列
+export const matchWinners = (match: Match): Player[] => {
+  const top = Math.max(...match.players.map(p => match.scores[p.id].score));
+  return match.players.filter(p => match.scores[p.id].score === top);
+};
+
+const PLAYERS_STORAGE = 'cat_guess_players';
+
+// 上次登记的玩家，下次开局时直接带出来
+export const loadPlayers = (): { players: Player[]; turnsPerPlayer: number } | null => {
+  try {
+    const saved = localStorage.getItem(PLAYERS_STORAGE);
+    if (!saved) return null;
+    const parsed = JSON.parse(saved) as { players?: Player[]; turnsPerPlayer?: number };
+    if (!Array.isArray(parsed.players) || parsed.players.length < MIN_PLAYERS) return null;
+    return { players: parsed.players.slice(0, MAX_PLAYERS), turnsPerPlayer: parsed.turnsPerPlayer ?? 3 };
+  } catch (e) {
+    console.error('Failed to load players from storage:', e);
+    return null;
+  }
+};
+
+export const savePlayers = (players: Player[], turnsPerPlayer: number) => {
+  localStorage.setItem(PLAYERS_STORAGE, JSON.stringify({ players, turnsPerPlayer }));
+};
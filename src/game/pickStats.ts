@@ -0,0 +1,39 @@
+// --- 玩家选择记录（跨会话保存，供猫咪学习） ---
+const PICK_STATS_STORAGE = 'cat_guess_pick_stats';
+const RECENT_LIMIT = 20;
+
+export interface PickStats {
+  counts: Record<string, number>;
+  // 最近的选择，最新的在最后
+  recent: string[];
+}
+
+export const EMPTY_PICK_STATS: PickStats = { counts: {}, recent: [] };
+
+export const recordPick = (stats: PickStats, itemId: string): PickStats => ({
+  counts: { ...stats.counts, [itemId]: (stats.counts[itemId] ?? 0) + 1 },
+  recent: [...stats.recent, itemId].slice(-RECENT_LIMIT),
+});
+
+// 最近连续选同一个物品的次数
+export const currentStreak = (stats: PickStats): { itemId: string; count: number } | null => {
+  const last = stats.recent[stats.recent.length - 1];
+  if (!last) return null;
+  let count = 0;
+  for (let i = stats.recent.length - 1; i >= 0 && stats.recent[i] === last; i--) count++;
+  return { itemId: last, count };
+};
+
+export const loadPickStats = (): PickStats => {
+  try {
+    const saved = localStorage.getItem(PICK_STATS_STORAGE);
+    return saved ? { ...EMPTY_PICK_STATS, ...JSON.parse(saved) } : EMPTY_PICK_STATS;
+  } catch (e) {
+    console.error('Failed to load pick stats from storage:', e);
+    return EMPTY_PICK_STATS;
+  }
+};
+
+export const savePickStats = (stats: PickStats) => {
+  localStorage.setItem(PICK_STATS_STORAGE, JSON.stringify(stats));
+};
@@ -0,0 +1,43 @@
+// --- 可复现的随机数（mulberry32） ---
+// 随机状态是一个 32 位整数，保存在游戏状态里，这样同样的种子和事件序列总能得到同样的结果。
+
+export const randomSeed = (): number => Math.floor(Math.random() * 0x100000000) >>> 0;
+
+// 返回 [0, 1) 之间的随机数和下一个随机状态
+export const nextRandom = (seed: number): [number, number] => {
+  const next = (seed + 0x6d2b79f5) >>> 0;
+  let t = next;
+  t = Math.imul(t ^ (t >>> 15), t | 1);
+  t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+  return [((t ^ (t >>> 14)) >>> 0) / 0x100000000, next];
+};
+
+// 返回 [0, length) 之间的随机下标和下一个随机状态
+export const randomIndex = (seed: number, length: number): [number, number] => {
+  const [value, next] = nextRandom(seed);
+  return [Math.floor(value * length), next];
+};
+
+// 可变的随机数发生器，用完后通过 seed 取回新的随机状态写回游戏状态
+export interface Rng {
+  next: () => number;
+  index: (length: number) => number;
+  readonly seed: number;
+}
+
+export const createRng = (seed: number): Rng => {
+  let current = seed;
+  return {
+    next: () => {
+      const [value, next] = nextRandom(current);
+      current = next;
+      return value;
+    },
+    index(length) {
+      return Math.floor(this.next() * length);
+    },
+    get seed() {
+      return current;
+    },
+  };
+};
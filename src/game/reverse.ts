@@ -0,0 +1,146 @@
+import type { Item } from '../types';
+import type { GameSnapshot, RoundRecord } from './engine';
+import { randomIndex } from './random';
+
+// --- 反向模式：猫咪藏物品，玩家来猜 ---
+
+export type HintLevel = 'hot' | 'warm' | 'cold';
+
+// 提示只描述结果，由界面负责转成文字
+export interface ReverseHint {
+  guessedId: string;
+  // 按猜的物品和藏起来的物品有多像判断冷热，和卡片在列表里的位置无关
+  level: HintLevel;
+  // 相似度（0~1），下一次猜测用来比较
+  similarity: number;
+  // 和上一次猜测相比是更像还是更不像，第一次猜测时为 null
+  trend: 'warmer' | 'colder' | 'same' | null;
+  // 藏起来的物品有、但猜的物品没有的标签
+  tag: string | null;
+}
+
+const HOT_SIMILARITY = 0.5;
+const WARM_SIMILARITY = 0.2;
+// 两边都有标签时，标签比名字更能说明是不是同一类东西
+const TAG_WEIGHT = 0.7;
+
+// 名字按相邻两个字切分（首尾补空格），“苹果”和“青苹果”会共享“苹果”
+const bigramsOf = (name: string): Set<string> => {
+  const text = ` ${name.trim().toLowerCase()} `;
+  const grams = new Set<string>();
+  for (let i = 0; i < text.length - 1; i++) grams.add(text.slice(i, i + 2));
+  return grams;
+};
+
+// Dice 系数：2 × 交集 / (两边数量之和)
+const overlapOf = (a: Set<string>, b: Set<string>): number => {
+  if (a.size + b.size === 0) return 0;
+  let shared = 0;
+  for (const value of a) if (b.has(value)) shared++;
+  return (2 * shared) / (a.size + b.size);
+};
+
+export const similarityOf = (a: Item, b: Item): number => {
+  const names = overlapOf(bigramsOf(a.name), bigramsOf(b.name));
+  const aTags = new Set(a.tags ?? []);
+  const bTags = new Set(b.tags ?? []);
+  if (aTags.size === 0 || bTags.size === 0) return names;
+  return TAG_WEIGHT * overlapOf(aTags, bTags) + (1 - TAG_WEIGHT) * names;
+};
+
+const levelOf = (similarity: number): HintLevel => {
+  if (similarity >= HOT_SIMILARITY) return 'hot';
+  if (similarity >= WARM_SIMILARITY) return 'warm';
+  return 'cold';
+};
+
+export const computeHint = (secret: Item, guessed: Item, previous: ReverseHint | null, guessCount: number): ReverseHint => {
+  const similarity = similarityOf(secret, guessed);
+  let trend: ReverseHint['trend'] = null;
+  if (previous) {
+    trend = similarity > previous.similarity ? 'warmer' : similarity < previous.similarity ? 'colder' : 'same';
+  }
+  // 每次猜错换一个标签，让提示越来越具体
+  const tags = (secret.tags ?? []).filter(tag => !(guessed.tags ?? []).includes(tag));
+  const tag = tags.length > 0 ? tags[(guessCount - 1) % tags.length] : null;
+  return { guessedId: guessed.id, level: levelOf(similarity), similarity, trend, tag };
+};
+
+const reverseRecord = (state: GameSnapshot, secret: Item, finalPick: Item | null, success: boolean, now: number): RoundRecord => ({
+  mode: 'reverse',
+  targetId: secret.id,
+  targetName: secret.name,
+  finalPickId: finalPick?.id ?? null,
+  finalPickName: finalPick?.name ?? null,
+  retries: state.playerGuesses.length,
+  success,
+  startedAt: state.roundStartedAt ?? now,
+  endedAt: now,
+});
+
+export const startReverseRound = (state: GameSnapshot, now: number): GameSnapshot => {
+  if (state.items.length === 0) return state;
+  const [index, seed] = randomIndex(state.seed, state.items.length);
+  return {
+    ...state,
+    phase: 'reverseGuessing',
+    secret: state.items[index],
+    seed,
+    playerGuesses: [],
+    hint: null,
+    target: null,
+    catChoice: null,
+    roundStartedAt: now,
+    deadline: state.rules.roundTimeMs === null ? null : now + state.rules.roundTimeMs,
+  };
+};
+
+// 限时规则下时间用完，直接揭晓答案
+export const expireReverseRound = (state: GameSnapshot, now: number): GameSnapshot => {
+  if (!state.secret) return state;
+  return {
+    ...state,
+    phase: 'reverseLost',
+    hint: null,
+    deadline: null,
+    lastRound: reverseRecord(state, state.secret, state.catChoice, false, now),
+  };
+};
+
+export const applyPlayerGuess = (state: GameSnapshot, itemId: string, now: number): GameSnapshot => {
+  const { secret } = state;
+  const guessed = state.items.find(i => i.id === itemId);
+  if (!secret || !guessed || state.playerGuesses.includes(itemId)) return state;
+
+  const max = state.rules.maxPlayerGuesses;
+  if (guessed.id === secret.id) {
+    return {
+      ...state,
+      phase: 'reverseWon',
+      catChoice: guessed,
+      score: state.score + (state.playerGuesses.length === 0 ? state.rules.firstTryPoints : state.rules.retryPoints),
+      hint: null,
+      deadline: null,
+      lastRound: reverseRecord(state, secret, guessed, true, now),
+    };
+  }
+
+  const playerGuesses = [...state.playerGuesses, guessed.id];
+  if (playerGuesses.length >= max) {
+    return {
+      ...state,
+      phase: 'reverseLost',
+      catChoice: guessed,
+      playerGuesses,
+      hint: null,
+      deadline: null,
+      lastRound: reverseRecord(state, secret, guessed, false, now),
+    };
+  }
+  return {
+    ...state,
+    catChoice: guessed,
+    playerGuesses,
+    hint: computeHint(secret, guessed, state.hint, playerGuesses.length),
+  };
+};
@@ -0,0 +1,25 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_RULES, normalizeRules, presetOf, RULE_LIMITS, RULE_PRESETS } from './rules';
+
+describe('game rules', () => {
+  it('recognises the presets and custom rules', () => {
+    expect(presetOf(RULE_PRESETS.toddler)).toBe('toddler');
+    expect(presetOf(RULE_PRESETS.challenge)).toBe('challenge');
+    expect(presetOf({ ...RULE_PRESETS.normal, tickMs: 150 })).toBeNull();
+  });
+
+  it('keeps every preset inside the settings limits', () => {
+    for (const rules of Object.values(RULE_PRESETS)) expect(normalizeRules(rules)).toEqual(rules);
+  });
+
+  it('clamps saved rules and fills in missing values', () => {
+    const rules = normalizeRules({ guessTicks: 999, tickMs: 10.4, maxRetries: null, roundTimeMs: undefined, retryPoints: Number.NaN });
+    expect(rules).toMatchObject({
+      guessTicks: RULE_LIMITS.guessTicks[1],
+      tickMs: RULE_LIMITS.tickMs[0],
+      maxRetries: null,
+      roundTimeMs: DEFAULT_RULES.roundTimeMs,
+      retryPoints: DEFAULT_RULES.retryPoints,
+    });
+  });
+});
@@ -0,0 +1,108 @@
+// --- 游戏规则和难度预设 ---
+
+export interface GameRules {
+  // 猜测动画跳动的次数和每次的间隔
+  guessTicks: number;
+  tickMs: number;
+  successResetMs: number;
+  // 猜错后最多能让猫咪重猜几次，null 表示不限
+  maxRetries: number | null;
+  // 反向模式下玩家最多能猜几次
+  maxPlayerGuesses: number;
+  // 限时：猜错后等待重猜、反向模式整轮的时间，null 表示不限时
+  roundTimeMs: number | null;
+  // 第一次就猜中和重猜后猜中的得分
+  firstTryPoints: number;
+  retryPoints: number;
+}
+
+export type RulePresetId = 'toddler' | 'normal' | 'challenge';
+
+export const RULE_PRESETS: Record<RulePresetId, GameRules> = {
+  // 动画短一点、慢一点，不限次数也不限时
+  toddler: {
+    guessTicks: 8,
+    tickMs: 250,
+    successResetMs: 4000,
+    maxRetries: null,
+    maxPlayerGuesses: 5,
+    roundTimeMs: null,
+    firstTryPoints: 1,
+    retryPoints: 1,
+  },
+  normal: {
+    guessTicks: 12,
+    tickMs: 200,
+    successResetMs: 3000,
+    maxRetries: null,
+    maxPlayerGuesses: 3,
+    roundTimeMs: null,
+    firstTryPoints: 2,
+    retryPoints: 1,
+  },
+  challenge: {
+    guessTicks: 16,
+    tickMs: 120,
+    successResetMs: 2000,
+    maxRetries: 2,
+    maxPlayerGuesses: 2,
+    roundTimeMs: 20000,
+    firstTryPoints: 3,
+    retryPoints: 1,
+  },
+};
+
+export const DEFAULT_RULES: GameRules = RULE_PRESETS.normal;
+
+// 设置界面里各项的可选范围
+export const RULE_LIMITS = {
+  guessTicks: [4, 30],
+  tickMs: [60, 400],
+  maxRetries: [0, 10],
+  maxPlayerGuesses: [1, 8],
+  roundTimeMs: [5000, 120000],
+  firstTryPoints: [0, 10],
+  retryPoints: [0, 10],
+} as const;
+
+// 和某个预设完全一致时返回它的 id，否则是自定义规则
+export const presetOf = (rules: GameRules): RulePresetId | null => {
+  const keys = Object.keys(DEFAULT_RULES) as (keyof GameRules)[];
+  const match = (Object.keys(RULE_PRESETS) as RulePresetId[]).find(id => keys.every(key => RULE_PRESETS[id][key] === rules[key]));
+  return match ?? null;
+};
+
+const clamp = (value: unknown, [min, max]: readonly [number, number], fallback: number): number =>
+  typeof value === 'number' && Number.isFinite(value) ? Math.min(max, Math.max(min, Math.round(value))) : fallback;
+
+const clampOptional = (value: unknown, limits: readonly [number, number], fallback: number | null): number | null =>
+  value === null ? null : value === undefined ? fallback : clamp(value, limits, fallback ?? limits[0]);
+
+// 把保存下来的（可能是旧版本或被改坏的）规则整理到合法范围内
+export const normalizeRules = (raw: Partial<GameRules>): GameRules => ({
+  guessTicks: clamp(raw.guessTicks, RULE_LIMITS.guessTicks, DEFAULT_RULES.guessTicks),
+  tickMs: clamp(raw.tickMs, RULE_LIMITS.tickMs, DEFAULT_RULES.tickMs),
+  successResetMs: clamp(raw.successResetMs, [500, 10000], DEFAULT_RULES.successResetMs),
+  maxRetries: clampOptional(raw.maxRetries, RULE_LIMITS.maxRetries, DEFAULT_RULES.maxRetries),
+  maxPlayerGuesses: clamp(raw.maxPlayerGuesses, RULE_LIMITS.maxPlayerGuesses, DEFAULT_RULES.maxPlayerGuesses),
+  roundTimeMs: clampOptional(raw.roundTimeMs, RULE_LIMITS.roundTimeMs, DEFAULT_RULES.roundTimeMs),
+  firstTryPoints: clamp(raw.firstTryPoints, RULE_LIMITS.firstTryPoints, DEFAULT_RULES.firstTryPoints),
+  retryPoints: clamp(raw.retryPoints, RULE_LIMITS.retryPoints, DEFAULT_RULES.retryPoints),
+});
+
+const RULES_STORAGE = 'cat_guess_rules';
+
+export const loadRules = (): GameRules => {
+  try {
+    const saved = localStorage.getItem(RULES_STORAGE);
+    if (!saved) return DEFAULT_RULES;
+    return normalizeRules(JSON.parse(saved) as Partial<GameRules>);
+  } catch (e) {
+    console.error('Failed to load game rules from storage:', e);
+    return DEFAULT_RULES;
+  }
+};
+
+export const saveRules = (rules: GameRules) => {
+  localStorage.setItem(RULES_STORAGE, JSON.stringify(rules));
+};
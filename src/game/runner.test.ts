@@ -0,0 +1,62 @@
+import { describe, expect, it } from 'vitest';
+import type { Item } from '../types';
+import { createManualClock } from './clock';
+import { createGame, replayGame } from './engine';
+import { createGameRunner } from './runner';
+
+const ITEMS: Item[] = ['fish', 'yarn', 'box', 'mouse', 'bell'].map(id => ({ id, name: id, image: '' }));
+
+// 用手动时钟玩几轮，返回运行器和猫咪每次跳到的物品
+const playRounds = (seed: number) => {
+  const clock = createManualClock(1000);
+  const runner = createGameRunner(createGame({ items: ITEMS, seed }), clock);
+  const choices: (string | null)[] = [];
+  runner.subscribe(() => choices.push(runner.getState().catChoice?.id ?? null));
+
+  for (const itemId of ['fish', 'box', 'fish']) {
+    runner.dispatch({ type: 'pick', itemId });
+    clock.advance(10000);
+    if (runner.getState().phase === 'fail') runner.dispatch({ type: 'reset' });
+  }
+  return { runner, choices };
+};
+
+describe('game runner', () => {
+  it('drives the guessing animation from the clock', () => {
+    const clock = createManualClock();
+    const initial = createGame({ items: ITEMS, seed: 1 });
+    const runner = createGameRunner(initial, clock);
+    runner.dispatch({ type: 'pick', itemId: 'yarn' });
+
+    clock.advance(initial.rules.tickMs * (initial.rules.guessTicks - 1));
+    expect(runner.getState()).toMatchObject({ phase: 'guessing', ticks: initial.rules.guessTicks - 1 });
+
+    clock.advance(initial.rules.tickMs);
+    const { phase } = runner.getState();
+    expect(['success', 'fail']).toContain(phase);
+    // 猜中后过一会儿自动回到等待状态
+    if (phase === 'success') {
+      clock.advance(initial.rules.successResetMs);
+      expect(runner.getState().phase).toBe('idle');
+    }
+    runner.destroy();
+  });
+
+  it('gives the same sequence for the same seed and replays from the log', () => {
+    const first = playRounds(42);
+    const second = playRounds(42);
+    expect(second.choices).toEqual(first.choices);
+    expect(second.runner.getState()).toEqual(first.runner.getState());
+
+    const replayed = replayGame(createGame({ items: ITEMS, seed: 42 }), first.runner.getLog());
+    expect(replayed).toEqual(first.runner.getState());
+    expect(replayed.stats.counts).toEqual({ fish: 2, box: 1 });
+  });
+
+  it('does not log events that leave the state unchanged', () => {
+    const runner = createGameRunner(createGame({ items: ITEMS, seed: 1 }), createManualClock());
+    runner.dispatch({ type: 'retry' });
+    runner.dispatch({ type: 'pick', itemId: 'missing' });
+    expect(runner.getLog()).toEqual([]);
+  });
+});
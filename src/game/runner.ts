@@ -0,0 +1,61 @@
+import { systemClock, type Clock, type TimerId } from './clock';
+import { gameReducer, nextTimedEvent, type GameEvent, type GameSnapshot } from './engine';
+
+// --- 游戏运行器 ---
+// 持有当前状态，按时钟调度定时事件，并记录每个事件以便回放。
+
+export interface RecordedEvent {
+  at: number;
+  event: GameEvent;
+}
+
+export interface GameRunner {
+  getState: () => GameSnapshot;
+  dispatch: (event: GameEvent) => void;
+  subscribe: (listener: () => void) => () => void;
+  getLog: () => RecordedEvent[];
+  destroy: () => void;
+}
+
+export const createGameRunner = (initial: GameSnapshot, clock: Clock = systemClock): GameRunner => {
+  let state = initial;
+  let timer: TimerId | null = null;
+  const log: RecordedEvent[] = [];
+  const listeners = new Set<() => void>();
+
+  const schedule = () => {
+    if (timer !== null) clock.clearTimeout(timer);
+    timer = null;
+    const next = nextTimedEvent(state, clock.now());
+    if (next) {
+      timer = clock.setTimeout(() => {
+        timer = null;
+        dispatch(next.event);
+      }, next.delay);
+    }
+  };
+
+  const dispatch = (event: GameEvent) => {
+    const prev = state;
+    const at = clock.now();
+    state = gameReducer(state, event, at);
+    if (state === prev) return;
+    log.push({ at, event });
+    schedule();
+    listeners.forEach(listener => listener());
+  };
+
+  return {
+    getState: () => state,
+    dispatch,
+    subscribe: (listener) => {
+      listeners.add(listener);
+      return () => { listeners.delete(listener); };
+    },
+    getLog: () => [...log],
+    destroy: () => {
+      if (timer !== null) clock.clearTimeout(timer);
+      timer = null;
+    },
+  };
+};
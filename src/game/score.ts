@@ -0,0 +1,11 @@
+// --- 总分（跨会话保存） ---
+const SCORE_STORAGE = 'cat_guess_score';
+
+export const loadScore = (): number => {
+  const saved = Number(localStorage.getItem(SCORE_STORAGE));
+  return Number.isFinite(saved) && saved > 0 ? saved : 0;
+};
+
+export const saveScore = (score: number) => {
+  localStorage.setItem(SCORE_STORAGE, String(score));
+};
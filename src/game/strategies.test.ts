@@ -0,0 +1,73 @@
+import { describe, expect, it } from 'vitest';
+import type { Item } from '../types';
+import { EMPTY_PICK_STATS, recordPick, type PickStats } from './pickStats';
+import { createRng } from './random';
+import { DEFAULT_STRATEGY, getStrategy, type GuessContext, type StrategyId } from './strategies';
+
+const ITEMS: Item[] = ['fish', 'yarn', 'box', 'mouse'].map(id => ({ id, name: id, image: '' }));
+
+const contextOf = (patch: Partial<GuessContext> = {}): GuessContext => ({
+  items: ITEMS,
+  target: ITEMS[0],
+  wrongGuesses: [],
+  stats: EMPTY_PICK_STATS,
+  settings: DEFAULT_STRATEGY,
+  ...patch,
+});
+
+// 用不同的种子各猜一次，统计每个物品被猜到的次数
+const tally = (id: StrategyId, ctx: GuessContext, rounds = 400) => {
+  const counts: Record<string, number> = {};
+  for (let seed = 0; seed < rounds; seed++) {
+    const { item } = getStrategy(id).guess(ctx, createRng(seed));
+    counts[item.id] = (counts[item.id] ?? 0) + 1;
+  }
+  return counts;
+};
+
+describe('guess strategies', () => {
+  it('is deterministic for the same seed', () => {
+    for (const id of ['uniform', 'frequency', 'avoidWrong', 'hard'] as StrategyId[]) {
+      const ctx = contextOf({ settings: { id, hardAccuracy: 0.5 } });
+      expect(getStrategy(id).guess(ctx, createRng(9))).toEqual(getStrategy(id).guess(ctx, createRng(9)));
+    }
+  });
+
+  it('falls back to uniform for an unknown id', () => {
+    expect(getStrategy('nope' as StrategyId).id).toBe('uniform');
+  });
+
+  it('uniform picks every item without a reason', () => {
+    const counts = tally('uniform', contextOf());
+    expect(Object.keys(counts).sort()).toEqual(['box', 'fish', 'mouse', 'yarn']);
+    expect(getStrategy('uniform').guess(contextOf(), createRng(1)).reason).toBeNull();
+  });
+
+  it('frequency favours the item the player keeps picking', () => {
+    const stats: PickStats = ['box', 'box', 'box'].reduce(recordPick, EMPTY_PICK_STATS);
+    const ctx = contextOf({ stats });
+    const counts = tally('frequency', ctx);
+    expect(Math.max(...Object.values(counts))).toBe(counts.box);
+
+    const seed = [...Array(50).keys()].find(s => getStrategy('frequency').guess(ctx, createRng(s)).item.id === 'box')!;
+    expect(getStrategy('frequency').guess(ctx, createRng(seed)).reason).toEqual({ kind: 'streak', itemId: 'box', count: 3 });
+  });
+
+  it('avoidWrong never repeats a wrong guess until everything was wrong', () => {
+    const ctx = contextOf({ wrongGuesses: ['yarn', 'box'] });
+    expect(Object.keys(tally('avoidWrong', ctx)).sort()).toEqual(['fish', 'mouse']);
+    expect(getStrategy('avoidWrong').guess(ctx, createRng(1)).reason).toEqual({ kind: 'avoid', itemIds: ['yarn', 'box'] });
+
+    const allWrong = contextOf({ wrongGuesses: ITEMS.map(i => i.id) });
+    expect(ITEMS).toContain(getStrategy('avoidWrong').guess(allWrong, createRng(1)).item);
+  });
+
+  it('hard follows its accuracy setting', () => {
+    const right = contextOf({ settings: { id: 'hard', hardAccuracy: 1 } });
+    expect(tally('hard', right)).toEqual({ fish: 400 });
+    expect(getStrategy('hard').guess(right, createRng(1)).reason).toEqual({ kind: 'hunch' });
+
+    const wrong = contextOf({ settings: { id: 'hard', hardAccuracy: 0 } });
+    expect(tally('hard', wrong).fish).toBeUndefined();
+  });
+});
@@ -0,0 +1,133 @@
+import type { Item } from '../types';
+import { currentStreak, type PickStats } from './pickStats';
+import type { Rng } from './random';
+
+// --- 猫咪猜测策略 ---
+
+export type StrategyId = 'uniform' | 'frequency' | 'avoidWrong' | 'hard';
+
+export interface StrategySettings {
+  id: StrategyId;
+  // 困难模式下直接猜中的概率（0~1）
+  hardAccuracy: number;
+}
+
+export const DEFAULT_STRATEGY: StrategySettings = { id: 'uniform', hardAccuracy: 0.5 };
+
+// 猫咪给出的理由，由界面负责转成文字
+export type GuessReason =
+  | { kind: 'streak'; itemId: string; count: number }
+  | { kind: 'favorite'; itemId: string; count: number }
+  | { kind: 'avoid'; itemIds: string[] }
+  | { kind: 'hunch' };
+
+export interface GuessContext {
+  items: Item[];
+  target: Item;
+  // 本轮已经猜错的物品
+  wrongGuesses: string[];
+  stats: PickStats;
+  settings: StrategySettings;
+}
+
+export interface Guess {
+  item: Item;
+  reason: GuessReason | null;
+}
+
+// 策略的名称和说明放在文案里（strategy.*）
+export interface GuessStrategy {
+  id: StrategyId;
+  guess: (ctx: GuessContext, rng: Rng) => Guess;
+}
+
+const pickUniform = (items: Item[], rng: Rng): Item => items[rng.index(items.length)];
+
+// 按权重抽取，权重全为 0 时退回均匀随机
+const pickWeighted = (items: Item[], weights: number[], rng: Rng): Item => {
+  const total = weights.reduce((sum, w) => sum + w, 0);
+  if (total <= 0) return pickUniform(items, rng);
+  let roll = rng.next() * total;
+  for (let i = 0; i < items.length; i++) {
+    roll -= weights[i];
+    if (roll < 0) return items[i];
+  }
+  return items[items.length - 1];
+};
+
+const uniformStrategy: GuessStrategy = {
+  id: 'uniform',
+  guess: (ctx, rng) => ({ item: pickUniform(ctx.items, rng), reason: null }),
+};
+
+const frequencyStrategy: GuessStrategy = {
+  id: 'frequency',
+  guess: (ctx, rng) => {
+    const { counts } = ctx.stats;
+    const streak = currentStreak(ctx.stats);
+    // 每个物品至少保留 1 的权重，连续选择的物品额外加权
+    const weights = ctx.items.map(item => {
+      const base = 1 + (counts[item.id] ?? 0);
+      return streak && streak.itemId === item.id ? base * (1 + streak.count) : base;
+    });
+    const item = pickWeighted(ctx.items, weights, rng);
+
+    if (streak && streak.itemId === item.id && streak.count >= 2) {
+      return { item, reason: { kind: 'streak', itemId: item.id, count: streak.count } };
+    }
+    const favorite = ctx.items.reduce<Item | null>((best, i) =>
+      (counts[i.id] ?? 0) > (best ? counts[best.id] ?? 0 : 0) ? i : best, null);
+    if (favorite && favorite.id === item.id) {
+      return { item, reason: { kind: 'favorite', itemId: item.id, count: counts[item.id] } };
+    }
+    return { item, reason: null };
+  },
+};
+
+const avoidWrongStrategy: GuessStrategy = {
+  id: 'avoidWrong',
+  guess: (ctx, rng) => {
+    const candidates = ctx.items.filter(item => !ctx.wrongGuesses.includes(item.id));
+    if (candidates.length === 0) return { item: pickUniform(ctx.items, rng), reason: null };
+    const reason: GuessReason | null = ctx.wrongGuesses.length > 0 ? { kind: 'avoid', itemIds: ctx.wrongGuesses } : null;
+    return { item: pickUniform(candidates, rng), reason };
+  },
+};
+
+const hardStrategy: GuessStrategy = {
+  id: 'hard',
+  guess: (ctx, rng) => {
+    if (rng.next() < ctx.settings.hardAccuracy) return { item: ctx.target, reason: { kind: 'hunch' } };
+    const others = ctx.items.filter(item => item.id !== ctx.target.id);
+    return { item: pickUniform(others.length > 0 ? others : ctx.items, rng), reason: null };
+  },
+};
+
+const STRATEGIES: Record<StrategyId, GuessStrategy> = {
+  uniform: uniformStrategy,
+  frequency: frequencyStrategy,
+  avoidWrong: avoidWrongStrategy,
+  hard: hardStrategy,
+};
+
+export const listStrategies = (): GuessStrategy[] => Object.values(STRATEGIES);
+
+export const getStrategy = (id: StrategyId): GuessStrategy => STRATEGIES[id] ?? uniformStrategy;
+
+const STRATEGY_STORAGE = 'cat_guess_strategy';
+
+export const loadStrategySettings = (): StrategySettings => {
+  try {
+    const saved = localStorage.getItem(STRATEGY_STORAGE);
+    if (!saved) return DEFAULT_STRATEGY;
+    const parsed = { ...DEFAULT_STRATEGY, ...JSON.parse(saved) } as StrategySettings;
+    return parsed.id in STRATEGIES ? parsed : DEFAULT_STRATEGY;
+  } catch (e) {
+    console.error('Failed to load strategy settings from storage:', e);
+    return DEFAULT_STRATEGY;
+  }
+};
+
+export const saveStrategySettings = (settings: StrategySettings) => {
+  localStorage.setItem(STRATEGY_STORAGE, JSON.stringify(settings));
+};
@@ -0,0 +1,12 @@
+import { useEffect, useState, useSyncExternalStore } from 'react';
+import type { Clock } from './clock';
+import type { GameSnapshot } from './engine';
+import { createGameRunner } from './runner';
+
+// --- React 绑定：组件只负责派发事件和渲染状态 ---
+export const useGame = (createInitial: () => GameSnapshot, clock?: Clock) => {
+  const [runner] = useState(() => createGameRunner(createInitial(), clock));
+  useEffect(() => () => runner.destroy(), [runner]);
+  const state = useSyncExternalStore(runner.subscribe, runner.getState);
+  return { state, dispatch: runner.dispatch, runner };
+};
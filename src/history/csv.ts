@@ -0,0 +1,37 @@
+import type { GameMode } from '../game/engine';
+import { computeModeStats } from './stats';
+import type { HistoryEntry } from './types';
+
+// --- 历史记录导出为 CSV ---
+
+const COLUMNS = ['id', 'deck', 'mode', 'target', 'cat_final_pick', 'success', 'retries', 'started_at', 'ended_at', 'duration_seconds'];
+
+const SUMMARY_COLUMNS = ['mode', 'rounds', 'successes', 'success_rate', 'longest_streak'];
+const MODES: GameMode[] = ['classic', 'reverse'];
+
+const escapeCell = (value: string | number | boolean | null): string => {
+  const text = value === null ? '' : String(value);
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export const historyToCsv = (entries: HistoryEntry[], deckNames: Record<string, string> = {}): string => {
+  const rows = entries.map(entry => [
+    entry.id,
+    deckNames[entry.deckId] ?? entry.deckId,
+    entry.mode,
+    entry.targetName,
+    entry.finalPickName,
+    entry.success,
+    entry.retries,
+    new Date(entry.startedAt).toISOString(),
+    new Date(entry.endedAt).toISOString(),
+    Math.round((entry.endedAt - entry.startedAt) / 1000),
+  ].map(escapeCell).join(','));
+  // 明细之后空一行，附上按玩法分开的汇总
+  const summary = MODES.map(mode => {
+    const stats = computeModeStats(entries, mode);
+    return [mode, stats.totalRounds, stats.successes, stats.successRate.toFixed(3), stats.longestStreak].map(escapeCell).join(',');
+  });
+  // 加上 BOM，Excel 打开中文才不会乱码
+  return '﻿' + [COLUMNS.join(','), ...rows, '', SUMMARY_COLUMNS.join(','), ...summary].join('\r\n');
+};
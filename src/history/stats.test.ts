@@ -0,0 +1,78 @@
+import { describe, expect, it } from 'vitest';
+import type { GameMode } from '../game/engine';
+import { historyToCsv } from './csv';
+import { computeStats, dayKey } from './stats';
+import type { HistoryEntry } from './types';
+
+const DAY = 24 * 60 * 60 * 1000;
+const NOW = new Date(2024, 4, 10, 12).getTime();
+
+let nextId = 1;
+const entry = (mode: GameMode, targetId: string, success: boolean, endedAt: number): HistoryEntry => ({
+  id: nextId++,
+  deckId: 'default',
+  mode,
+  targetId,
+  targetName: targetId,
+  finalPickId: null,
+  finalPickName: null,
+  retries: 0,
+  success,
+  startedAt: endedAt - 1000,
+  endedAt,
+});
+
+const ENTRIES: HistoryEntry[] = [
+  entry('classic', 'fish', true, NOW - 2 * DAY),
+  entry('classic', 'fish', true, NOW - 2 * DAY + 1),
+  entry('reverse', 'box', false, NOW - DAY),
+  entry('classic', 'yarn', false, NOW - DAY + 1),
+  // 反向模式里 target 是猫咪藏的物品，不能算进“最常被选”
+  entry('reverse', 'box', true, NOW),
+  entry('reverse', 'box', true, NOW + 1),
+  entry('reverse', 'box', true, NOW + 2),
+];
+
+describe('computeStats', () => {
+  it('keeps classic and reverse rounds apart', () => {
+    const stats = computeStats(ENTRIES, 7, NOW);
+    expect(stats.totalRounds).toBe(7);
+    expect(stats.classic).toMatchObject({ totalRounds: 3, successes: 2, longestStreak: 2, currentStreak: 0 });
+    expect(stats.classic.successRate).toBeCloseTo(2 / 3);
+    expect(stats.reverse).toMatchObject({ totalRounds: 4, successes: 3, successRate: 0.75, longestStreak: 3, currentStreak: 3 });
+    expect(stats.classic.perItem.map(i => i.itemId)).toEqual(['fish', 'yarn']);
+    expect(stats.reverse.perItem).toEqual([{ itemId: 'box', name: 'box', rounds: 4, successes: 3, successRate: 0.75 }]);
+  });
+
+  it('only counts classic picks as most picked', () => {
+    const { mostPicked } = computeStats(ENTRIES, 7, NOW);
+    expect(mostPicked.map(i => [i.itemId, i.rounds])).toEqual([['fish', 2], ['yarn', 1]]);
+  });
+
+  it('counts rounds of both modes per day', () => {
+    const { roundsPerDay } = computeStats(ENTRIES, 3, NOW);
+    expect(roundsPerDay).toEqual([
+      { day: dayKey(NOW - 2 * DAY), rounds: 2 },
+      { day: dayKey(NOW - DAY), rounds: 2 },
+      { day: dayKey(NOW), rounds: 3 },
+    ]);
+  });
+
+  it('returns empty stats without history', () => {
+    const stats = computeStats([], 7, NOW);
+    expect(stats.classic).toEqual({ totalRounds: 0, successes: 0, successRate: 0, longestStreak: 0, currentStreak: 0, perItem: [] });
+    expect(stats.mostPicked).toEqual([]);
+  });
+});
+
+describe('historyToCsv', () => {
+  it('appends a summary per mode after the rows', () => {
+    const lines = historyToCsv(ENTRIES).split('\r\n');
+    expect(lines).toHaveLength(1 + ENTRIES.length + 1 + 3);
+    expect(lines.slice(-3)).toEqual([
+      'mode,rounds,successes,success_rate,longest_streak',
+      'classic,3,2,0.667,2',
+      'reverse,4,3,0.750,3',
+    ]);
+  });
+});
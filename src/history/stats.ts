@@ -0,0 +1,101 @@
+import type { GameMode } from '../game/engine';
+import type { HistoryEntry } from './types';
+
+// --- 历史记录统计 ---
+
+export interface ItemStat {
+  itemId: string;
+  name: string;
+  rounds: number;
+  successes: number;
+  successRate: number;
+}
+
+export interface DayStat {
+  day: string;
+  rounds: number;
+}
+
+// 单个玩法的统计：经典模式里 target 是玩家选的物品，反向模式里是猫咪藏的物品，两者不能混在一起算
+export interface ModeStats {
+  totalRounds: number;
+  successes: number;
+  successRate: number;
+  longestStreak: number;
+  currentStreak: number;
+  perItem: ItemStat[];
+}
+
+export interface HistoryStats {
+  totalRounds: number;
+  classic: ModeStats;
+  reverse: ModeStats;
+  roundsPerDay: DayStat[];
+  // 只统计经典模式，也就是玩家自己选的物品
+  mostPicked: ItemStat[];
+}
+
+// 本地时区的日期，形如 2024-05-01
+export const dayKey = (timestamp: number): string => {
+  const date = new Date(timestamp);
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+};
+
+const sortByEnd = (entries: HistoryEntry[]) => [...entries].sort((a, b) => a.endedAt - b.endedAt);
+
+export const computeModeStats = (entries: HistoryEntry[], mode: GameMode): ModeStats => {
+  const sorted = sortByEnd(entries.filter(entry => entry.mode === mode));
+
+  let longestStreak = 0;
+  let currentStreak = 0;
+  for (const entry of sorted) {
+    currentStreak = entry.success ? currentStreak + 1 : 0;
+    longestStreak = Math.max(longestStreak, currentStreak);
+  }
+
+  const byItem = new Map<string, ItemStat>();
+  for (const entry of sorted) {
+    const stat = byItem.get(entry.targetId) ?? { itemId: entry.targetId, name: entry.targetName, rounds: 0, successes: 0, successRate: 0 };
+    stat.name = entry.targetName;
+    stat.rounds++;
+    if (entry.success) stat.successes++;
+    stat.successRate = stat.successes / stat.rounds;
+    byItem.set(entry.targetId, stat);
+  }
+
+  const successes = sorted.filter(entry => entry.success).length;
+  return {
+    totalRounds: sorted.length,
+    successes,
+    successRate: sorted.length ? successes / sorted.length : 0,
+    longestStreak,
+    currentStreak,
+    perItem: [...byItem.values()].sort((a, b) => a.name.localeCompare(b.name)),
+  };
+};
+
+export const computeStats = (entries: HistoryEntry[], days = 7, now = Date.now()): HistoryStats => {
+  const classic = computeModeStats(entries, 'classic');
+  const reverse = computeModeStats(entries, 'reverse');
+
+  // 每天的轮数是活跃度，两种玩法一起算
+  const counts = new Map<string, number>();
+  for (const entry of entries) {
+    const key = dayKey(entry.endedAt);
+    counts.set(key, (counts.get(key) ?? 0) + 1);
+  }
+  const roundsPerDay: DayStat[] = [];
+  for (let i = days - 1; i >= 0; i--) {
+    const day = dayKey(now - i * 24 * 60 * 60 * 1000);
+    roundsPerDay.push({ day, rounds: counts.get(day) ?? 0 });
+  }
+
+  return {
+    totalRounds: entries.length,
+    classic,
+    reverse,
+    roundsPerDay,
+    mostPicked: [...classic.perItem].sort((a, b) => b.rounds - a.rounds).slice(0, 5),
+  };
+};
@@ -0,0 +1,7 @@
+import type { RoundRecord } from '../game/engine';
+
+// --- 历史记录类型定义 ---
+export interface HistoryEntry extends RoundRecord {
+  id: number;
+  deckId: string;
+}
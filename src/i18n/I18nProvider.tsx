@@ -0,0 +1,20 @@
+import { useEffect, useMemo, useState, type ReactNode } from 'react';
+import { loadLocale, saveLocale, speechLangOf, translate, type Locale } from '.';
+import { I18nContext, type I18nValue } from './context';
+
+export default function I18nProvider({ children }: { children: ReactNode }) {
+  const [locale, setLocale] = useState<Locale>(loadLocale);
+
+  useEffect(() => {
+    saveLocale(locale);
+    document.documentElement.lang = speechLangOf(locale);
+  }, [locale]);
+
+  const value = useMemo<I18nValue>(() => ({
+    locale,
+    setLocale,
+    t: (key, params) => translate(locale, key, params),
+  }), [locale]);
+
+  return <I18nContext.Provider value={value}>{children}</I18nContext.Provider>;
+}
@@ -0,0 +1,16 @@
+import { createContext, useContext } from 'react';
+import type { Locale, MessageKey, TranslateParams } from '.';
+
+export interface I18nValue {
+  locale: Locale;
+  setLocale: (locale: Locale) => void;
+  t: (key: MessageKey, params?: TranslateParams) => string;
+}
+
+export const I18nContext = createContext<I18nValue | null>(null);
+
+export const useI18n = (): I18nValue => {
+  const value = useContext(I18nContext);
+  if (!value) throw new Error('useI18n must be used inside I18nProvider');
+  return value;
+};
@@ -0,0 +1,320 @@
+import type { MessageKey } from './zh';
+
+// --- English messages ---
+export const en: Record<MessageKey, string> = {
+  'app.title': 'Cat Guess',
+  'app.star': 'Give a Star',
+  'app.language': 'Switch language',
+  'app.close': 'Close',
+
+  'cat.reason.streak': 'You picked {name} {count} times in a row, meow!',
+  'cat.reason.favorite': 'You love picking {name}, {count} times so far, meow!',
+  'cat.reason.avoid': 'I already got {names} wrong, so I tried something else, meow!',
+  'cat.reason.hunch': 'My nose smelled the answer, meow!',
+  'cat.reason.unknownItem': 'that thing',
+  'cat.hint.hot': 'Hot! That is very close to it, meow!',
+  'cat.hint.warm': 'Getting warm, a bit alike, meow.',
+  'cat.hint.cold': 'Cold, nothing alike, meow.',
+  'cat.hint.warmer': 'More alike than last time.',
+  'cat.hint.colder': 'Less alike than last time.',
+  'cat.hint.same': 'About as alike as last time.',
+  'cat.hint.tag': 'Clue: {tag}.',
+  'cat.hint.ai': 'It looks like: {text}',
+
+  'dialogue.prompt': 'You are a playful, cute cat playing a guessing game with a human. {situation}{details}Look at the object in the picture and reply with one short, cheeky English sentence under 15 words that ends with "meow". Return only that sentence.',
+  'dialogue.situation.success': 'You just guessed the {item} the human picked. ',
+  'dialogue.situation.fail': 'You guessed wrong; the human picked the {item}. ',
+  'dialogue.situation.reverseWon': 'The human found the {item} you hid. ',
+  'dialogue.situation.reverseLost': "The human couldn't find the {item} you hid. ",
+  'dialogue.detail.streak': 'You have guessed right {streak} times in a row. ',
+  'dialogue.detail.retries': 'This is guess number {attempt} this round. ',
+  'dialogue.detail.time': 'It is {time} now. ',
+  'dialogue.time.morning': 'morning',
+  'dialogue.time.afternoon': 'afternoon',
+  'dialogue.time.evening': 'evening',
+  'dialogue.time.night': 'late at night',
+  'list.separator': ', ',
+  'sentence.separator': ' ',
+
+  'game.retry': 'Guess again, meow',
+  'game.changeItem': 'Pick another',
+  'game.hide': 'Let the cat hide one',
+  'game.playAgain': 'Play again',
+  'game.back': 'Back',
+  'game.guessesLeft': '{count} guesses left',
+  'game.noRetries': 'No retries left, meow',
+
+  'warehouse.title': 'Item Warehouse',
+  'warehouse.hint': 'Drag or long-press to reorder, tap an item to start',
+  'warehouse.empty': 'This deck is empty. Tap + to add items, meow~',
+  'warehouse.keyboardHint': 'Press Enter to choose, arrow keys to move between items, Alt or Ctrl with an arrow key to reorder, E to edit, and Delete to remove.',
+  'warehouse.delete': 'Delete {name}',
+  'warehouse.edit': 'Edit {name}',
+  'warehouse.search': 'Search names or tags',
+  'warehouse.clearSearch': 'Clear search',
+  'warehouse.tagFilter': 'Filter by tag',
+  'warehouse.allTags': 'All',
+  'warehouse.noMatches': 'Nothing matches, meow~',
+  'warehouse.select': 'Select',
+  'warehouse.doneSelecting': 'Done',
+  'warehouse.selected': '{count} selected',
+  'warehouse.selectAll': 'Select all',
+  'warehouse.bulkTag': 'Change tags of selected items',
+  'warehouse.addTag': 'Add tag',
+  'warehouse.removeTag': 'Remove tag',
+  'warehouse.deleteSelected': 'Delete',
+
+  'edit.title': 'Edit item',
+  'edit.replaceImage': 'Replace image',
+  'edit.tags': 'Tags',
+  'edit.tagPlaceholder': 'Type a tag and press Enter',
+  'edit.addTag': 'Add tag',
+  'edit.removeTag': 'Remove tag {tag}',
+  'edit.save': 'Save changes',
+
+  'undo.deleted': '{name} deleted',
+  'undo.deletedMany': '{count} items deleted',
+  'undo.action': 'Undo',
+
+  'offline.badge': 'Offline',
+  'offline.title': "You're offline. The game still works, but new items need to be named by hand.",
+  'offline.recognizing': 'To recognize',
+  'offline.pending': '{count} items added offline are waiting to be recognized.',
+
+  'update.available': 'A new version of the cat is ready!',
+  'update.reload': 'Update',
+
+  'audio.mute': 'Mute',
+  'audio.unmute': 'Unmute',
+  'audio.effects': 'Sound effects',
+  'audio.speech': 'Read aloud',
+  'audio.voice': 'Voice',
+  'audio.defaultVoice': 'Browser default',
+  'audio.rate': 'Speed: {value}',
+  'audio.pitch': 'Pitch: {value}',
+  'audio.preview': 'Preview',
+  'audio.previewText': "Meow~ I'm the cat, let's play together!",
+  'audio.speechUnsupported': "This browser can't read aloud, so the cat will only talk in text, meow.",
+  'audio.mutedHint': 'Sound is muted. Use the speaker button at the top to turn it back on.',
+
+  'error.lastItem': 'Keep at least one item in the warehouse, meow!',
+  'error.imageTooLarge': 'Still over 1MB after compressing, try another image, meow~',
+  'error.ai.missingKey': 'No {provider} API Key yet. Please add one in settings, meow!',
+  'error.ai.missingBaseUrl': 'No {provider} base URL yet. Please add one in settings, meow!',
+  'error.ai.invalidKey': '{provider} rejected the API Key. Please check it in settings, meow!',
+  'error.ai.badRequest': '{provider} rejected the request. Check the model name and base URL in settings, meow!',
+  'error.ai.rateLimited': "{provider} says we're asking too often. Take a break and try again, meow~",
+  'error.ai.serverError': '{provider} is having trouble right now. Try again later, meow...',
+  'error.ai.timeout': '{provider} took too long to answer. You can raise the timeout in settings, meow~',
+  'error.ai.network': "Can't reach {provider}. Check your network and base URL, meow...",
+  'error.unknown': 'Something went wrong, meow...',
+  'error.storageUnavailable': 'Local storage is unavailable, new items will not be saved, meow...',
+  'error.quotaExceeded': 'The warehouse is full! Delete some items first, meow~',
+  'error.saveFailed': 'Failed to save items, meow...',
+  'error.deckOpenFailed': 'Could not open that deck, meow...',
+  'error.deckDeleteFailed': 'Failed to delete the deck, meow...',
+  'error.invalidDeckFile': 'That file is not a valid deck, meow...',
+  'error.invalidShareLink': 'This share link is broken and cannot be opened.',
+
+  'add.title': 'Add an Item',
+  'add.name': 'Item name',
+  'add.namePlaceholder': 'Give it a name, meow?',
+  'add.analyzingPlaceholder': 'The cat is looking...',
+  'add.unknownItem': 'Unknown item',
+  'add.offline': "You're offline, so the cat can't recognize anything right now. Name items yourself, or keep \"Unknown item\" and they'll be recognized once you're back online, meow~",
+  'add.image': 'Images are compressed to under 1MB',
+  'add.pick': 'Choose images (several at once)',
+  'add.save': 'Save to warehouse',
+  'add.camera': 'Take a photo',
+  'add.saveMany': 'Save {count} items to warehouse',
+
+  'upload.queue': 'Images to add',
+  'upload.status.pending': 'Waiting...',
+  'upload.status.compressing': 'Compressing...',
+  'upload.status.recognizing': 'Recognizing...',
+  'upload.status.ready': 'Ready',
+  'upload.status.failed': 'Failed',
+  'upload.status.deferred': 'Will be recognized when online',
+  'upload.error.invalidImage': 'This image could not be opened, meow...',
+  'upload.error.aiFailed': 'Not recognized, please name it yourself, meow',
+  'upload.edit': 'Crop or rotate',
+  'upload.skip': 'Skip this one',
+  'upload.restore': 'Keep this one',
+
+  'camera.preview': 'Camera preview',
+  'camera.capture': 'Take photo',
+  'camera.switch': 'Switch camera',
+  'camera.back': 'Back',
+  'camera.failed': 'Could not open the camera, meow. Please check camera permissions.',
+
+  'crop.area': 'Crop area',
+  'crop.hint': 'Drag the box to move it, drag the corner to resize',
+  'crop.rotateLeft': 'Rotate left',
+  'crop.rotateRight': 'Rotate right',
+  'crop.reset': 'Use whole image',
+  'crop.cancel': 'Cancel',
+  'crop.confirm': 'Use this',
+
+  'deck.fallbackName': 'Deck',
+  'deck.defaultName': 'My warehouse',
+  'deck.importedName': 'Imported deck',
+  'deck.mine': 'My decks',
+  'deck.newName': 'Name of the new deck',
+  'deck.renamePlaceholder': 'New name',
+  'deck.confirm': 'OK',
+  'deck.createEmpty': 'New empty deck',
+  'deck.createFromStarter': 'New from template: {name}',
+  'deck.rename': 'Rename this deck',
+  'deck.duplicate': 'Duplicate this deck',
+  'deck.copyName': '{name} copy',
+  'deck.export': 'Export to file',
+  'deck.share': 'Share',
+  'deck.import': 'Import from file',
+  'deck.delete': 'Delete this deck',
+  'deck.confirmDelete': 'Click again to delete',
+  'deck.starter.kitchen': 'Kitchen',
+  'deck.starter.toys': 'Toys',
+
+  'settings.title': 'Settings',
+  'settings.language': 'Language',
+  'settings.skin': 'Cat skin',
+  'skin.calico': 'Calico',
+  'skin.tabby': 'Tabby',
+  'skin.tuxedo': 'Tuxedo',
+  'skin.scholar': 'Scholar',
+  'skin.upload': 'Upload a skin (JSON, optionally with SVG)',
+  'skin.invalid': 'That skin file is not valid. Please check the JSON and SVG.',
+  'skin.delete': 'Delete skin {name}',
+  'settings.provider': 'Recognition service',
+  'settings.geminiHint': 'AI item recognition needs a Gemini API Key. You can get one for free from Google AI Studio.',
+  'settings.openaiHint': 'Works with any OpenAI-compatible vision endpoint, such as a local Ollama or LM Studio server. Local servers usually need no key.',
+  'settings.manualHint': 'No AI: you name each item yourself when adding it, meow~',
+  'settings.optional': ' (optional)',
+  'settings.apiKeyPlaceholder': 'Enter your API key here',
+  'settings.model': 'Model',
+  'settings.baseUrl': 'Base URL',
+  'settings.prompt': 'Recognition prompt',
+  'settings.resetDefaults': 'Reset to defaults',
+  'settings.aiHints': 'Let the AI describe the hidden item in reverse mode',
+  'settings.aiDialogue': 'Let AI speak as the cat (one extra request per round)',
+  'settings.timeout': 'Recognition timeout',
+  'settings.audio': 'Sound',
+  'settings.strategy': 'Cat strategy',
+  'settings.hardAccuracy': 'Hit rate: {percent}%',
+  'settings.save': 'Save settings',
+  'settings.rules': 'Game rules',
+  'rules.preset.toddler': 'Toddler',
+  'rules.preset.normal': 'Normal',
+  'rules.preset.challenge': 'Challenge',
+  'rules.custom': 'Custom rules',
+  'rules.guessTicks': 'Guessing animation: {count} steps',
+  'rules.tickMs': 'Animation speed: {ms} ms per step',
+  'rules.maxRetries': 'Max retries',
+  'rules.unlimited': 'Unlimited',
+  'rules.roundTime': 'Time limit',
+  'rules.untimed': 'None',
+  'rules.seconds': '{count} seconds',
+  'rules.firstTryPoints': 'Points on first try',
+  'rules.retryPoints': 'Points after a retry',
+  'rules.maxPlayerGuesses': 'Reverse mode guesses: {count}',
+  'rules.timeLeft': '{count} seconds left',
+
+  'provider.gemini': 'Google Gemini',
+  'provider.openai': 'OpenAI-compatible API',
+  'provider.manual': 'Manual naming (no AI)',
+  'provider.mock': 'Mock recognition (debug)',
+  'provider.prompt': 'Identify the object in this image. Reply with only its English name, at most 3 words.',
+  'provider.hintPrompt': 'Describe the object in this image in one short English sentence without naming it.',
+
+  'strategy.uniform': 'Random',
+  'strategy.uniform.description': 'Every item has the same chance.',
+  'strategy.frequency': 'Good memory',
+  'strategy.frequency.description': 'Remembers what you pick most and guesses those first.',
+  'strategy.avoidWrong': 'Learns from mistakes',
+  'strategy.avoidWrong.description': 'Never repeats a wrong guess in the same round.',
+  'strategy.hard': 'Eagle eye',
+  'strategy.hard.description': 'Guesses right at the chosen rate, randomly otherwise.',
+
+  'stats.title': 'Statistics',
+  'stats.loadFailed': 'Failed to load the history, meow...',
+  'stats.score': 'Score',
+  'stats.successRate': 'Hit rate ({count} rounds)',
+  'stats.longestStreak': 'Longest streak',
+  'stats.lastDays': 'Last {days} days',
+  'stats.mostPicked': 'Most picked items',
+  'stats.times': '{count}×',
+  'stats.perItem': 'Hit rate per item',
+  'stats.item': 'Item',
+  'stats.rounds': 'Rounds',
+  'stats.successes': 'Hits',
+  'stats.rate': 'Rate',
+  'stats.empty': 'No rounds yet. Pick something for the cat to guess!',
+  'stats.byMode': 'Stats by mode',
+  'stats.emptyMode': 'No rounds in this mode yet, meow~',
+  'stats.exportCsv': 'Export CSV',
+
+  'players.title': 'Take turns',
+  'players.open': 'Multiplayer',
+  'players.defaultName': 'Player {index}',
+  'players.add': 'Add player',
+  'players.remove': 'Remove {name}',
+  'players.turns': 'Turns per player',
+  'players.turnsOption': '{count} turns',
+  'players.start': 'Start match',
+  'players.inProgress': 'A match is in progress. End it to change players.',
+  'players.end': 'End match',
+
+  'match.turn': "{name}, it's your turn",
+  'match.progress': 'Turn {turn}/{total}',
+  'match.streak': 'Streak {count}',
+  'match.title': 'Match over',
+  'match.winner': '{name} wins!',
+  'match.tie': "It's a tie between {names}!",
+  'match.bestStreak': 'Best streak {count}',
+  'match.rematch': 'Rematch',
+  'match.close': 'Done',
+
+  'mode.classic': 'Cat guesses',
+  'mode.reverse': 'I guess',
+  'mode.toggle': 'Switch mode',
+
+  'tag.soft': 'soft',
+  'tag.white': 'white',
+  'tag.home': 'used at home',
+  'tag.food': 'edible',
+  'tag.orange': 'orange',
+  'tag.vegetable': 'a vegetable',
+  'tag.kitchen': 'in the kitchen',
+  'tag.blue': 'blue',
+  'tag.round': 'round',
+  'tag.metal': 'made of metal',
+  'tag.long': 'long',
+  'tag.pink': 'pink',
+  'tag.drink': 'for drinking',
+  'tag.red': 'red',
+  'tag.fruit': 'a fruit',
+  'tag.toy': 'a toy',
+  'tag.yellow': 'yellow',
+  'tag.square': 'square',
+  'tag.animal': 'an animal',
+  'tag.purple': 'purple',
+  'tag.outdoor': 'played outside',
+
+  'share.title': 'Share "{name}"',
+  'share.preparing': 'Packing thumbnails...',
+  'share.failed': 'Could not create a share link, meow. Please try again.',
+  'share.qrLabel': 'QR code of the share link',
+  'share.qrHint': 'Scan it with another device to open the deck',
+  'share.qrSmaller': 'To fit in the QR code, scanned pictures are a little blurrier',
+  'share.qrPartial': 'The QR code only holds the first {count} of {total} items. Copy the link or download the file for the whole deck.',
+  'share.qrTooLarge': 'Too many items to fit in a QR code. Copy the link or download the file instead.',
+  'share.copyLink': 'Copy link',
+  'share.copied': 'Copied',
+  'share.download': 'Download deck file',
+  'share.privacy': 'Everything is packed into the link; nothing is uploaded to a server.',
+  'shared.title': 'A deck was shared with you',
+  'shared.summary': '"{name}", {count} items',
+  'shared.import': 'Import as a new deck',
+  'shared.merge': 'Merge into the current deck',
+  'shared.duplicates': '{count} items share a name with the current deck and will be skipped when merging',
+};
@@ -0,0 +1,51 @@
+import type { Item } from '../types';
+import { en } from './en';
+import { zh, type MessageKey } from './zh';
+
+// --- 多语言 ---
+
+export type Locale = 'zh' | 'en';
+export type { MessageKey } from './zh';
+
+export const LOCALES: { id: Locale; label: string; speechLang: string }[] = [
+  { id: 'zh', label: '中文', speechLang: 'zh-CN' },
+  { id: 'en', label: 'English', speechLang: 'en-US' },
+];
+
+const MESSAGES: Record<Locale, Record<MessageKey, string>> = { zh, en };
+
+const LOCALE_STORAGE = 'cat_guess_locale';
+
+export type TranslateParams = Record<string, string | number>;
+
+// 替换 {name} 形式的占位符，没有提供的参数原样保留
+export const fillTemplate = (template: string, params: TranslateParams): string =>
+  template.replace(/\{(\w+)\}/g, (match, name: string) => (name in params ? String(params[name]) : match));
+
+// 取出文案并替换占位符
+export const translate = (locale: Locale, key: MessageKey, params?: TranslateParams): string => {
+  const template = MESSAGES[locale]?.[key] ?? zh[key];
+  return params ? fillTemplate(template, params) : template;
+};
+
+export const speechLangOf = (locale: Locale): string =>
+  LOCALES.find(l => l.id === locale)?.speechLang ?? 'zh-CN';
+
+// 物品在当前语言下的名字，没有翻译时使用原名
+export const itemName = (item: Item, locale: Locale): string => item.names?.[locale] || item.name;
+
+// 内置标签有翻译，用户自己写的标签原样显示
+export const tagLabel = (tag: string, locale: Locale): string => {
+  const key = `tag.${tag}`;
+  return key in zh ? translate(locale, key as MessageKey) : tag;
+};
+
+export const loadLocale = (): Locale => {
+  const saved = localStorage.getItem(LOCALE_STORAGE);
+  if (saved && saved in MESSAGES) return saved as Locale;
+  return navigator.language.toLowerCase().startsWith('zh') ? 'zh' : 'en';
+};
+
+export const saveLocale = (locale: Locale) => {
+  localStorage.setItem(LOCALE_STORAGE, locale);
+};
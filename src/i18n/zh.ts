@@ -0,0 +1,320 @@
+// --- 中文文案 ---
+export const zh = {
+  'app.title': '小猫猜猜乐',
+  'app.star': 'Give a Star',
+  'app.language': '切换语言',
+  'app.close': '关闭',
+
+  'cat.reason.streak': '你已经连续选了 {count} 次{name}了喵！',
+  'cat.reason.favorite': '你最喜欢选{name}了，一共选了 {count} 次喵！',
+  'cat.reason.avoid': '刚才猜错了{names}，这次换一个喵！',
+  'cat.reason.hunch': '我的鼻子闻到答案了喵！',
+  'cat.reason.unknownItem': '那个东西',
+  'cat.hint.hot': '好烫！和它很像了喵！',
+  'cat.hint.warm': '有点暖和了，有几分像喵。',
+  'cat.hint.cold': '好冷，一点都不像喵。',
+  'cat.hint.warmer': '比上次更像了。',
+  'cat.hint.colder': '比上次更不像了。',
+  'cat.hint.same': '和上次差不多像。',
+  'cat.hint.tag': '线索：{tag}。',
+  'cat.hint.ai': '它看起来像：{text}',
+
+  'dialogue.prompt': '你是一只调皮可爱的小猫，正在和人类玩猜物品的游戏。{situation}{details}看着图片里的东西，用一句不超过 25 个字的中文俏皮话回应，句尾带“喵”，只返回这句话。',
+  'dialogue.situation.success': '你刚刚猜中了人类选的{item}。',
+  'dialogue.situation.fail': '你没猜中，人类选的是{item}。',
+  'dialogue.situation.reverseWon': '人类猜中了你藏起来的{item}。',
+  'dialogue.situation.reverseLost': '人类没找到你藏起来的{item}。',
+  'dialogue.detail.streak': '你已经连续猜中 {streak} 次了。',
+  'dialogue.detail.retries': '这是这一轮第 {attempt} 次猜。',
+  'dialogue.detail.time': '现在是{time}。',
+  'dialogue.time.morning': '早上',
+  'dialogue.time.afternoon': '下午',
+  'dialogue.time.evening': '晚上',
+  'dialogue.time.night': '深夜',
+  'list.separator': '、',
+  'sentence.separator': '',
+
+  'game.retry': '再猜一次喵',
+  'game.changeItem': '换个物品',
+  'game.hide': '让猫咪藏一个',
+  'game.playAgain': '再来一局',
+  'game.back': '返回',
+  'game.guessesLeft': '还能猜 {count} 次',
+  'game.noRetries': '重猜次数用完了喵',
+
+  'warehouse.title': '物品仓库',
+  'warehouse.hint': '长按拖动排序，点击物品开始猜测',
+  'warehouse.empty': '这个物品组还是空的，点右上角的 + 添加物品喵~',
+  'warehouse.keyboardHint': '按回车选择，左右方向键切换物品，按住 Alt 或 Ctrl 再按方向键调整顺序，E 键编辑，Delete 键删除。',
+  'warehouse.delete': '删除{name}',
+  'warehouse.edit': '编辑{name}',
+  'warehouse.search': '搜索名字或标签',
+  'warehouse.clearSearch': '清除搜索',
+  'warehouse.tagFilter': '按标签筛选',
+  'warehouse.allTags': '全部',
+  'warehouse.noMatches': '没有找到符合条件的物品喵~',
+  'warehouse.select': '多选',
+  'warehouse.doneSelecting': '完成',
+  'warehouse.selected': '已选 {count} 个',
+  'warehouse.selectAll': '全选',
+  'warehouse.bulkTag': '批量修改标签',
+  'warehouse.addTag': '加标签',
+  'warehouse.removeTag': '去标签',
+  'warehouse.deleteSelected': '删除',
+
+  'edit.title': '编辑物品',
+  'edit.replaceImage': '换一张图片',
+  'edit.tags': '标签',
+  'edit.tagPlaceholder': '输入标签后回车',
+  'edit.addTag': '添加标签',
+  'edit.removeTag': '移除标签{tag}',
+  'edit.save': '保存修改',
+
+  'undo.deleted': '已删除{name}',
+  'undo.deletedMany': '已删除 {count} 个物品',
+  'undo.action': '撤销',
+
+  'offline.badge': '离线',
+  'offline.title': '现在没有网络，游戏照常能玩，添加物品时需要自己起名字。',
+  'offline.recognizing': '待识别',
+  'offline.pending': '{count} 个离线时添加的物品等待识别。',
+
+  'update.available': '小猫有新版本啦！',
+  'update.reload': '更新',
+
+  'audio.mute': '静音',
+  'audio.unmute': '取消静音',
+  'audio.effects': '音效',
+  'audio.speech': '语音播报',
+  'audio.voice': '声音',
+  'audio.defaultVoice': '浏览器默认',
+  'audio.rate': '语速：{value}',
+  'audio.pitch': '音调：{value}',
+  'audio.preview': '试听',
+  'audio.previewText': '喵~ 我是小猫，一起来玩吧！',
+  'audio.speechUnsupported': '这个浏览器不支持语音播报，小猫只能用文字说话了喵。',
+  'audio.mutedHint': '现在是静音状态，点顶部的喇叭可以打开声音。',
+
+  'error.lastItem': '仓库里至少要留一个东西喵！',
+  'error.imageTooLarge': '图片压缩后还是超过 1MB 啦，换一张试试喵~',
+  'error.ai.missingKey': '还没有填写 {provider} 的 API Key，请在设置里填上喵！',
+  'error.ai.missingBaseUrl': '还没有填写 {provider} 的接口地址，请在设置里填上喵！',
+  'error.ai.invalidKey': '{provider} 说这个 API Key 不对，请在设置里检查一下喵！',
+  'error.ai.badRequest': '{provider} 拒绝了请求，请检查设置里的模型名称和接口地址喵！',
+  'error.ai.rateLimited': '{provider} 说请求太频繁啦，歇一会儿再试喵~',
+  'error.ai.serverError': '{provider} 的服务出了点问题，稍后再试喵...',
+  'error.ai.timeout': '{provider} 太久没有回应，可以在设置里把超时时间调长一点喵~',
+  'error.ai.network': '连不上 {provider}，请检查网络和接口地址喵...',
+  'error.unknown': '发生了未知错误喵...',
+  'error.storageUnavailable': '本地存储打不开了喵，这次添加的物品不会被保存...',
+  'error.quotaExceeded': '仓库塞不下啦！请删掉一些物品再添加喵~',
+  'error.saveFailed': '物品保存失败了喵...',
+  'error.deckOpenFailed': '打不开这个物品组喵...',
+  'error.deckDeleteFailed': '删除物品组失败了喵...',
+  'error.invalidDeckFile': '这个文件不是有效的物品组喵...',
+  'error.invalidShareLink': '分享链接已损坏，无法打开喵。',
+
+  'add.title': '扩充仓库',
+  'add.name': '物品名称',
+  'add.namePlaceholder': '给它起个名字喵？',
+  'add.analyzingPlaceholder': '猫咪正在观察...',
+  'add.unknownItem': '未知物品',
+  'add.offline': '现在没有网络，小猫暂时认不出东西。可以先自己起名字；没改名的物品会先叫“未知物品”，联网后自动识别喵~',
+  'add.image': '上传图片 (压缩后不超过 1MB)',
+  'add.pick': '选择图片（可多选）',
+  'add.save': '存入仓库喵',
+  'add.camera': '拍一张照片',
+  'add.saveMany': '把 {count} 个物品存入仓库喵',
+
+  'upload.queue': '待添加的图片',
+  'upload.status.pending': '排队中...',
+  'upload.status.compressing': '正在压缩...',
+  'upload.status.recognizing': '正在识别...',
+  'upload.status.ready': '准备好了',
+  'upload.status.failed': '处理失败',
+  'upload.status.deferred': '联网后再识别',
+  'upload.error.invalidImage': '这张图片打不开喵...',
+  'upload.error.aiFailed': '没认出来，请手动起个名字喵',
+  'upload.edit': '裁剪或旋转',
+  'upload.skip': '跳过这张',
+  'upload.restore': '不跳过了',
+
+  'camera.preview': '相机画面',
+  'camera.capture': '拍照',
+  'camera.switch': '切换前后摄像头',
+  'camera.back': '返回',
+  'camera.failed': '打不开相机喵，请检查浏览器的相机权限。',
+
+  'crop.area': '裁剪区域',
+  'crop.hint': '拖动方框移动，拖动右下角调整大小',
+  'crop.rotateLeft': '向左旋转',
+  'crop.rotateRight': '向右旋转',
+  'crop.reset': '不裁剪',
+  'crop.cancel': '取消',
+  'crop.confirm': '就用这张',
+
+  'deck.fallbackName': '物品组',
+  'deck.defaultName': '我的仓库',
+  'deck.importedName': '导入的物品组',
+  'deck.mine': '我的物品组',
+  'deck.newName': '新物品组的名字',
+  'deck.renamePlaceholder': '新的名字',
+  'deck.confirm': '确定',
+  'deck.createEmpty': '新建空物品组',
+  'deck.createFromStarter': '从模板新建：{name}',
+  'deck.rename': '重命名当前物品组',
+  'deck.duplicate': '复制当前物品组',
+  'deck.copyName': '{name} 副本',
+  'deck.export': '导出为文件',
+  'deck.share': '分享',
+  'deck.import': '从文件导入',
+  'deck.delete': '删除当前物品组',
+  'deck.confirmDelete': '再点一次确认删除',
+  'deck.starter.kitchen': '厨房',
+  'deck.starter.toys': '玩具',
+
+  'settings.title': '开发者设置',
+  'settings.language': '语言',
+  'settings.skin': '猫咪皮肤',
+  'skin.calico': '三花',
+  'skin.tabby': '橘猫',
+  'skin.tuxedo': '奶牛猫',
+  'skin.scholar': '学霸猫',
+  'skin.upload': '上传皮肤（JSON，可附带 SVG）',
+  'skin.invalid': '皮肤文件格式不对喵，请检查 JSON 和 SVG。',
+  'skin.delete': '删除皮肤{name}',
+  'settings.provider': '识别服务',
+  'settings.geminiHint': 'AI 物品识别需要 Gemini API Key。你可以从 Google AI Studio 免费获取。',
+  'settings.openaiHint': '支持任意 OpenAI 兼容的视觉模型接口，例如本地的 Ollama 或 LM Studio。本地服务通常不需要 Key。',
+  'settings.manualHint': '不使用 AI，添加物品时请自己给它起名字喵~',
+  'settings.optional': '（可选）',
+  'settings.apiKeyPlaceholder': '在此输入你的 API Key',
+  'settings.model': '模型',
+  'settings.baseUrl': '接口地址',
+  'settings.prompt': '识别提示词',
+  'settings.resetDefaults': '恢复默认',
+  'settings.aiHints': '反向模式里让 AI 描述藏起来的物品',
+  'settings.aiDialogue': '让 AI 扮演小猫说话（每轮会多一次请求）',
+  'settings.timeout': '识别超时时间',
+  'settings.audio': '声音',
+  'settings.strategy': '猫咪策略',
+  'settings.hardAccuracy': '猜中概率：{percent}%',
+  'settings.save': '保存设置',
+  'settings.rules': '游戏规则',
+  'rules.preset.toddler': '宝宝',
+  'rules.preset.normal': '普通',
+  'rules.preset.challenge': '挑战',
+  'rules.custom': '当前是自定义规则',
+  'rules.guessTicks': '猜测动画长度：{count} 下',
+  'rules.tickMs': '动画速度：每下 {ms} 毫秒',
+  'rules.maxRetries': '最多重猜次数',
+  'rules.unlimited': '不限',
+  'rules.roundTime': '限时',
+  'rules.untimed': '不限时',
+  'rules.seconds': '{count} 秒',
+  'rules.firstTryPoints': '一次猜中得分',
+  'rules.retryPoints': '重猜后猜中得分',
+  'rules.maxPlayerGuesses': '反向模式最多猜 {count} 次',
+  'rules.timeLeft': '还剩 {count} 秒',
+
+  'provider.gemini': 'Google Gemini',
+  'provider.openai': 'OpenAI 兼容接口',
+  'provider.manual': '手动命名（不使用 AI）',
+  'provider.mock': '模拟识别（调试用）',
+  'provider.prompt': '请识别这张图片中的物品名称，只返回中文名称，不要超过4个字。',
+  'provider.hintPrompt': '用一句不超过15个字的中文描述这张图片里的物品，不要说出它的名字。',
+
+  'strategy.uniform': '随便猜',
+  'strategy.uniform.description': '每个物品被猜中的机会都一样。',
+  'strategy.frequency': '记性好',
+  'strategy.frequency.description': '记住你最常选的物品，优先猜它们。',
+  'strategy.avoidWrong': '不犯同样的错',
+  'strategy.avoidWrong.description': '这一轮猜错过的物品不会再猜。',
+  'strategy.hard': '火眼金睛',
+  'strategy.hard.description': '按设定的概率直接猜中，其余时候随便猜。',
+
+  'stats.title': '游戏统计',
+  'stats.loadFailed': '读取历史记录失败了喵...',
+  'stats.score': '总分',
+  'stats.successRate': '{count} 轮猜中率',
+  'stats.longestStreak': '最长连胜',
+  'stats.lastDays': '最近 {days} 天',
+  'stats.mostPicked': '最常被选的物品',
+  'stats.times': '{count} 次',
+  'stats.perItem': '每个物品的猜中率',
+  'stats.item': '物品',
+  'stats.rounds': '轮数',
+  'stats.successes': '猜中',
+  'stats.rate': '猜中率',
+  'stats.empty': '还没有玩过呢，快选一个东西让猫咪猜吧~',
+  'stats.byMode': '按玩法查看',
+  'stats.emptyMode': '这个玩法还没有记录喵~',
+  'stats.exportCsv': '导出 CSV',
+
+  'players.title': '多人轮流玩',
+  'players.open': '多人模式',
+  'players.defaultName': '玩家{index}',
+  'players.add': '添加玩家',
+  'players.remove': '移除{name}',
+  'players.turns': '每人玩几轮',
+  'players.turnsOption': '{count} 轮',
+  'players.start': '开始比赛',
+  'players.inProgress': '比赛正在进行中，结束后才能修改玩家。',
+  'players.end': '结束比赛',
+
+  'match.turn': '轮到{name}了',
+  'match.progress': '第 {turn}/{total} 轮',
+  'match.streak': '连胜 {count}',
+  'match.title': '比赛结束',
+  'match.winner': '{name} 赢了！',
+  'match.tie': '{names} 并列第一！',
+  'match.bestStreak': '最高连胜 {count}',
+  'match.rematch': '再来一场',
+  'match.close': '结束',
+
+  'mode.classic': '猫咪猜',
+  'mode.reverse': '我来猜',
+  'mode.toggle': '切换玩法',
+
+  'tag.soft': '软软的',
+  'tag.white': '白色',
+  'tag.home': '家里用的',
+  'tag.food': '能吃',
+  'tag.orange': '橙色',
+  'tag.vegetable': '蔬菜',
+  'tag.kitchen': '厨房里',
+  'tag.blue': '蓝色',
+  'tag.round': '圆圆的',
+  'tag.metal': '金属的',
+  'tag.long': '长长的',
+  'tag.pink': '粉色',
+  'tag.drink': '用来喝东西',
+  'tag.red': '红色',
+  'tag.fruit': '水果',
+  'tag.toy': '玩具',
+  'tag.yellow': '黄色',
+  'tag.square': '方方的',
+  'tag.animal': '小动物',
+  'tag.purple': '紫色',
+  'tag.outdoor': '在外面玩',
+
+  'share.title': '分享「{name}」',
+  'share.preparing': '正在打包缩略图...',
+  'share.failed': '生成分享链接失败了喵，请稍后再试。',
+  'share.qrLabel': '分享链接的二维码',
+  'share.qrHint': '用另一台设备扫一扫就能打开',
+  'share.qrSmaller': '为了放进二维码，扫码得到的图片会更模糊一些',
+  'share.qrPartial': '二维码只放得下前 {count} 个物品（共 {total} 个），完整的物品组请复制链接或下载文件。',
+  'share.qrTooLarge': '物品太多，二维码放不下了。可以复制链接或下载文件发给对方。',
+  'share.copyLink': '复制链接',
+  'share.copied': '已复制',
+  'share.download': '下载物品组文件',
+  'share.privacy': '物品都打包在链接里，不会上传到任何服务器。',
+  'shared.title': '收到一个物品组',
+  'shared.summary': '「{name}」，共 {count} 个物品',
+  'shared.import': '导入为新的物品组',
+  'shared.merge': '合并到当前物品组',
+  'shared.duplicates': '有 {count} 个物品和当前物品组重名，合并时会跳过',
+};
+
+export type MessageKey = keyof typeof zh;
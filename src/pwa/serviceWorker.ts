@@ -0,0 +1,55 @@
+import { useSyncExternalStore } from 'react';
+
+// --- Service Worker 注册和更新提示 ---
+// 开发环境不注册，免得缓存挡住热更新。
+
+// 长时间开着的页面也定期检查有没有新部署
+const UPDATE_CHECK_MS = 60 * 60 * 1000;
+
+let waitingWorker: ServiceWorker | null = null;
+const listeners = new Set<() => void>();
+
+const setWaiting = (worker: ServiceWorker) => {
+  waitingWorker = worker;
+  listeners.forEach(listener => listener());
+};
+
+// 新的 worker 装好了、并且页面已经被旧 worker 控制，说明有新版本
+const watchInstalling = (worker: ServiceWorker) => {
+  worker.addEventListener('statechange', () => {
+    if (worker.state === 'installed' && navigator.serviceWorker.controller) setWaiting(worker);
+  });
+};
+
+export const registerServiceWorker = () => {
+  if (!import.meta.env.PROD || !('serviceWorker' in navigator)) return;
+  window.addEventListener('load', async () => {
+    try {
+      const registration = await navigator.serviceWorker.register(`${import.meta.env.BASE_URL}sw.js`);
+      if (registration.waiting && navigator.serviceWorker.controller) setWaiting(registration.waiting);
+      registration.addEventListener('updatefound', () => {
+        if (registration.installing) watchInstalling(registration.installing);
+      });
+      setInterval(() => {
+        registration.update().catch(e => console.error('Failed to check for updates:', e));
+      }, UPDATE_CHECK_MS);
+    } catch (e) {
+      console.error('Failed to register service worker:', e);
+    }
+  });
+};
+
+// 让等待中的新版本接管，接管后刷新页面
+export const applyUpdate = () => {
+  if (!waitingWorker) return;
+  navigator.serviceWorker.addEventListener('controllerchange', () => window.location.reload(), { once: true });
+  waitingWorker.postMessage({ type: 'SKIP_WAITING' });
+};
+
+const subscribe = (listener: () => void) => {
+  listeners.add(listener);
+  return () => { listeners.delete(listener); };
+};
+
+export const useUpdateAvailable = (): boolean =>
+  useSyncExternalStore(subscribe, () => waitingWorker !== null, () => false);
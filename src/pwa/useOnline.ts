@@ -0,0 +1,15 @@
+import { useSyncExternalStore } from 'react';
+
+// --- 网络状态 ---
+// navigator.onLine 为 true 不代表一定能连上 AI 服务，但为 false 时肯定连不上。
+
+const subscribe = (listener: () => void) => {
+  window.addEventListener('online', listener);
+  window.addEventListener('offline', listener);
+  return () => {
+    window.removeEventListener('online', listener);
+    window.removeEventListener('offline', listener);
+  };
+};
+
+export const useOnline = (): boolean => useSyncExternalStore(subscribe, () => navigator.onLine, () => true);
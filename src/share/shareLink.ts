@@ -0,0 +1,142 @@
+import { isItem, MAX_NAME_LENGTH } from '../decks/deckFile';
+import type { Item } from '../types';
+import { createId } from '../utils/id';
+import { compressImage } from '../utils/image';
+import { QR_MAX_BYTES } from './qrCode';
+
+// --- 物品组分享链接 ---
+// 图片缩成小缩略图后和名字、标签一起打包，压缩后转成 base64url 放在链接的 # 后面，不会发送给服务器。
+
+const SHARE_HASH_KEY = 'deck';
+const SHARE_VERSION = 1;
+const MAX_SHARED_ITEMS = 100;
+const JPEG_PREFIX = 'data:image/jpeg;base64,';
+
+interface Thumbnail {
+  size: number;
+  quality: number;
+}
+
+// 链接里的缩略图尺寸；二维码放不下时依次换更小的
+const LINK_THUMBNAIL: Thumbnail = { size: 96, quality: 0.6 };
+const QR_THUMBNAILS: Thumbnail[] = [
+  { size: 64, quality: 0.5 },
+  { size: 48, quality: 0.45 },
+  { size: 32, quality: 0.4 },
+];
+
+// 字段名尽量短，链接越短二维码越好扫
+interface SharePayload {
+  v: number;
+  n: string;
+  // 名字、各语言名字、标签、去掉前缀的 JPEG base64
+  i: { n: string; l?: Record<string, string>; t?: string[]; p: string }[];
+}
+
+export interface SharedDeck {
+  name: string;
+  items: Item[];
+}
+
+export interface DeckShare {
+  link: string;
+  // 放不进二维码时为 null
+  qrLink: string | null;
+  // 二维码里带了前几个物品；连最小的缩略图都放不下全部物品时只放前面的一部分
+  qrItemCount: number;
+  // 链接里实际带的缩略图物品，下载文件时使用
+  items: Item[];
+}
+
+const pipeBytes = async (bytes: Uint8Array<ArrayBuffer>, transform: CompressionStream | DecompressionStream) =>
+  new Uint8Array(await new Response(new Blob([bytes]).stream().pipeThrough(transform)).arrayBuffer());
+
+const toBase64Url = (bytes: Uint8Array): string => {
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+};
+
+const fromBase64Url = (text: string): Uint8Array<ArrayBuffer> => {
+  const base64 = text.replace(/-/g, '+').replace(/_/g, '/');
+  const binary = atob(base64 + '==='.slice((base64.length + 3) % 4));
+  return Uint8Array.from(binary, c => c.charCodeAt(0));
+};
+
+const thumbnailsOf = (items: Item[], { size, quality }: Thumbnail) =>
+  Promise.all(items.map(item => compressImage(item.image, size, size, quality)));
+
+// items 和 thumbnails 一一对应；只传前一部分时就只打包这些物品
+const encodeDeck = async (name: string, items: Item[], thumbnails: string[]) => {
+  const payload: SharePayload = {
+    v: SHARE_VERSION,
+    n: name,
+    i: items.map((item, index) => ({ n: item.name, l: item.names, t: item.tags, p: thumbnails[index].slice(JPEG_PREFIX.length) })),
+  };
+  const compressed = await pipeBytes(new TextEncoder().encode(JSON.stringify(payload)), new CompressionStream('deflate-raw'));
+  return toBase64Url(compressed);
+};
+
+const linkOf = (baseUrl: string, encoded: string) => `${baseUrl}#${SHARE_HASH_KEY}=${encoded}`;
+
+const fitsQr = (link: string) => link.length <= QR_MAX_BYTES;
+
+// 生成分享链接，并找出能放进二维码的最大缩略图尺寸；最小的缩略图也放不下时，二维码里只放尽量多的前几个物品
+export const createDeckShare = async (name: string, items: Item[], baseUrl: string): Promise<DeckShare> => {
+  const fullThumbnails = await thumbnailsOf(items, LINK_THUMBNAIL);
+  const link = linkOf(baseUrl, await encodeDeck(name, items, fullThumbnails));
+  const share = { link, items: items.map((item, index) => ({ ...item, image: fullThumbnails[index] })) };
+  if (fitsQr(link)) return { ...share, qrLink: link, qrItemCount: items.length };
+
+  let thumbnails: string[] = [];
+  for (const thumbnail of QR_THUMBNAILS) {
+    thumbnails = await thumbnailsOf(items, thumbnail);
+    const qrLink = linkOf(baseUrl, await encodeDeck(name, items, thumbnails));
+    if (fitsQr(qrLink)) return { ...share, qrLink, qrItemCount: items.length };
+  }
+
+  // 二分查找能放下的最多物品数
+  let best: { qrLink: string; qrItemCount: number } | null = null;
+  let low = 1;
+  let high = items.length - 1;
+  while (low <= high) {
+    const count = Math.floor((low + high) / 2);
+    const qrLink = linkOf(baseUrl, await encodeDeck(name, items.slice(0, count), thumbnails));
+    if (fitsQr(qrLink)) {
+      best = { qrLink, qrItemCount: count };
+      low = count + 1;
+    } else {
+      high = count - 1;
+    }
+  }
+  return { ...share, ...(best ?? { qrLink: null, qrItemCount: 0 }) };
+};
+
+// 从地址栏的 hash 里取出分享内容，没有时返回 null
+export const readShareHash = (hash: string): string | null => {
+  const match = new RegExp(`^#${SHARE_HASH_KEY}=([\\w-]+)$`).exec(hash);
+  return match ? match[1] : null;
+};
+
+// 解析分享内容；格式不对时抛出 INVALID_SHARE_LINK
+export const decodeSharedDeck = async (encoded: string, fallbackName: string): Promise<SharedDeck> => {
+  let payload: Partial<SharePayload>;
+  try {
+    const bytes = await pipeBytes(fromBase64Url(encoded), new DecompressionStream('deflate-raw'));
+    payload = JSON.parse(new TextDecoder().decode(bytes)) as Partial<SharePayload>;
+  } catch {
+    throw new Error('INVALID_SHARE_LINK');
+  }
+  if (!payload || typeof payload.v !== 'number' || payload.v > SHARE_VERSION || !Array.isArray(payload.i)) throw new Error('INVALID_SHARE_LINK');
+  if (payload.i.length === 0 || payload.i.length > MAX_SHARED_ITEMS) throw new Error('INVALID_SHARE_LINK');
+  const items = payload.i.map(entry => ({
+    id: createId(),
+    name: typeof entry?.n === 'string' ? entry.n.trim() : '',
+    names: entry?.l,
+    tags: entry?.t,
+    image: typeof entry?.p === 'string' ? JPEG_PREFIX + entry.p : '',
+  }));
+  if (!items.every(isItem)) throw new Error('INVALID_SHARE_LINK');
+  const name = typeof payload.n === 'string' && payload.n.trim() ? payload.n.trim().slice(0, MAX_NAME_LENGTH) : fallbackName;
+  return { name, items };
+};
@@ -0,0 +1,25 @@
+// --- data URL 与 Blob 互转 ---
+
+export const dataUrlToBlob = (dataUrl: string): Blob => {
+  const commaIndex = dataUrl.indexOf(',');
+  const header = dataUrl.slice(0, commaIndex);
+  const body = dataUrl.slice(commaIndex + 1);
+  const mimeType = header.match(/^data:([^;,]*)/)?.[1] || 'application/octet-stream';
+
+  if (!header.includes(';base64')) {
+    // 形如 data:image/svg+xml;utf8,<svg ...> 的文本数据
+    return new Blob([decodeURIComponent(body)], { type: mimeType });
+  }
+  const binary = atob(body);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return new Blob([bytes], { type: mimeType });
+};
+
+export const blobToDataUrl = (blob: Blob): Promise<string> =>
+  new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
@@ -0,0 +1,132 @@
+import { dataUrlToBlob } from './blob';
+
+// --- IndexedDB 数据库与版本迁移 ---
+// 每个迁移对应一个数据库版本，升级时按顺序执行尚未执行过的迁移。
+
+const DB_NAME = 'cat_guess_game';
+// 旧版本把所有物品（包括图片的 data URL）存在这个 localStorage 键里
+export const LEGACY_ITEMS_STORAGE = 'cat_guess_items_ts_v1';
+
+export const ITEMS_STORE = 'items';
+export const META_STORE = 'meta';
+export const DECKS_STORE = 'decks';
+export const HISTORY_STORE = 'history';
+
+// 升级前的物品统一归入这个物品组
+export const DEFAULT_DECK_ID = 'default';
+
+export interface StoredItem {
+  id: string;
+  deckId: string;
+  name: string;
+  names?: Record<string, string>;
+  image: Blob;
+  tags?: string[];
+}
+
+export interface StoredDeck {
+  id: string;
+  name: string;
+  // 物品 id 的排列顺序
+  order: string[];
+  createdAt: number;
+}
+
+type Migration = (db: IDBDatabase, tx: IDBTransaction) => void;
+
+const MIGRATIONS: Migration[] = [
+  // v1：物品表、元数据表，并一次性导入旧版 localStorage 中的物品
+  (db, tx) => {
+    db.createObjectStore(ITEMS_STORE, { keyPath: 'id' });
+    db.createObjectStore(META_STORE);
+
+    const saved = localStorage.getItem(LEGACY_ITEMS_STORAGE);
+    if (!saved) return;
+    try {
+      const legacy = JSON.parse(saved) as { id: string; name: string; image: string }[];
+      const items = tx.objectStore(ITEMS_STORE);
+      for (const item of legacy) {
+        items.put({ id: item.id, name: item.name, image: dataUrlToBlob(item.image) });
+      }
+      tx.objectStore(META_STORE).put(legacy.map(item => item.id), 'order');
+      tx.addEventListener('complete', () => localStorage.removeItem(LEGACY_ITEMS_STORAGE));
+    } catch (e) {
+      // 旧数据损坏时保留原样，不影响新库的创建
+      console.error('Failed to import legacy items:', e);
+    }
+  },
+  // v2：物品组。已有物品全部归入默认物品组；升级时还不知道界面语言，名字留空，由 bootstrap 补上
+  (db, tx) => {
+    const decks = db.createObjectStore(DECKS_STORE, { keyPath: 'id' });
+    const items = tx.objectStore(ITEMS_STORE);
+    items.createIndex('deckId', 'deckId');
+
+    const meta = tx.objectStore(META_STORE);
+    const orderRequest = meta.get('order');
+    orderRequest.onsuccess = () => {
+      const order = orderRequest.result as string[] | undefined;
+      // 全新安装，首次加载时再创建物品组
+      if (!order) return;
+      decks.put({ id: DEFAULT_DECK_ID, name: '', order, createdAt: Date.now() } satisfies StoredDeck);
+      meta.put(DEFAULT_DECK_ID, 'activeDeck');
+      meta.delete('order');
+      const cursorRequest = items.openCursor();
+      cursorRequest.onsuccess = () => {
+        const cursor = cursorRequest.result;
+        if (!cursor) return;
+        cursor.update({ ...cursor.value, deckId: DEFAULT_DECK_ID });
+        cursor.continue();
+      };
+    };
+  },
+  // v3：游戏历史记录，自增主键保证按时间顺序排列
+  (db) => {
+    db.createObjectStore(HISTORY_STORE, { keyPath: 'id', autoIncrement: true });
+  },
+];
+
+export const DB_VERSION = MIGRATIONS.length;
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+export const openDatabase = (): Promise<IDBDatabase> => {
+  if (dbPromise) return dbPromise;
+  dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+    if (!('indexedDB' in window)) {
+      reject(new Error('STORAGE_UNAVAILABLE'));
+      return;
+    }
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = (event) => {
+      const db = request.result;
+      const tx = request.transaction!;
+      for (let version = event.oldVersion; version < DB_VERSION; version++) {
+        MIGRATIONS[version](db, tx);
+      }
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error ?? new Error('STORAGE_UNAVAILABLE'));
+    request.onblocked = () => reject(new Error('STORAGE_BLOCKED'));
+  });
+  dbPromise.catch(() => { dbPromise = null; });
+  return dbPromise;
+};
+
+// 把一次请求包装成 Promise
+export const promisifyRequest = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+// 事务完成时 resolve；配额不足统一转换成 QUOTA_EXCEEDED
+export const transactionDone = (tx: IDBTransaction): Promise<void> =>
+  new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    const fail = () => {
+      const error = tx.error;
+      reject(error?.name === 'QuotaExceededError' ? new Error('QUOTA_EXCEEDED') : error ?? new Error('STORAGE_ERROR'));
+    };
+    tx.onerror = fail;
+    tx.onabort = fail;
+  });
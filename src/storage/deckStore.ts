@@ -0,0 +1,180 @@
+import type { Item } from '../types';
+import { createId } from '../utils/id';
+import { blobToDataUrl, dataUrlToBlob } from './blob';
+import {
+  DECKS_STORE, DEFAULT_DECK_ID, ITEMS_STORE, META_STORE,
+  openDatabase, promisifyRequest, transactionDone, type StoredDeck, type StoredItem,
+} from './db';
+
+// --- 物品组存储 ---
+// 图片以 Blob 形式存在 IndexedDB 中，内存里仍然使用 data URL。
+// 保存时只写入有变化的物品，排序保存在物品组记录里。
+
+export interface DeckInfo {
+  id: string;
+  name: string;
+  itemCount: number;
+}
+
+export interface DeckStore {
+  // 读取物品组列表和当前物品组；全新安装时用默认物品创建第一个物品组，没有名字的物品组用 defaultName 命名
+  bootstrap: (defaults: Item[], defaultName: string) => Promise<{ decks: DeckInfo[]; activeDeckId: string; items: Item[] }>;
+  listDecks: () => Promise<DeckInfo[]>;
+  setActiveDeck: (deckId: string) => Promise<void>;
+  loadItems: (deckId: string) => Promise<Item[]>;
+  saveItems: (deckId: string, items: Item[]) => Promise<void>;
+  // 新建物品组；和已有物品 id 冲突的物品会换一个新 id
+  createDeck: (name: string, items: Item[]) => Promise<DeckInfo>;
+  renameDeck: (deckId: string, name: string) => Promise<void>;
+  deleteDeck: (deckId: string) => Promise<void>;
+}
+
+const toInfo = (deck: StoredDeck): DeckInfo => ({ id: deck.id, name: deck.name, itemCount: deck.order.length });
+
+const toStored = (deckId: string, item: Item): StoredItem =>
+  ({ id: item.id, deckId, name: item.name, names: item.names, image: dataUrlToBlob(item.image), tags: item.tags });
+
+export const createDeckStore = (): DeckStore => {
+  // 每个物品组上一次成功写入的物品，用引用比较找出变化
+  const persisted = new Map<string, Map<string, Item>>();
+  // 保存和删除依次执行：同时进行的保存会拿同一份 persisted 比较，前一次新增的物品在后一次里删不掉
+  let writing: Promise<unknown> = Promise.resolve();
+  const queueWrite = <T>(write: () => Promise<T>): Promise<T> => {
+    const result = writing.then(write);
+    writing = result.catch(() => {});
+    return result;
+  };
+
+  const listDecks = async (): Promise<DeckInfo[]> => {
+    const db = await openDatabase();
+    const decks = await promisifyRequest(db.transaction(DECKS_STORE).objectStore(DECKS_STORE).getAll() as IDBRequest<StoredDeck[]>);
+    return decks.sort((a, b) => a.createdAt - b.createdAt).map(toInfo);
+  };
+
+  const setActiveDeck = async (deckId: string): Promise<void> => {
+    const db = await openDatabase();
+    const tx = db.transaction(META_STORE, 'readwrite');
+    tx.objectStore(META_STORE).put(deckId, 'activeDeck');
+    await transactionDone(tx);
+  };
+
+  const loadItems = async (deckId: string): Promise<Item[]> => {
+    const db = await openDatabase();
+    const tx = db.transaction([DECKS_STORE, ITEMS_STORE], 'readonly');
+    const [deck, stored] = await Promise.all([
+      promisifyRequest(tx.objectStore(DECKS_STORE).get(deckId) as IDBRequest<StoredDeck | undefined>),
+      promisifyRequest(tx.objectStore(ITEMS_STORE).index('deckId').getAll(deckId) as IDBRequest<StoredItem[]>),
+    ]);
+    if (!deck) throw new Error('DECK_NOT_FOUND');
+
+    const byId = new Map(stored.map(item => [item.id, item]));
+    const items: Item[] = [];
+    for (const id of deck.order) {
+      const record = byId.get(id);
+      if (record) items.push({ id: record.id, name: record.name, names: record.names, image: await blobToDataUrl(record.image), tags: record.tags });
+    }
+    persisted.set(deckId, new Map(items.map(item => [item.id, item])));
+    return items;
+  };
+
+  const saveItems = (deckId: string, items: Item[]): Promise<void> => queueWrite(async () => {
+    const db = await openDatabase();
+    const tx = db.transaction([DECKS_STORE, ITEMS_STORE], 'readwrite');
+    const done = transactionDone(tx);
+    const decks = tx.objectStore(DECKS_STORE);
+    const store = tx.objectStore(ITEMS_STORE);
+    const previous = persisted.get(deckId) ?? new Map<string, Item>();
+    const nextIds = new Set(items.map(item => item.id));
+
+    for (const item of items) {
+      if (previous.get(item.id) !== item) store.put(toStored(deckId, item));
+    }
+    for (const id of previous.keys()) {
+      if (!nextIds.has(id)) store.delete(id);
+    }
+    const deckRequest = decks.get(deckId);
+    deckRequest.onsuccess = () => {
+      const deck = deckRequest.result as StoredDeck | undefined;
+      if (deck) decks.put({ ...deck, order: items.map(item => item.id) });
+    };
+
+    await done;
+    persisted.set(deckId, new Map(items.map(item => [item.id, item])));
+  });
+
+  const createDeck = async (name: string, items: Item[]): Promise<DeckInfo> => {
+    const db = await openDatabase();
+    const existing = new Set(await promisifyRequest(db.transaction(ITEMS_STORE).objectStore(ITEMS_STORE).getAllKeys()));
+    const deckItems = items.map(item => {
+      if (!existing.has(item.id)) {
+        existing.add(item.id);
+        return item;
+      }
+      const id = createId();
+      existing.add(id);
+      return { ...item, id };
+    });
+
+    const deck: StoredDeck = { id: createId('deck'), name, order: deckItems.map(item => item.id), createdAt: Date.now() };
+    const tx = db.transaction([DECKS_STORE, ITEMS_STORE], 'readwrite');
+    const done = transactionDone(tx);
+    tx.objectStore(DECKS_STORE).put(deck);
+    const store = tx.objectStore(ITEMS_STORE);
+    deckItems.forEach(item => store.put(toStored(deck.id, item)));
+    await done;
+    return toInfo(deck);
+  };
+
+  const renameDeck = async (deckId: string, name: string): Promise<void> => {
+    const db = await openDatabase();
+    const tx = db.transaction(DECKS_STORE, 'readwrite');
+    const done = transactionDone(tx);
+    const decks = tx.objectStore(DECKS_STORE);
+    const request = decks.get(deckId);
+    request.onsuccess = () => {
+      const deck = request.result as StoredDeck | undefined;
+      if (deck) decks.put({ ...deck, name });
+    };
+    await done;
+  };
+
+  const deleteDeck = (deckId: string): Promise<void> => queueWrite(async () => {
+    const db = await openDatabase();
+    const tx = db.transaction([DECKS_STORE, ITEMS_STORE], 'readwrite');
+    const done = transactionDone(tx);
+    tx.objectStore(DECKS_STORE).delete(deckId);
+    const keysRequest = tx.objectStore(ITEMS_STORE).index('deckId').getAllKeys(deckId);
+    keysRequest.onsuccess = () => {
+      keysRequest.result.forEach(key => tx.objectStore(ITEMS_STORE).delete(key));
+    };
+    await done;
+    persisted.delete(deckId);
+  });
+
+  const bootstrap = async (defaults: Item[], defaultName: string) => {
+    let decks = await listDecks();
+    // 从旧版本升级来的默认物品组
+    const unnamed = decks.filter(deck => !deck.name);
+    if (unnamed.length > 0) {
+      await Promise.all(unnamed.map(deck => renameDeck(deck.id, defaultName)));
+      decks = decks.map(deck => (deck.name ? deck : { ...deck, name: defaultName }));
+    }
+    if (decks.length === 0) {
+      const db = await openDatabase();
+      const deck: StoredDeck = { id: DEFAULT_DECK_ID, name: defaultName, order: defaults.map(item => item.id), createdAt: Date.now() };
+      const tx = db.transaction([DECKS_STORE, ITEMS_STORE], 'readwrite');
+      const done = transactionDone(tx);
+      tx.objectStore(DECKS_STORE).put(deck);
+      defaults.forEach(item => tx.objectStore(ITEMS_STORE).put(toStored(deck.id, item)));
+      await done;
+      decks = [toInfo(deck)];
+    }
+
+    const db = await openDatabase();
+    const savedActive = await promisifyRequest(db.transaction(META_STORE).objectStore(META_STORE).get('activeDeck') as IDBRequest<string | undefined>);
+    const activeDeckId = decks.some(deck => deck.id === savedActive) ? savedActive! : decks[0].id;
+    return { decks, activeDeckId, items: await loadItems(activeDeckId) };
+  };
+
+  return { bootstrap, listDecks, setActiveDeck, loadItems, saveItems, createDeck, renameDeck, deleteDeck };
+};
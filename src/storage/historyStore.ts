@@ -0,0 +1,27 @@
+import type { HistoryEntry } from '../history/types';
+import { HISTORY_STORE, openDatabase, promisifyRequest, transactionDone } from './db';
+
+// --- 游戏历史记录存储 ---
+
+export const addHistoryEntry = async (entry: Omit<HistoryEntry, 'id'>): Promise<HistoryEntry> => {
+  const db = await openDatabase();
+  const tx = db.transaction(HISTORY_STORE, 'readwrite');
+  const done = transactionDone(tx);
+  const id = await promisifyRequest(tx.objectStore(HISTORY_STORE).add(entry));
+  await done;
+  return { ...entry, id: id as number };
+};
+
+export const listHistory = async (): Promise<HistoryEntry[]> => {
+  const db = await openDatabase();
+  const entries = await promisifyRequest(db.transaction(HISTORY_STORE).objectStore(HISTORY_STORE).getAll() as IDBRequest<HistoryEntry[]>);
+  // 加入反向模式之前的记录没有 mode 字段
+  return entries.map(entry => ({ ...entry, mode: entry.mode ?? 'classic' }));
+};
+
+export const clearHistory = async (): Promise<void> => {
+  const db = await openDatabase();
+  const tx = db.transaction(HISTORY_STORE, 'readwrite');
+  tx.objectStore(HISTORY_STORE).clear();
+  await transactionDone(tx);
+};
@@ -0,0 +1,42 @@
+// --- Service Worker：离线缓存 ---
+// 构建时 vite.config.ts 会把下面两个占位符换成真正的文件清单和版本号。
+
+declare const self: ServiceWorkerGlobalScope;
+declare const __PRECACHE_MANIFEST__: string[];
+declare const __CACHE_VERSION__: string;
+
+const CACHE_PREFIX = 'cat-guess-';
+const CACHE_NAME = `${CACHE_PREFIX}${__CACHE_VERSION__}`;
+
+self.addEventListener('install', (event) => {
+  event.waitUntil(caches.open(CACHE_NAME).then(cache => cache.addAll(__PRECACHE_MANIFEST__)));
+});
+
+// 新版本装好后先等着，用户在页面上点了更新才接管
+self.addEventListener('message', (event) => {
+  if ((event.data as { type?: string } | null)?.type === 'SKIP_WAITING') void self.skipWaiting();
+});
+
+self.addEventListener('activate', (event) => {
+  event.waitUntil((async () => {
+    const keys = await caches.keys();
+    await Promise.all(keys.filter(key => key.startsWith(CACHE_PREFIX) && key !== CACHE_NAME).map(key => caches.delete(key)));
+    await self.clients.claim();
+  })());
+});
+
+self.addEventListener('fetch', (event) => {
+  const { request } = event;
+  // AI 接口等跨域请求不经过缓存
+  if (request.method !== 'GET' || new URL(request.url).origin !== self.location.origin) return;
+
+  // 页面优先走网络，这样能及时拿到新部署；离线时用缓存的 index.html
+  if (request.mode === 'navigate') {
+    event.respondWith(fetch(request).catch(async () => {
+      const cache = await caches.open(CACHE_NAME);
+      return (await cache.match('index.html')) ?? Response.error();
+    }));
+    return;
+  }
+  event.respondWith(caches.match(request).then(cached => cached ?? fetch(request)));
+});
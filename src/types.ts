@@ -0,0 +1,10 @@
+// --- 公共类型定义 ---
+export interface Item {
+  id: string;
+  name: string;
+  // 按语言保存的名字，例如 { en: 'Carrot' }；缺少时显示 name
+  names?: Record<string, string>;
+  image: string;
+  // 描述物品的标签，反向模式里用作提示；内置标签的文案在 tag.* 里
+  tags?: string[];
+}
@@ -0,0 +1,31 @@
+// --- 离线时添加、等联网后再识别的物品 ---
+
+export interface PendingRecognition {
+  deckId: string;
+  itemId: string;
+  // 排队时的占位名字；用户之后改过名字就不再自动识别
+  name: string;
+}
+
+const PENDING_RECOGNITION_STORAGE = 'cat_guess_pending_recognition';
+
+const isPending = (value: unknown): value is PendingRecognition => {
+  if (!value || typeof value !== 'object') return false;
+  const entry = value as Partial<PendingRecognition>;
+  return typeof entry.deckId === 'string' && typeof entry.itemId === 'string' && typeof entry.name === 'string';
+};
+
+export const loadPendingRecognition = (): PendingRecognition[] => {
+  try {
+    const saved = localStorage.getItem(PENDING_RECOGNITION_STORAGE);
+    const parsed: unknown = saved ? JSON.parse(saved) : [];
+    return Array.isArray(parsed) ? parsed.filter(isPending) : [];
+  } catch (e) {
+    console.error('Failed to load pending recognition from storage:', e);
+    return [];
+  }
+};
+
+export const savePendingRecognition = (pending: PendingRecognition[]) => {
+  localStorage.setItem(PENDING_RECOGNITION_STORAGE, JSON.stringify(pending));
+};
@@ -0,0 +1,49 @@
+import { describe, expect, it } from 'vitest';
+import { createManualClock } from '../game/clock';
+import { BASE_RETRY_DELAY_MS, createRetryTimer, MAX_RETRY_DELAY_MS } from './retryTimer';
+
+// 每次重试都接着失败，记下重试的时间
+const failingRetries = () => {
+  const clock = createManualClock();
+  const retriedAt: number[] = [];
+  const timer = createRetryTimer(() => {
+    retriedAt.push(clock.now());
+    timer.fail();
+  }, clock);
+  return { clock, timer, retriedAt };
+};
+
+describe('retry timer', () => {
+  it('doubles the delay after each failure up to the maximum', () => {
+    const { clock, timer, retriedAt } = failingRetries();
+    timer.fail();
+    clock.advance(BASE_RETRY_DELAY_MS - 1);
+    expect(retriedAt).toEqual([]);
+
+    clock.advance(1);
+    clock.advance(BASE_RETRY_DELAY_MS * 2 + BASE_RETRY_DELAY_MS * 4);
+    expect(retriedAt).toEqual([BASE_RETRY_DELAY_MS, BASE_RETRY_DELAY_MS * 3, BASE_RETRY_DELAY_MS * 7]);
+
+    clock.advance(MAX_RETRY_DELAY_MS * 3);
+    const gaps = retriedAt.slice(1).map((at, index) => at - retriedAt[index]);
+    expect(Math.max(...gaps)).toBe(MAX_RETRY_DELAY_MS);
+  });
+
+  it('starts over after a success and stops when cancelled', () => {
+    const { clock, timer, retriedAt } = failingRetries();
+    timer.fail();
+    clock.advance(BASE_RETRY_DELAY_MS);
+    timer.succeed();
+    clock.advance(MAX_RETRY_DELAY_MS);
+    expect(retriedAt).toHaveLength(1);
+
+    // 成功后再失败又从最短的等待开始
+    timer.fail();
+    clock.advance(BASE_RETRY_DELAY_MS);
+    expect(retriedAt).toHaveLength(2);
+
+    timer.cancel();
+    clock.advance(MAX_RETRY_DELAY_MS);
+    expect(retriedAt).toHaveLength(2);
+  });
+});
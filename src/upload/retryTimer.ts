@@ -0,0 +1,42 @@
+import { systemClock, type Clock, type TimerId } from '../game/clock';
+
+// --- 失败后按指数退避再试 ---
+// 连续失败一次等待时间翻一倍，最长等 MAX_RETRY_DELAY_MS；成功一次后从头算。
+
+export const BASE_RETRY_DELAY_MS = 5000;
+export const MAX_RETRY_DELAY_MS = 5 * 60 * 1000;
+
+export interface RetryTimer {
+  // 这次失败了，过一会儿调用 retry
+  fail: () => void;
+  // 成功了，取消等待中的重试并清零退避
+  succeed: () => void;
+  cancel: () => void;
+}
+
+export const createRetryTimer = (retry: () => void, clock: Clock = systemClock): RetryTimer => {
+  let failures = 0;
+  let timer: TimerId | null = null;
+
+  const cancel = () => {
+    if (timer !== null) clock.clearTimeout(timer);
+    timer = null;
+  };
+
+  return {
+    fail: () => {
+      cancel();
+      const delay = Math.min(MAX_RETRY_DELAY_MS, BASE_RETRY_DELAY_MS * 2 ** failures);
+      failures++;
+      timer = clock.setTimeout(() => {
+        timer = null;
+        retry();
+      }, delay);
+    },
+    succeed: () => {
+      cancel();
+      failures = 0;
+    },
+    cancel,
+  };
+};
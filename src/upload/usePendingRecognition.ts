@@ -0,0 +1,119 @@
+import { useEffect, useRef, useState } from 'react';
+import { aiErrorCode, getProvider, recognizeImage, type AiSettings } from '../ai';
+import type { Item } from '../types';
+import { loadPendingRecognition, savePendingRecognition, type PendingRecognition } from './pendingRecognition';
+import { createRetryTimer, type RetryTimer } from './retryTimer';
+
+// --- 联网后补上离线时没做的识别 ---
+// 只处理当前物品组里的物品，其余的等切换过去再说；一次只发一个请求。
+// 网络或服务出错时按退避时间自动再试，切回这个页面时也马上再试一次。
+
+interface PendingRecognitionOptions {
+  deckId: string;
+  items: Item[];
+  aiSettings: AiSettings;
+  defaultPrompt: string;
+  online: boolean;
+  onRecognized: (itemId: string, name: string) => void;
+}
+
+export const usePendingRecognition = (options: PendingRecognitionOptions) => {
+  const [pending, setPending] = useState<PendingRecognition[]>(loadPendingRecognition);
+  const optionsRef = useRef(options);
+  const pendingRef = useRef(pending);
+  const runningRef = useRef(false);
+  const retryRef = useRef<RetryTimer | null>(null);
+
+  useEffect(() => {
+    optionsRef.current = options;
+  });
+
+  useEffect(() => {
+    pendingRef.current = pending;
+    try {
+      savePendingRecognition(pending);
+    } catch (e) {
+      console.error("Failed to save pending recognition:", e);
+    }
+  }, [pending]);
+
+  const remove = (entry: PendingRecognition) =>
+    setPending(prev => prev.filter(p => p.deckId !== entry.deckId || p.itemId !== entry.itemId));
+
+  const run = async () => {
+    runningRef.current = true;
+    // 等当前渲染结束再开始，队列的变化都在异步里发生
+    await Promise.resolve();
+    const handled = new Set<string>();
+    const finish = (entry: PendingRecognition) => {
+      handled.add(entry.itemId);
+      remove(entry);
+    };
+    let failed = false;
+    for (;;) {
+      const { deckId, items, aiSettings, defaultPrompt, online } = optionsRef.current;
+      if (!online || getProvider(aiSettings.providerId).manual) break;
+      const entry = pendingRef.current.find(p => p.deckId === deckId && !handled.has(p.itemId));
+      if (!entry) break;
+      // 物品被删掉或者改过名字的直接丢掉
+      const item = items.find(i => i.id === entry.itemId);
+      if (item?.name !== entry.name) {
+        finish(entry);
+        continue;
+      }
+      try {
+        const name = await recognizeImage(item.image, aiSettings, defaultPrompt);
+        // 等待期间切换了物品组或者改了名字，这次结果作废
+        const current = optionsRef.current.items.find(i => i.id === item.id);
+        if (optionsRef.current.deckId === deckId && current?.name === entry.name) optionsRef.current.onRecognized(item.id, name);
+      } catch (e) {
+        console.error('Failed to recognize pending item:', e);
+        // 回答格式不对的就保留占位名字；网络、配置等问题留到下次联网再试
+        const code = aiErrorCode(e);
+        if (code !== 'EMPTY_RESPONSE' && code !== 'INVALID_RESULT') {
+          failed = true;
+          break;
+        }
+      }
+      finish(entry);
+    }
+    runningRef.current = false;
+    if (failed) retryRef.current?.fail();
+    else retryRef.current?.succeed();
+  };
+
+  // run 只通过 ref 读取最新的参数，定时器和事件里用第一次渲染时的也没关系
+  const runRef = useRef(run);
+
+  useEffect(() => {
+    const start = () => {
+      if (!runningRef.current) void runRef.current();
+    };
+    const retry = createRetryTimer(start);
+    retryRef.current = retry;
+    const onVisibilityChange = () => {
+      if (document.visibilityState === 'visible') start();
+    };
+    document.addEventListener('visibilitychange', onVisibilityChange);
+    return () => {
+      retry.cancel();
+      retryRef.current = null;
+      document.removeEventListener('visibilitychange', onVisibilityChange);
+    };
+  }, []);
+
+  const { deckId, online, aiSettings } = options;
+  const hasWork = online && !getProvider(aiSettings.providerId).manual && pending.some(p => p.deckId === deckId);
+  useEffect(() => {
+    if (hasWork && !runningRef.current) void run();
+    // 只在联网、切换物品组或者有新物品排队时启动
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [hasWork, deckId, pending.length]);
+
+  const enqueue = (targetDeckId: string, added: Item[]) =>
+    setPending(prev => [...prev, ...added.map(item => ({ deckId: targetDeckId, itemId: item.id, name: item.name }))]);
+
+  const count = pending.filter(p => p.deckId === deckId).length;
+
+  return { enqueue, count };
+};
@@ -0,0 +1,164 @@
+import { useEffect, useRef, useState } from 'react';
+import { aiErrorCode, getProvider, recognizeImage, type AiSettings } from '../ai';
+import { compressImage, dataUrlByteSize } from '../utils/image';
+import { createId } from '../utils/id';
+
+// --- 批量添加物品的处理队列 ---
+// 每张图片依次压缩、检查大小、交给 AI 识别；一次只处理一张，避免同时发出很多请求。
+
+// 压缩后的图片大小上限
+export const MAX_UPLOAD_SIZE = 1024 * 1024; // 1MB
+
+export type UploadStatus = 'pending' | 'compressing' | 'recognizing' | 'ready' | 'failed';
+
+// TOO_LARGE / INVALID_IMAGE 表示图片不能用；AI_FAILED 只是识别失败，仍然可以手动起名
+export type UploadError = 'TOO_LARGE' | 'INVALID_IMAGE' | 'AI_FAILED';
+
+export interface UploadEntry {
+  id: string;
+  // 裁剪后的原图，重新编辑时从这里开始
+  source: string;
+  image: string | null;
+  name: string;
+  // 用户改过名字后，重新识别不会覆盖它
+  nameEdited: boolean;
+  status: UploadStatus;
+  error: UploadError | null;
+  skipped: boolean;
+  // 离线时没有识别，保存后等联网再识别
+  deferred: boolean;
+  // 每次重新处理加一，旧的处理结果回来时直接丢弃
+  version: number;
+}
+
+interface UploadQueueOptions {
+  aiSettings: AiSettings;
+  defaultPrompt: string;
+  // 识别失败时使用的名字
+  fallbackName: string;
+  // 离线时不调用 AI，先用 fallbackName 占位
+  offline: boolean;
+  // 识别服务出错（缺少 Key、限流、超时等）时通知界面
+  onAiError: (error: unknown) => void;
+}
+
+export const PROGRESS: Record<UploadStatus, number> = {
+  pending: 0,
+  compressing: 30,
+  recognizing: 65,
+  ready: 100,
+  failed: 100,
+};
+
+// 模型没按要求回答时不打扰用户，直接用默认名字让用户自己改
+const isSilentAiError = (e: unknown) =>
+  ['EMPTY_RESPONSE', 'INVALID_RESULT'].includes(aiErrorCode(e));
+
+export const useUploadQueue = (options: UploadQueueOptions) => {
+  const [entries, setEntries] = useState<UploadEntry[]>([]);
+  const optionsRef = useRef(options);
+  const jobsRef = useRef<{ id: string; version: number; source: string }[]>([]);
+  const runningRef = useRef(false);
+  const aliveRef = useRef(true);
+  // 关闭窗口时取消正在进行的识别请求
+  const abortRef = useRef<AbortController | null>(null);
+
+  useEffect(() => {
+    optionsRef.current = options;
+  });
+
+  useEffect(() => {
+    aliveRef.current = true;
+    return () => {
+      aliveRef.current = false;
+      abortRef.current?.abort();
+    };
+  }, []);
+
+  const update = (id: string, version: number, patch: (entry: UploadEntry) => Partial<UploadEntry>) => {
+    if (!aliveRef.current) return;
+    setEntries(prev => prev.map(e => (e.id === id && e.version === version ? { ...e, ...patch(e) } : e)));
+  };
+
+  const processJob = async ({ id, version, source }: { id: string; version: number; source: string }) => {
+    update(id, version, () => ({ status: 'compressing' }));
+    let image: string;
+    try {
+      image = await compressImage(source);
+    } catch (e) {
+      console.error('Failed to compress image:', e);
+      update(id, version, () => ({ status: 'failed', error: 'INVALID_IMAGE' }));
+      return;
+    }
+    if (dataUrlByteSize(image) > MAX_UPLOAD_SIZE) {
+      update(id, version, () => ({ status: 'failed', error: 'TOO_LARGE', image }));
+      return;
+    }
+
+    const { aiSettings, defaultPrompt, fallbackName, offline, onAiError } = optionsRef.current;
+    if (getProvider(aiSettings.providerId).manual) {
+      update(id, version, () => ({ status: 'ready', image }));
+      return;
+    }
+    if (offline) {
+      update(id, version, e => ({ status: 'ready', image, deferred: true, name: e.nameEdited ? e.name : fallbackName }));
+      return;
+    }
+    update(id, version, () => ({ status: 'recognizing', image }));
+    const controller = new AbortController();
+    abortRef.current = controller;
+    try {
+      const name = await recognizeImage(image, aiSettings, defaultPrompt, { signal: controller.signal });
+      update(id, version, e => ({ status: 'ready', name: e.nameEdited ? e.name : name || e.name }));
+    } catch (e) {
+      if (aiErrorCode(e) === 'ABORTED') return;
+      if (isSilentAiError(e)) console.error('Failed to recognize image:', e);
+      else onAiError(e);
+      update(id, version, entry => ({ status: 'ready', error: 'AI_FAILED', name: entry.nameEdited ? entry.name : fallbackName }));
+    } finally {
+      if (abortRef.current === controller) abortRef.current = null;
+    }
+  };
+
+  const run = async () => {
+    if (runningRef.current) return;
+    runningRef.current = true;
+    while (jobsRef.current.length > 0 && aliveRef.current) {
+      await processJob(jobsRef.current.shift()!);
+    }
+    runningRef.current = false;
+  };
+
+  const enqueue = (sources: string[]) => {
+    const added: UploadEntry[] = sources.map(source => ({
+      id: createId('upload'), source, image: null, name: '', nameEdited: false,
+      status: 'pending', error: null, skipped: false, deferred: false, version: 0,
+    }));
+    setEntries(prev => [...prev, ...added]);
+    jobsRef.current.push(...added.map(({ id, version, source }) => ({ id, version, source })));
+    void run();
+  };
+
+  // 重新裁剪后用新图片再处理一遍
+  const replaceSource = (id: string, source: string) => {
+    const entry = entries.find(e => e.id === id);
+    if (!entry) return;
+    const version = entry.version + 1;
+    setEntries(prev => prev.map(e => (e.id === id ? { ...e, source, version, image: null, status: 'pending', error: null, deferred: false } : e)));
+    jobsRef.current = jobsRef.current.filter(job => job.id !== id);
+    jobsRef.current.push({ id, version, source });
+    void run();
+  };
+
+  const rename = (id: string, name: string) =>
+    setEntries(prev => prev.map(e => (e.id === id ? { ...e, name, nameEdited: true } : e)));
+
+  const toggleSkip = (id: string) =>
+    setEntries(prev => prev.map(e => (e.id === id ? { ...e, skipped: !e.skipped } : e)));
+
+  const busy = entries.some(e => e.status === 'pending' || e.status === 'compressing' || e.status === 'recognizing');
+  // 可以存入仓库的物品：处理完成、没有跳过、图片可用并且有名字
+  const saveable = entries.filter(e => e.status === 'ready' && !e.skipped && e.image && e.name.trim());
+
+  return { entries, enqueue, replaceSource, rename, toggleSkip, busy, saveable };
+};
@@ -0,0 +1,3 @@
+// --- 生成不易冲突的 id ---
+export const createId = (prefix = 'item'): string =>
+  `${prefix}_${Date.now().toString(36)}_${Math.random().toString(36).slice(2, 8)}`;
@@ -0,0 +1,84 @@
+// --- 图片处理：读取、旋转、裁剪、压缩 ---
+// 都在 canvas 上完成，输入输出都是 data URL。
+
+export interface CropRect {
+  // 相对图片宽高的比例（0~1）
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export const FULL_CROP: CropRect = { x: 0, y: 0, width: 1, height: 1 };
+
+export const readFileAsDataUrl = (file: Blob): Promise<string> =>
+  new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error ?? new Error('READ_FAILED'));
+    reader.readAsDataURL(file);
+  });
+
+const loadImage = (src: string): Promise<HTMLImageElement> =>
+  new Promise((resolve, reject) => {
+    const img = new Image();
+    img.onload = () => resolve(img);
+    img.onerror = () => reject(new Error('INVALID_IMAGE'));
+    img.src = src;
+  });
+
+const drawToCanvas = (width: number, height: number, draw: (ctx: CanvasRenderingContext2D) => void): HTMLCanvasElement => {
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.max(1, Math.round(width));
+  canvas.height = Math.max(1, Math.round(height));
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('CANVAS_UNAVAILABLE');
+  draw(ctx);
+  return canvas;
+};
+
+// 顺时针旋转 90 度的整数倍
+export const rotateImage = async (src: string, quarterTurns: number): Promise<string> => {
+  const turns = ((quarterTurns % 4) + 4) % 4;
+  if (turns === 0) return src;
+  const img = await loadImage(src);
+  const swap = turns % 2 === 1;
+  const width = swap ? img.height : img.width;
+  const height = swap ? img.width : img.height;
+  return drawToCanvas(width, height, ctx => {
+    ctx.translate(width / 2, height / 2);
+    ctx.rotate((turns * Math.PI) / 2);
+    ctx.drawImage(img, -img.width / 2, -img.height / 2);
+  }).toDataURL('image/png');
+};
+
+export const cropImage = async (src: string, rect: CropRect): Promise<string> => {
+  if (rect.x <= 0 && rect.y <= 0 && rect.width >= 1 && rect.height >= 1) return src;
+  const img = await loadImage(src);
+  const sx = rect.x * img.width;
+  const sy = rect.y * img.height;
+  const sw = rect.width * img.width;
+  const sh = rect.height * img.height;
+  return drawToCanvas(sw, sh, ctx => ctx.drawImage(img, sx, sy, sw, sh, 0, 0, sw, sh)).toDataURL('image/png');
+};
+
+// 等比缩小到指定尺寸以内并转成 JPEG
+export const compressImage = async (src: string, maxWidth = 400, maxHeight = 400, quality = 0.7): Promise<string> => {
+  const img = await loadImage(src);
+  let { width, height } = img;
+  if (width > height) {
+    if (width > maxWidth) { height *= maxWidth / width; width = maxWidth; }
+  } else if (height > maxHeight) {
+    width *= maxHeight / height; height = maxHeight;
+  }
+  return drawToCanvas(width, height, ctx => ctx.drawImage(img, 0, 0, width, height)).toDataURL('image/jpeg', quality);
+};
+
+// data URL 解码后的大致字节数
+export const dataUrlByteSize = (dataUrl: string): number => {
+  const comma = dataUrl.indexOf(',');
+  const body = dataUrl.slice(comma + 1);
+  if (!dataUrl.slice(0, comma).includes(';base64')) return decodeURIComponent(body).length;
+  const padding = body.endsWith('==') ? 2 : body.endsWith('=') ? 1 : 0;
+  return Math.floor((body.length * 3) / 4) - padding;
+};
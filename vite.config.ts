@@ -1,8 +1,43 @@
-import { defineConfig } from 'vite'
+import { createHash } from 'node:crypto'
+import { readdirSync } from 'node:fs'
+import { fileURLToPath } from 'node:url'
+import { defineConfig, type Plugin } from 'vite'
 import react from '@vitejs/plugin-react-swc'
 
+const SERVICE_WORKER_ENTRY = 'sw'
+
+// 把构建产物和 public 里的文件清单写进 sw.js，文件名带哈希，清单变了缓存版本也跟着变
+const precacheManifest = (): Plugin => ({
+  name: 'precache-manifest',
+  apply: 'build',
+  // 放在最后，index.html 这时已经生成
+  enforce: 'post',
+  generateBundle(_options, bundle) {
+    const publicFiles = readdirSync(fileURLToPath(new URL('./public', import.meta.url)))
+    const files = [...Object.keys(bundle).filter(file => file !== `${SERVICE_WORKER_ENTRY}.js`), ...publicFiles].sort()
+    const version = createHash('sha256').update(files.join('\n')).digest('hex').slice(0, 12)
+    const worker = bundle[`${SERVICE_WORKER_ENTRY}.js`]
+    if (worker?.type !== 'chunk') return
+    worker.code = worker.code
+      .replaceAll('__PRECACHE_MANIFEST__', JSON.stringify(files))
+      .replaceAll('__CACHE_VERSION__', JSON.stringify(version))
+  },
+})
+
 // https://vite.dev/config/
 export default defineConfig({
-  plugins: [react()],
-  base: '/cat-guess-game/'
+  plugins: [react(), precacheManifest()],
+  base: '/cat-guess-game/',
+  build: {
+    rollupOptions: {
+      input: {
+        index: fileURLToPath(new URL('./index.html', import.meta.url)),
+        [SERVICE_WORKER_ENTRY]: fileURLToPath(new URL('./src/sw/serviceWorker.ts', import.meta.url)),
+      },
+      output: {
+        // Service Worker 的地址不能带哈希，否则每次部署都会注册成新的 worker
+        entryFileNames: chunk => (chunk.name === SERVICE_WORKER_ENTRY ? '[name].js' : 'assets/[name]-[hash].js'),
+      },
+    },
+  },
 })